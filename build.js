@@ -27,6 +27,7 @@ function main2() {
       case "build": {
          rimrafSync("dist");
          shell("tsc");
+         shell("tsc -p test");                                       // type-checks the tests, without emitting files
          shell("tslint");
          copyToDist([".npmignore", "LICENSE.md", "README.md", "package.json", "build.js"]);
          console.log("Build completed.");
@@ -1,11 +1,14 @@
 // Demo application for the virtual-grid-layout module.
 
 import * as GridLayout from "virtual-grid-layout/GridLayout";
-import {LayoutController, ViewportPosition, CellType} from "virtual-grid-layout/GridLayout";
+import {LayoutController, ViewportPosition, CellType, CellPool} from "virtual-grid-layout/GridLayout";
 import * as GridScroll from "virtual-grid-layout/GridScroll";
-import {ScrollUnit} from "virtual-grid-layout/GridScroll";
+import {ScrollUnit, ScrollMode} from "virtual-grid-layout/GridScroll";
 import * as GridResize from "virtual-grid-layout/GridResize";
-import {ResizeController} from "virtual-grid-layout/GridResize";
+import {ResizeController, ReorderController} from "virtual-grid-layout/GridResize";
+import {SelectionController} from "virtual-grid-layout/GridSelection";
+import {GestureController} from "virtual-grid-layout/GridGesture";
+import {SizeIndex} from "virtual-grid-layout/GridSizeIndex";
 import * as GridUtils from "virtual-grid-layout/GridUtils";
 import * as PlainScrollbar from "plain-scrollbar";
 import {PlainScrollbar as Scrollbar} from "plain-scrollbar";
@@ -21,18 +24,33 @@ interface AppParms {
    macroCellRate:            number;
    macroCellHeightLo:        number;
    macroCellHeightHi:        number;
-   macroCellWidth:           number; }
+   macroCellWidth:           number;
+   frozenRows:               number;
+   frozenCols:               number;
+   overscan:                 number;
+   pixelScrolling:           boolean;
+   resizePreview:            boolean;
+   proportionalResize:       boolean;
+   rightToLeft:              boolean; }
 
 var appParms:                AppParms;
 var layoutController:        LayoutController;
 var resizeController:        ResizeController;
+var resizeControllerParms:   GridResize.ControllerParms;
+var reorderController:       ReorderController;
+var selectionController:     SelectionController;
+var gestureController:       GestureController;
 var gridViewportElement:     HTMLElement;
 var vScrollbar:              Scrollbar;
 var hScrollbar:              Scrollbar;
 var viewportPosition:        ViewportPosition;
-var rowHeights:              Int16Array;
+var rowHeights:              Int32Array;                   // Int32Array allows for macro cells larger than 32767 pixels
 var colWidths:               Int16Array;
-var macroCellHeights:        Int16Array;
+var macroCellHeights:        Int32Array;
+var rowSizeIndex:            SizeIndex;                    // prefix sums of the row heights, for the vertical scrollbar
+var rowDataNdxs:             number[];                     // maps row indexes to data row indexes, for row reordering
+var colDataNdxs:             number[];                     // maps column indexes to data column indexes, for column reordering
+var mutationObserver:        MutationObserver;
 var renderRequested:         boolean = false;
 var animationFrameRequestId: number = 0;
 
@@ -48,18 +66,28 @@ function getAppParms() {
    ap.macroCellHeightLo = Utils.getInputElementValueNum("macroCellHeightLo");
    ap.macroCellHeightHi = Utils.getInputElementValueNum("macroCellHeightHi");
    ap.macroCellWidth    = Utils.getInputElementValueNum("macroCellWidth");
+   ap.frozenRows        = Utils.getInputElementValueNum("frozenRows");
+   ap.frozenCols        = Utils.getInputElementValueNum("frozenCols");
+   ap.overscan          = Utils.getInputElementValueNum("overscan");
+   ap.pixelScrolling    = Utils.getInputElementChecked("pixelScrolling");
+   ap.resizePreview     = Utils.getInputElementChecked("resizePreview");
+   ap.proportionalResize = Utils.getInputElementChecked("proportionalResize");
+   ap.rightToLeft       = Utils.getInputElementChecked("rightToLeft");
    appParms = ap; }
 
 function randomSize (lo: number, hi: number) : number {
    return Math.round(lo + Math.max(0, (hi - lo)) * Math.random()); }
 
 function buildGridData() {
-   rowHeights = new Int16Array(appParms.rowCount);
-   macroCellHeights = new Int16Array(appParms.rowCount);
+   rowHeights = new Int32Array(appParms.rowCount);
+   rowDataNdxs = Array.from(Array(appParms.rowCount).keys());
+   macroCellHeights = new Int32Array(appParms.rowCount);
    for (let rowNdx = 0; rowNdx < appParms.rowCount; rowNdx++) {
       macroCellHeights[rowNdx] = Math.random() < appParms.macroCellRate ? randomSize(appParms.macroCellHeightLo, appParms.macroCellHeightHi) : 0;
       rowHeights[rowNdx] = macroCellHeights[rowNdx] + randomSize(appParms.rowHeightLo, appParms.rowHeightHi); }
+   rowSizeIndex = SizeIndex.fromArray(rowHeights, appParms.rowHeightLo);
    colWidths = new Int16Array(appParms.colCount);
+   colDataNdxs = Array.from(Array(appParms.colCount).keys());
    for (let colNdx = 0; colNdx < appParms.colCount; colNdx++) {
       colWidths[colNdx] = randomSize(appParms.colWidthLo, appParms.colWidthHi); }}
 
@@ -69,22 +97,30 @@ function getCellColor (rowNdx: number, colNdx: number) : string {
    const colorTone = colNdx % 8;
    return "rgb(" + (colorTone & 1 ? colorMax : colorMin) + "," + (colorTone & 2 ? colorMax : colorMin) + "," + (colorTone & 4 ? colorMax : colorMin) + ")"; } // tslint:disable-line:no-bitwise
 
-function prepareCell (cellType: CellType, rowNdx: number, colNdx: number, _width: number, _height: number, oldCell: HTMLElement | undefined) : HTMLElement {
+function prepareCell (cellType: CellType, rowNdx: number, colNdx: number, _width: number, _height: number, oldCell: HTMLElement | undefined, recycledCell?: HTMLElement) : HTMLElement {
    if (oldCell) {
+      updateSelectionState(oldCell, cellType, rowNdx, colNdx);
       return oldCell; }
-   const cell = document.createElement("div");
+   const cell = recycledCell || document.createElement("div");
    switch (cellType) {
       case CellType.regular: {
          cell.className = "gridCell";
-         cell.textContent = rowNdx + " / " + colNdx;
-         cell.style.backgroundColor = getCellColor(rowNdx, colNdx);
+         cell.textContent = rowDataNdxs[rowNdx] + " / " + colDataNdxs[colNdx];
+         cell.style.backgroundColor = getCellColor(rowDataNdxs[rowNdx], colDataNdxs[colNdx]);
          break; }
       case CellType.macro: {
          cell.className = "macroCell";
-         cell.textContent = "Macro cell " + rowNdx;
+         cell.textContent = "Macro cell " + rowDataNdxs[rowNdx];
          break; }}
+   updateSelectionState(cell, cellType, rowNdx, colNdx);
    return cell; }
 
+function updateSelectionState (cell: HTMLElement, cellType: CellType, rowNdx: number, colNdx: number) {
+   if (cellType != CellType.regular) {
+      return; }
+   cell.classList.toggle("selected", selectionController.isSelected(rowNdx, colNdx));
+   cell.classList.toggle("active", selectionController.isActive(rowNdx, colNdx)); }
+
 function renderGrid() {
    const renderParms : GridLayout.RenderParms = {
       viewportPosition,
@@ -93,10 +129,35 @@ function renderGrid() {
       macroCellHeights,
       macroCellWidth: appParms.macroCellWidth,
       vCellOverlap: 1,
+      frozenRows: appParms.frozenRows,
+      frozenCols: appParms.frozenCols,
+      overscanRows: appParms.overscan,
+      overscanCols: appParms.overscan,
+      overscanDirectional: true,
+      aria: true,
+      rowSizeIndex,
       prepareCell };
+   mutationObserver.takeRecords();
    layoutController.render(renderParms);
+   reportDomMutations();
    renderRequested = false; }
 
+// Counts the DOM mutations caused by a render operation, to verify that re-used cells are not re-inserted.
+function reportDomMutations() {
+   const records = mutationObserver.takeRecords();
+   let inserted = 0;
+   let removed = 0;
+   let styleChanges = 0;
+   for (const record of records) {
+      inserted += record.addedNodes.length;
+      removed += record.removedNodes.length;
+      if (record.type == "attributes") {
+         styleChanges++; }}
+   const st = layoutController.cellPool!.statistics;
+   document.getElementById("domMutations")!.textContent =
+      `DOM mutations in last render: ${inserted} cells inserted, ${removed} cells removed, ${styleChanges} style changes. ` +
+      `Cell pool: ${st.hits} hits, ${st.misses} misses, ${st.created} cells created.`; }
+
 function requestRender() {
    renderRequested = true;
    scheduleAnimationFrame(); }
@@ -115,15 +176,21 @@ function scroll (orientation: boolean, scrollUnit: ScrollUnit, scrollValue: numb
    const ip = {
       scrollUnit,
       scrollValue,
+      scrollMode:   appParms.pixelScrolling ? ScrollMode.pixel : ScrollMode.snap,
       topNdx:       orientation ? viewportPosition.rowNdx : viewportPosition.colNdx,
+      pixelOffset:  orientation ? viewportPosition.rowPixelOffset : viewportPosition.colPixelOffset,
       elementCount: orientation ? appParms.rowCount : appParms.colCount,
       viewportSize: orientation ? gridViewportElement.clientHeight : gridViewportElement.clientWidth,
-      elementSizes: orientation ? rowHeights : colWidths };
+      elementSizes: orientation ? rowHeights : colWidths,
+      frozenCount:  orientation ? appParms.frozenRows : appParms.frozenCols,
+      sizeIndex:    orientation ? rowSizeIndex : undefined };
    const r = GridScroll.process(ip);
    if (orientation) {
-      viewportPosition.rowNdx = r.topNdx; }
+      viewportPosition.rowNdx = r.topNdx;
+      viewportPosition.rowPixelOffset = r.pixelOffset; }
     else {
-      viewportPosition.colNdx = r.topNdx; }
+      viewportPosition.colNdx = r.topNdx;
+      viewportPosition.colPixelOffset = r.pixelOffset; }
    const scrollbar = orientation ? vScrollbar : hScrollbar;
    scrollbar.value = r.scrollbarPosition;
    scrollbar.thumbSize = r.scrollbarThumbSize; }
@@ -137,13 +204,22 @@ function scrollbar_input (this: Scrollbar, event: CustomEvent) {
    requestRender(); }
 
 function container_wheel (event: WheelEvent) {
-   scroll(true, ScrollUnit.mediumIncr, Math.sign(event.deltaY));
+   if (appParms.pixelScrolling) {
+      const d = GridUtils.convertWheelEventToPixels(event);
+      scroll(true, ScrollUnit.pixelIncr, d.deltaY);
+      scroll(false, ScrollUnit.pixelIncr, appParms.rightToLeft ? -d.deltaX : d.deltaX); }
+    else {
+      scroll(true, ScrollUnit.mediumIncr, Math.sign(event.deltaY)); }
    requestRender();
    event.stopPropagation();
    event.preventDefault(); }
 
 function container_keydown (event: KeyboardEvent) {
-   const r = GridUtils.convertKeyboardEvent(event);
+   if (selectionController.processKeyboardEvent(event)) {
+      event.stopPropagation();
+      event.preventDefault();
+      return; }
+   const r = GridUtils.convertKeyboardEvent(event, appParms.rightToLeft);
    if (!r) {
       return; }
    scroll(r.orientation, r.scrollUnit, r.scrollValue);
@@ -154,16 +230,85 @@ function container_keydown (event: KeyboardEvent) {
 function resizeController_elementResize (event: CustomEvent) {
    const d = event.detail;
    const sizes = d.orientation ? rowHeights : colWidths;
-   if (d.ndx < 0 || d.ndx >= sizes.length) {
-      return; }
-   sizes[d.ndx] = d.size;
+   for (const e of <GridResize.ResizeEntry[]>d.sizes) {
+      if (e.ndx >= 0 && e.ndx < sizes.length) {
+         sizes[e.ndx] = e.size;
+         if (d.orientation) {
+            rowSizeIndex.setSize(e.ndx, e.size); }}}
 // if (d.orientation) {
 //    macroCellHeights[d.ndx] = Math.min(d.size, macroCellHeights[d.ndx]); }
    scroll(d.orientation, ScrollUnit.none, 0);
    requestRender(); }
 
+function layoutController_viewportResize() {
+   scroll(true, ScrollUnit.none, 0);
+   scroll(false, ScrollUnit.none, 0);
+   requestRender(); }
+
+// Resizes all columns/rows of the selection range that contains the dragged column/row.
+function getResizeGroup (orientation: boolean, ndx: number) : number[] | undefined {
+   for (const r of selectionController.ranges) {
+      const startNdx = orientation ? r.startRowNdx : r.startColNdx;
+      const endNdx = orientation ? r.endRowNdx : r.endColNdx;
+      if (ndx >= startNdx && ndx <= endNdx) {
+         const group: number[] = [];
+         for (let i = startNdx; i <= endNdx; i++) {
+            group.push(i); }
+         return group; }}
+   return undefined; }
+
+// Measures the content size of the visible cells of a row or column for auto-fit.
+function measureBestSize (orientation: boolean, ndx: number, cells: HTMLElement[]) : number | undefined {
+   let bestSize = 0;
+   for (const cell of cells) {
+      const style = cell.style;
+      const oldSize = orientation ? style.height : style.width;
+      if (orientation) {
+         style.height = "auto"; }
+       else {
+         style.width = "max-content"; }
+      bestSize = Math.max(bestSize, orientation ? cell.offsetHeight : cell.offsetWidth);
+      if (orientation) {
+         style.height = oldSize; }
+       else {
+         style.width = oldSize; }}
+   if (bestSize <= 0) {
+      return; }
+   return orientation ? bestSize + macroCellHeights[ndx] : bestSize; }     // (the row height includes the macro cell height)
+
+function reorderController_elementMove (event: CustomEvent) {
+   const d = event.detail;
+   if (d.orientation) {
+      moveArrayElement(rowHeights, d.sourceNdx, d.targetNdx);
+      moveArrayElement(macroCellHeights, d.sourceNdx, d.targetNdx);
+      moveArrayElement(rowDataNdxs, d.sourceNdx, d.targetNdx);
+      const startNdx = Math.min(d.sourceNdx, d.targetNdx);
+      rowSizeIndex.setSizes(rowHeights, startNdx, Math.abs(d.targetNdx - d.sourceNdx) + 1); }
+    else {
+      moveArrayElement(colWidths, d.sourceNdx, d.targetNdx);
+      moveArrayElement(colDataNdxs, d.sourceNdx, d.targetNdx); }
+   layoutController.clear(undefined);
+   requestRender(); }
+
+function moveArrayElement (a: {[ndx: number]: number}, sourceNdx: number, targetNdx: number) {
+   const v = a[sourceNdx];
+   const step = (targetNdx > sourceNdx) ? 1 : -1;
+   for (let i = sourceNdx; i != targetNdx; i += step) {
+      a[i] = a[i + step]; }
+   a[targetNdx] = v; }
+
+function viewportPositionChange (event: CustomEvent) {
+   viewportPosition = {...event.detail};
+   scroll(true, ScrollUnit.none, 0);
+   scroll(false, ScrollUnit.none, 0);
+   requestRender(); }
+
 function processAppParms() {
    getAppParms();
+   resizeControllerParms.previewMode = appParms.resizePreview;
+   resizeControllerParms.proportionalMode = appParms.proportionalResize;
+   layoutController.direction = appParms.rightToLeft ? "rtl" : "ltr";
+   layoutController.clear(undefined);
    buildGridData();
    scroll(true, ScrollUnit.absPosition, 0);
    scroll(false, ScrollUnit.absPosition, 0);
@@ -178,22 +323,39 @@ function appParms_change() {
 function init() {
    gridViewportElement = document.getElementById("gridViewport")!;
    layoutController = new LayoutController(gridViewportElement);
-   const resizeControllerParms: GridResize.ControllerParms = {
+   layoutController.cellPool = new CellPool();
+   layoutController.addEventListener("viewport-resize", layoutController_viewportResize);
+   layoutController.observeViewportResize(false);
+   mutationObserver = new MutationObserver(() => undefined);
+   mutationObserver.observe(gridViewportElement, {subtree: true, childList: true, attributes: true, attributeFilter: ["style"]});
+   resizeControllerParms = {
       layoutController,
       rowSizingEnabled:     true,
       colSizingEnabled:     true,
       rowSizingTopWidth:    6,
       rowSizingBottomWidth: 5,
       colSizingLeftWidth:   6,
-      colSizingRightWidth:  5 };
+      colSizingRightWidth:  5,
+      minSize:              8,
+      autoFitEnabled:       true,
+      measureBestSize,
+      getResizeGroup };
    resizeController = new ResizeController(resizeControllerParms);
    resizeController.addEventListener("element-resize", <EventListener>resizeController_elementResize);
+   reorderController = new ReorderController({layoutController, rowReorderEnabled: true, colReorderEnabled: true});
+   reorderController.addEventListener("element-move", <EventListener>reorderController_elementMove);
+   reorderController.addEventListener("viewport-position-change", <EventListener>viewportPositionChange);
+   const containerElement = document.getElementById("gridContainer")!;
+   selectionController = new SelectionController({layoutController, ariaEnabled: true, focusElement: containerElement});
+   selectionController.addEventListener("selection-change", requestRender);
+   selectionController.addEventListener("viewport-position-change", <EventListener>viewportPositionChange);
+   gestureController = new GestureController({layoutController});
+   gestureController.addEventListener("viewport-position-change", <EventListener>viewportPositionChange);
    PlainScrollbar.registerCustomElement();
    vScrollbar = <any>document.getElementById("verticalGridScrollbar");
    vScrollbar.addEventListener("scrollbar-input", <any>scrollbar_input);
    hScrollbar = <any>document.getElementById("horizontalGridScrollbar");
    hScrollbar.addEventListener("scrollbar-input", <any>scrollbar_input);
-   const containerElement = document.getElementById("gridContainer")!;
    containerElement.addEventListener("wheel", container_wheel);
    containerElement.addEventListener("keydown", container_keydown);
    viewportPosition = {...GridLayout.topLeftViewportPosition};
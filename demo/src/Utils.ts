@@ -22,3 +22,7 @@ export function getInputElementValueNum (elementId: string, defaultValue: number
    if (e.value == "") {
       return defaultValue; }
    return e.valueAsNumber; }
+
+export function getInputElementChecked (elementId: string) : boolean {
+   const e = getInputElement(elementId);
+   return e.checked; }
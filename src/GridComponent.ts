@@ -0,0 +1,373 @@
+// Composite grid component.
+
+// The `VirtualGrid` class wires the layout controller, the scroll logic, an optional resize controller and
+// optional scrollbars together. It contains the glue code that would otherwise be needed in each application:
+// render batching with `requestAnimationFrame()`, scrolling with `GridScroll`, updating the scrollbars,
+// handling wheel and keyboard events and applying resized row heights and column widths.
+//
+// The row heights, column widths and cells are supplied by a data source. Like the rest of the package,
+// the component is style-agnostic. The cells are created and styled by the data source.
+//
+// Using this class is optional. The underlying modules can still be used directly for more control.
+
+import {LayoutController, ViewportPosition, CellType, CellSpanFunction, PrepareCellFunction, ReleaseCellFunction, CellTemplateKeyFunction, RenderParms, topLeftViewportPosition} from "./GridLayout";
+import * as GridScroll from "./GridScroll";
+import {ScrollUnit, ScrollMode, ScrollAlignment} from "./GridScroll";
+import * as GridResize from "./GridResize";
+import {ResizeController} from "./GridResize";
+import {SizeProvider} from "./GridSizeProvider";
+import * as GridUtils from "./GridUtils";
+
+// Supplies the row heights, column widths and cells of a `VirtualGrid`.
+// The sizes are read on demand and cached by the grid until they are invalidated.
+export interface DataSource {
+   getRowHeight:                       (rowNdx: number) => number;   // returns the height of a row in pixels
+   getColWidth:                        (colNdx: number) => number;   // returns the width of a column in pixels
+   getMacroCellHeight?:                (rowNdx: number) => number;   // returns the height of the macro cell of a row in pixels, 0 = no macro cell
+   setRowHeight?:                      (rowNdx: number, height: number) => void;     // called when a row has been resized by the user
+   setColWidth?:                       (colNdx: number, width: number) => void;      // called when a column has been resized by the user
+   prepareCell:                        PrepareCellFunction;          // creates and/or prepares a cell, see `PrepareCellFunction`
+   releaseCell?:                       ReleaseCellFunction;          // releases cells that are no longer in use
+   getCellTemplateKey?:                CellTemplateKeyFunction;      // determines the template key of a cell for the cell pool
+   getCellSpan?:                       CellSpanFunction; }           // determines merged regular cells
+
+// A scrollbar element, e.g. a `plain-scrollbar`.
+// The grid sets `value` and `thumbSize` and listens to the `scrollbar-input` event.
+export interface ScrollbarElement extends EventTarget {
+   value:                              number;                       // scrollbar position, in the range 0..1
+   thumbSize:                          number; }                     // thumb size relative to the trough, in the range 0..1
+
+export interface GridParms {
+   viewportElement:                    HTMLElement;                  // viewport element of the grid
+   dataSource:                         DataSource;                   // supplies the sizes and cells
+   rowCount:                           number;                       // number of rows
+   colCount:                           number;                       // number of columns
+   macroCellWidth?:                    number;                       // width of the macro cells in pixels, default 0
+   vCellOverlap?:                      number;                       // vertical cell overlap in pixels, default 0
+   frozenRows?:                        number;                       // number of frozen leading rows
+   frozenCols?:                        number;                       // number of frozen leading columns
+   overscanRows?:                      number;                       // number of additional rows placed above and below the viewport
+   overscanCols?:                      number;                       // number of additional columns placed left and right of the viewport
+   scrollMode?:                        ScrollMode;                   // scroll mode, default is `snap`
+   aria?:                              boolean;                      // true to add ARIA grid roles and attributes
+   direction?:                         "ltr" | "rtl";                // writing direction, default is "ltr"
+   vScrollbar?:                        ScrollbarElement;             // vertical scrollbar
+   hScrollbar?:                        ScrollbarElement;             // horizontal scrollbar
+   inputElement?:                      HTMLElement;                  // element that receives the wheel and keyboard events, default is the viewport element
+   resizeParms?:                       Omit<GridResize.ControllerParms, "layoutController">;   // parameters for a resize controller, `undefined` = no resizing
+   observeViewportResize?:             boolean; }                    // true to re-render the grid when the viewport size changes (requires `ResizeObserver`), default true
+
+export interface ElementResizeEventDetail {
+   orientation:                        boolean;                      // false = columns, true = rows
+   sizes:                              GridResize.ResizeEntry[]; }   // the new sizes of the resized rows/columns
+
+export interface VirtualGridEventMap {
+   "render":                           Event;
+   "viewport-position-change":         CustomEvent<ViewportPosition>;
+   "element-resize":                   CustomEvent<ElementResizeEventDetail>; }
+
+// Event methods with typed listeners, merged into the `VirtualGrid` class.
+export interface VirtualGrid {
+   addEventListener<K extends keyof VirtualGridEventMap> (type: K, listener: (event: VirtualGridEventMap[K]) => void, options?: boolean | AddEventListenerOptions) : void;
+   addEventListener (type: string, listener: EventListenerOrEventListenerObject | null, options?: boolean | AddEventListenerOptions) : void;
+   removeEventListener<K extends keyof VirtualGridEventMap> (type: K, listener: (event: VirtualGridEventMap[K]) => void, options?: boolean | EventListenerOptions) : void;
+   removeEventListener (type: string, listener: EventListenerOrEventListenerObject | null, options?: boolean | EventListenerOptions) : void; }
+
+// A virtual grid component.
+//
+// Rendering is batched: All methods that change the grid only request a rendering, which is done
+// in the next animation frame.
+//
+// Events:
+// - `render`: The grid has been rendered.
+// - `viewport-position-change`: The viewport position has changed by scrolling. `event.detail` is the new `ViewportPosition`.
+// - `element-resize`: Rows or columns have been resized by the user and the new sizes have been applied.
+//   `event.detail` is an `ElementResizeEventDetail`.
+export class VirtualGrid extends EventTarget {
+
+   public  layoutController:           LayoutController;             // the layout controller of the grid
+   public  resizeController?:          ResizeController;             // the resize controller, only when `GridParms.resizeParms` is specified
+   private gridParms:                  GridParms;
+   private inputElement:               HTMLElement;
+   private isDisposed:                 boolean = false;
+   private position:                   ViewportPosition;             // current viewport position, may be ahead of the rendered state
+   private rowSizes:                   CachedSizeProvider;
+   private colSizes:                   CachedSizeProvider;
+   private macroCellSizes?:            CachedSizeProvider;
+   private invalidRows:                Set<number> = new Set();      // rows whose cells have to be prepared again with the next rendering
+   private allRowsInvalid:             boolean = false;              // true if the cells of all rows have to be prepared again
+   private animationFrameId:           number = 0;
+
+   constructor (gp: GridParms) {
+      super();
+      this.gridParms = gp;
+      const ds = gp.dataSource;
+      this.rowSizes = new CachedSizeProvider(gp.rowCount, (ndx) => ds.getRowHeight(ndx));
+      this.colSizes = new CachedSizeProvider(gp.colCount, (ndx) => ds.getColWidth(ndx));
+      if (ds.getMacroCellHeight) {
+         const getMacroCellHeight = ds.getMacroCellHeight;
+         this.macroCellSizes = new CachedSizeProvider(gp.rowCount, (ndx) => getMacroCellHeight(ndx)); }
+      this.position = {...topLeftViewportPosition};
+      this.layoutController = new LayoutController(gp.viewportElement);
+      this.layoutController.direction = gp.direction || "ltr";
+      this.layoutController.addEventListener("viewport-resize", this.layoutController_viewportResizeEventListener);
+      if (gp.observeViewportResize != false) {
+         this.layoutController.observeViewportResize(false); }
+      if (gp.resizeParms) {
+         this.resizeController = new ResizeController({...gp.resizeParms, layoutController: this.layoutController});
+         this.resizeController.addEventListener("element-resize", <EventListener>this.resizeController_elementResizeEventListener); }
+      if (gp.vScrollbar) {
+         gp.vScrollbar.addEventListener("scrollbar-input", <EventListener>this.vScrollbar_inputEventListener); }
+      if (gp.hScrollbar) {
+         gp.hScrollbar.addEventListener("scrollbar-input", <EventListener>this.hScrollbar_inputEventListener); }
+      this.inputElement = gp.inputElement || gp.viewportElement;
+      this.inputElement.addEventListener("wheel", this.input_wheelEventListener);
+      this.inputElement.addEventListener("keydown", this.input_keyDownEventListener);
+      this.updateScrollbars();
+      this.requestRender(); }
+
+   public dispose() {
+      if (this.isDisposed) {
+         return; }
+      this.isDisposed = true;
+      const gp = this.gridParms;
+      if (this.animationFrameId) {
+         cancelAnimationFrame(this.animationFrameId);
+         this.animationFrameId = 0; }
+      if (gp.vScrollbar) {
+         gp.vScrollbar.removeEventListener("scrollbar-input", <EventListener>this.vScrollbar_inputEventListener); }
+      if (gp.hScrollbar) {
+         gp.hScrollbar.removeEventListener("scrollbar-input", <EventListener>this.hScrollbar_inputEventListener); }
+      this.inputElement.removeEventListener("wheel", this.input_wheelEventListener);
+      this.inputElement.removeEventListener("keydown", this.input_keyDownEventListener);
+      if (this.resizeController) {
+         this.resizeController.removeEventListener("element-resize", <EventListener>this.resizeController_elementResizeEventListener);
+         this.resizeController.dispose(); }
+      this.layoutController.removeEventListener("viewport-resize", this.layoutController_viewportResizeEventListener);
+      this.layoutController.dispose();
+      this.layoutController.clear(gp.dataSource.releaseCell); }
+
+   // Returns the current viewport position.
+   public get viewportPosition() : ViewportPosition {
+      return {...this.position}; }
+
+   // Returns the number of rows.
+   public get rowCount() : number {
+      return this.rowSizes.count; }
+
+   // Returns the number of columns.
+   public get colCount() : number {
+      return this.colSizes.count; }
+
+   // Changes the number of rows, e.g. after rows have been appended or removed by the data source.
+   // The cached sizes of the rows beyond the new row count are discarded.
+   public setRowCount (rowCount: number) {
+      this.rowSizes.setCount(rowCount);
+      if (this.macroCellSizes) {
+         this.macroCellSizes.setCount(rowCount); }
+      this.scroll(true, ScrollUnit.none, 0);                        // (moves the viewport position back into the grid)
+      this.requestRender(); }
+
+   // Changes the number of columns.
+   public setColCount (colCount: number) {
+      this.colSizes.setCount(colCount);
+      this.scroll(false, ScrollUnit.none, 0);
+      this.requestRender(); }
+
+   // Marks rows as changed. Their sizes are read again from the data source and their cells are prepared again.
+   // The rendered cells of these rows are passed to `prepareCell` as `recycledCell` instead of `oldCell`,
+   // so that their content is updated.
+   public invalidateRows (startNdx: number, n = 1) {
+      const endNdx = Math.min(this.rowCount, startNdx + n);
+      for (let rowNdx = Math.max(0, startNdx); rowNdx < endNdx; rowNdx++) {
+         this.rowSizes.invalidate(rowNdx);
+         if (this.macroCellSizes) {
+            this.macroCellSizes.invalidate(rowNdx); }
+         this.invalidRows.add(rowNdx); }
+      this.updateScrollbars();
+      this.requestRender(); }
+
+   // Re-reads all sizes from the data source, prepares all cells again and re-renders the grid.
+   public refresh() {
+      this.rowSizes.invalidateAll();
+      this.colSizes.invalidateAll();
+      if (this.macroCellSizes) {
+         this.macroCellSizes.invalidateAll(); }
+      this.allRowsInvalid = true;
+      this.updateScrollbars();
+      this.requestRender(); }
+
+   // Scrolls a row and optionally a column into view.
+   //
+   // @param rowNdx
+   //    Index of the target row.
+   // @param colNdx
+   //    Index of the target column, `undefined` to keep the horizontal position.
+   // @param alignment
+   //    Where the target is placed within the viewport, default is `start`.
+   public scrollTo (rowNdx: number, colNdx?: number, alignment = ScrollAlignment.start) {
+      this.scroll(true, ScrollUnit.intoView, rowNdx, alignment);
+      if (colNdx != undefined) {
+         this.scroll(false, ScrollUnit.intoView, colNdx, alignment); }}
+
+   // Scrolls the grid and updates the scrollbar.
+   //
+   // @param orientation
+   //    false = horizontal, true = vertical
+   public scroll (orientation: boolean, scrollUnit: ScrollUnit, scrollValue: number, alignment?: ScrollAlignment) {
+      const gp = this.gridParms;
+      const ip: GridScroll.InputParms = {
+         scrollUnit,
+         scrollValue,
+         alignment,
+         scrollMode:   gp.scrollMode,
+         topNdx:       orientation ? this.position.rowNdx : this.position.colNdx,
+         pixelOffset:  orientation ? this.position.rowPixelOffset : this.position.colPixelOffset,
+         elementCount: orientation ? this.rowCount : this.colCount,
+         viewportSize: orientation ? gp.viewportElement.clientHeight : gp.viewportElement.clientWidth,
+         elementSizes: orientation ? this.rowSizes : this.colSizes,
+         frozenCount:  orientation ? gp.frozenRows : gp.frozenCols };
+      const r = GridScroll.process(ip);
+      const oldPosition = {...this.position};
+      if (orientation) {
+         this.position.rowNdx = r.topNdx;
+         this.position.rowPixelOffset = r.pixelOffset; }
+       else {
+         this.position.colNdx = r.topNdx;
+         this.position.colPixelOffset = r.pixelOffset; }
+      const scrollbar = orientation ? gp.vScrollbar : gp.hScrollbar;
+      if (scrollbar) {
+         scrollbar.value = r.scrollbarPosition;
+         scrollbar.thumbSize = r.scrollbarThumbSize; }
+      if (!isSameViewportPosition(this.position, oldPosition)) {
+         this.dispatchEvent(new CustomEvent("viewport-position-change", {detail: this.viewportPosition}));
+         this.requestRender(); }}
+
+   // Requests a rendering of the grid in the next animation frame.
+   public requestRender() {
+      if (this.animationFrameId || this.isDisposed) {
+         return; }
+      this.animationFrameId = requestAnimationFrame(this.animationFrameHandler); }
+
+   private animationFrameHandler = () => {
+      this.animationFrameId = 0;
+      this.render(); };
+
+   private render() {
+      const gp = this.gridParms;
+      const ds = gp.dataSource;
+      const rp: RenderParms = {
+         viewportPosition: this.viewportPosition,
+         rowHeights:       this.rowSizes,
+         colWidths:        this.colSizes,
+         macroCellHeights: this.macroCellSizes,
+         macroCellWidth:   gp.macroCellWidth || 0,
+         vCellOverlap:     gp.vCellOverlap || 0,
+         frozenRows:       gp.frozenRows,
+         frozenCols:       gp.frozenCols,
+         overscanRows:     gp.overscanRows,
+         overscanCols:     gp.overscanCols,
+         getCellSpan:      ds.getCellSpan,
+         getCellTemplateKey: ds.getCellTemplateKey,
+         prepareCell:      this.prepareCell,
+         releaseCell:      ds.releaseCell,
+         aria:             gp.aria };
+      this.layoutController.render(rp);
+      this.invalidRows.clear();
+      this.allRowsInvalid = false;
+      this.dispatchEvent(new Event("render")); }
+
+   // Calls the `prepareCell` function of the data source. Rendered cells of invalidated rows are offered for recycling.
+   private prepareCell = (cellType: CellType, rowNdx: number, colNdx: number, width: number, height: number, oldCell: HTMLElement | undefined, recycledCell?: HTMLElement) : HTMLElement => {
+      const prepareCell = this.gridParms.dataSource.prepareCell;
+      if (oldCell && (this.allRowsInvalid || this.invalidRows.has(rowNdx))) {
+         return prepareCell(cellType, rowNdx, colNdx, width, height, undefined, oldCell); }
+      return prepareCell(cellType, rowNdx, colNdx, width, height, oldCell, recycledCell); };
+
+   // Re-computes the scrollbar parameters without moving the viewport position.
+   private updateScrollbars() {
+      this.scroll(true, ScrollUnit.none, 0);
+      this.scroll(false, ScrollUnit.none, 0); }
+
+   private layoutController_viewportResizeEventListener = () => {
+      this.updateScrollbars();
+      this.requestRender(); };
+
+   private resizeController_elementResizeEventListener = (event: CustomEvent) => {
+      const d = event.detail;
+      const ds = this.gridParms.dataSource;
+      const sizes = d.orientation ? this.rowSizes : this.colSizes;
+      const setSize = d.orientation ? ds.setRowHeight : ds.setColWidth;
+      for (const e of <GridResize.ResizeEntry[]>d.sizes) {
+         if (e.ndx >= 0 && e.ndx < sizes.count) {
+            sizes.set(e.ndx, e.size);
+            if (setSize) {
+               setSize(e.ndx, e.size); }}}
+      this.scroll(d.orientation, ScrollUnit.none, 0);
+      this.requestRender();
+      this.dispatchEvent(new CustomEvent("element-resize", {detail: {orientation: d.orientation, sizes: d.sizes}})); };
+
+   private vScrollbar_inputEventListener = (event: CustomEvent) => {
+      this.processScrollbarInput(true, event); };
+
+   private hScrollbar_inputEventListener = (event: CustomEvent) => {
+      this.processScrollbarInput(false, event); };
+
+   private processScrollbarInput (orientation: boolean, event: CustomEvent) {
+      const r = GridUtils.convertPlainScrollbarInputEvent(event);
+      if (!r) {
+         return; }
+      this.scroll(orientation, r.scrollUnit, r.scrollValue); }
+
+   private input_wheelEventListener = (event: WheelEvent) => {
+      if (event.defaultPrevented) {
+         return; }
+      if (this.gridParms.scrollMode == ScrollMode.pixel) {
+         const d = GridUtils.convertWheelEventToPixels(event);
+         this.scroll(true, ScrollUnit.pixelIncr, d.deltaY);
+         this.scroll(false, ScrollUnit.pixelIncr, (this.layoutController.direction == "rtl") ? -d.deltaX : d.deltaX); }
+       else {
+         this.scroll(true, ScrollUnit.mediumIncr, Math.sign(event.deltaY)); }
+      event.stopPropagation();
+      event.preventDefault(); };
+
+   private input_keyDownEventListener = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) {
+         return; }
+      const r = GridUtils.convertKeyboardEvent(event, this.layoutController.direction == "rtl");
+      if (!r) {
+         return; }
+      this.scroll(r.orientation, r.scrollUnit, r.scrollValue);
+      event.stopPropagation();
+      event.preventDefault(); }; }
+
+function isSameViewportPosition (p1: ViewportPosition, p2: ViewportPosition) : boolean {
+   return p1.rowNdx == p2.rowNdx && p1.rowPixelOffset == p2.rowPixelOffset && p1.colNdx == p2.colNdx && p1.colPixelOffset == p2.colPixelOffset; }
+
+// A size provider that reads the sizes from the data source on demand and caches them.
+export class CachedSizeProvider implements SizeProvider {
+   public  count:            number;
+   private getSize:          (ndx: number) => number;        // reads a size from the data source
+   private cache:            Map<number, number>;            // sizes that have been read or set
+   constructor (count: number, getSize: (ndx: number) => number) {
+      this.count = count;
+      this.getSize = getSize;
+      this.cache = new Map(); }
+   public get (ndx: number) : number {
+      let size = this.cache.get(ndx);
+      if (size == undefined) {
+         size = this.getSize(ndx);
+         this.cache.set(ndx, size); }
+      return size; }
+   public set (ndx: number, size: number) {
+      this.cache.set(ndx, size); }
+   public setCount (count: number) {
+      if (count < this.count) {
+         this.cache.forEach((_size, ndx) => {
+            if (ndx >= count) {
+               this.cache.delete(ndx); }}); }
+      this.count = count; }
+   public invalidate (ndx: number) {
+      this.cache.delete(ndx); }
+   public invalidateAll() {
+      this.cache.clear(); }}
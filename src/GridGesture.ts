@@ -0,0 +1,241 @@
+// Touch gesture logic for grids.
+
+import {LayoutController, RenderedState, RenderParms, ViewportPosition} from "./GridLayout";
+import * as GridScroll from "./GridScroll";
+import {ScrollUnit, ScrollMode} from "./GridScroll";
+import {genScrollInputParms} from "./GridUtils";
+
+const velocitySampleTime = 100;                                      // time span in milliseconds used to compute the release velocity
+const minVelocity = 0.02;                                            // momentum scrolling stops below this velocity, in pixels per millisecond
+const frameTime = 16;                                                // reference frame time in milliseconds for the decay factors
+const rubberBandReturnFactor = 0.8;                                  // decay of the rubber-band displacement per frame after release
+
+export interface ControllerParms {
+   layoutController:                   LayoutController;             // the layout controller of the grid
+   pointerTypes?:                      string[];                     // pointer types that are handled, default is `["touch"]`
+   friction?:                          number;                       // velocity decay factor per frame for momentum scrolling, default 0.95, 0 = no momentum
+   rubberBandLimit?:                   number; }                     // maximum rubber-band displacement at the grid edges in pixels, default 80, 0 = no rubber-band effect
+
+// The gesture controller scrolls the grid by touch drags, with momentum scrolling after the pointer is released
+// and a rubber-band effect at the edges of the grid.
+//
+// Scrolling is done by pixels, so the application must support the pixel offsets of the `ViewportPosition`.
+// The controller sets `touch-action: none` on the viewport element, so that the browser does not handle the touch gestures itself.
+// When another controller captures the pointer (e.g. the resize controller after a long-press), the gesture ends.
+//
+// Events:
+// - `viewport-position-change`: The viewport position has changed. `event.detail` is the new `ViewportPosition`.
+//   The application should adjust its scrollbars and re-render the grid.
+export class GestureController extends EventTarget {
+
+   private controllerParms:            ControllerParms;
+   private layoutController:           LayoutController;
+   private viewportElement:            HTMLElement;
+   private isDisposed:                 boolean = false;
+   private oldTouchAction:             string;
+
+   private pointerId?:                 number;                       // ID of captured pointer, `undefined` = no active gesture
+   private lastPoint:                  {x: number; y: number};       // last pointer position in client coordinates
+   private samples:                    {t: number; x: number; y: number}[] = [];     // recent pointer positions for computing the velocity
+   private position:                   ViewportPosition;             // current viewport position, may be ahead of the rendered state
+   private velocityX:                  number = 0;                   // momentum velocity in pixels per millisecond
+   private velocityY:                  number = 0;
+   private overscrollX:                number = 0;                   // accumulated scroll distance beyond the grid edges
+   private overscrollY:                number = 0;
+   private remainderX:                 number = 0;                   // fractional pixels not yet scrolled
+   private remainderY:                 number = 0;
+   private animationFrameId?:          number;
+   private lastFrameTime:              number;
+
+   constructor (cp: ControllerParms) {
+      super();
+      this.controllerParms = cp;
+      this.layoutController = cp.layoutController;
+      this.viewportElement = cp.layoutController.viewportElement;
+      this.oldTouchAction = this.viewportElement.style.touchAction || "";
+      this.viewportElement.style.touchAction = "none";
+      this.viewportElement.addEventListener("pointerdown", this.viewport_pointerDownEventListener);
+      this.viewportElement.addEventListener("pointermove", this.viewport_pointerMoveEventListener);
+      this.viewportElement.addEventListener("pointerup", this.viewport_pointerUpEventListener);
+      this.viewportElement.addEventListener("pointercancel", this.viewport_pointerCancelEventListener);
+      this.viewportElement.addEventListener("lostpointercapture", this.viewport_pointerCancelEventListener); }
+
+   public dispose() {
+      if (this.isDisposed) {
+         return; }
+      this.isDisposed = true;
+      this.viewportElement.removeEventListener("pointerdown", this.viewport_pointerDownEventListener);
+      this.viewportElement.removeEventListener("pointermove", this.viewport_pointerMoveEventListener);
+      this.viewportElement.removeEventListener("pointerup", this.viewport_pointerUpEventListener);
+      this.viewportElement.removeEventListener("pointercancel", this.viewport_pointerCancelEventListener);
+      this.viewportElement.removeEventListener("lostpointercapture", this.viewport_pointerCancelEventListener);
+      this.viewportElement.style.touchAction = this.oldTouchAction;
+      this.stopAnimation();
+      if (this.pointerId != undefined) {
+         if (this.viewportElement.hasPointerCapture(this.pointerId)) {       // (the capture may already have been lost)
+            this.viewportElement.releasePointerCapture(this.pointerId); }
+         this.pointerId = undefined; }
+      this.layoutController.setContentOffset(0, 0); }
+
+   private viewport_pointerDownEventListener = (event: PointerEvent) => {
+      const rs = this.layoutController.renderedState;
+      if (this.isDisposed || !rs || this.pointerId != undefined) {
+         return; }
+      const pointerTypes = this.controllerParms.pointerTypes || ["touch"];
+      if (!event.isPrimary || event.defaultPrevented || pointerTypes.indexOf(event.pointerType) < 0) {
+         return; }
+      this.stopAnimation();
+      this.position = {...rs.viewportPosition};
+      this.velocityX = 0;
+      this.velocityY = 0;
+      this.remainderX = 0;
+      this.remainderY = 0;
+      this.lastPoint = {x: event.clientX, y: event.clientY};
+      this.samples = [{t: event.timeStamp, x: event.clientX, y: event.clientY}];
+      this.pointerId = event.pointerId;
+      this.viewportElement.setPointerCapture(this.pointerId); };
+
+   private viewport_pointerMoveEventListener = (event: PointerEvent) => {
+      if (this.isDisposed || this.pointerId != event.pointerId) {
+         return; }
+      const dx = event.clientX - this.lastPoint.x;
+      const dy = event.clientY - this.lastPoint.y;
+      this.lastPoint = {x: event.clientX, y: event.clientY};
+      this.samples.push({t: event.timeStamp, x: event.clientX, y: event.clientY});
+      while (this.samples.length > 2 && event.timeStamp - this.samples[0].t > velocitySampleTime) {
+         this.samples.shift(); }
+      this.scrollBy((this.layoutController.direction == "rtl") ? dx : -dx, -dy);      // (in RTL mode, the logical x axis points to the left)
+      event.preventDefault(); };
+
+   private viewport_pointerUpEventListener = (event: PointerEvent) => {
+      if (this.isDisposed || this.pointerId != event.pointerId) {
+         return; }
+      this.endGesture(true, event.timeStamp); };
+
+   private viewport_pointerCancelEventListener = (event: PointerEvent) => {
+      if (this.isDisposed || this.pointerId != event.pointerId) {
+         return; }
+      this.endGesture(false, event.timeStamp); };
+
+   // Ends the drag phase of the gesture and starts momentum scrolling and the rubber-band return.
+   private endGesture (withMomentum: boolean, timeStamp: number) {
+      const pointerId = this.pointerId!;
+      this.pointerId = undefined;
+      if (this.viewportElement.hasPointerCapture(pointerId)) {
+         this.viewportElement.releasePointerCapture(pointerId); }
+      const first = this.samples[0];
+      const last = this.samples[this.samples.length - 1];
+      const dt = last.t - first.t;
+      const friction = (this.controllerParms.friction != undefined) ? this.controllerParms.friction : 0.95;
+      if (withMomentum && friction > 0 && dt > 0 && timeStamp - last.t < velocitySampleTime) {
+         this.velocityX = ((this.layoutController.direction == "rtl") ? 1 : -1) * (last.x - first.x) / dt;
+         this.velocityY = -(last.y - first.y) / dt; }
+      this.startAnimation(); }
+
+   // Scrolls the viewport by pixel distances. Distances that cannot be scrolled because an edge of the grid
+   // has been reached are accumulated as overscroll for the rubber-band effect.
+   // Returns true if the position or the overscroll has changed.
+   private scrollBy (dx: number, dy: number) : boolean {
+      const rp = this.layoutController.renderParms;
+      const rs = this.layoutController.renderedState;
+      if (!rp || !rs) {
+         return false; }
+      const oldPos = this.position;
+      const oldOverscrollX = this.overscrollX;
+      const oldOverscrollY = this.overscrollY;
+      const dx2 = Math.round(dx + this.remainderX);
+      const dy2 = Math.round(dy + this.remainderY);
+      this.remainderX += dx - dx2;
+      this.remainderY += dy - dy2;
+      this.scrollAxis(rp, rs, false, dx2);
+      this.scrollAxis(rp, rs, true, dy2);
+      const pos = this.position;
+      const positionChanged = pos.rowNdx != oldPos.rowNdx || pos.rowPixelOffset != oldPos.rowPixelOffset || pos.colNdx != oldPos.colNdx || pos.colPixelOffset != oldPos.colPixelOffset;
+      const overscrollChanged = this.overscrollX != oldOverscrollX || this.overscrollY != oldOverscrollY;
+      if (overscrollChanged) {
+         this.applyRubberBand(); }
+      if (positionChanged) {
+         this.dispatchEvent(new CustomEvent("viewport-position-change", {detail: {...pos}})); }
+      return positionChanged || overscrollChanged; }
+
+   private scrollAxis (rp: RenderParms, rs: RenderedState, orientation: boolean, delta0: number) {
+      let delta = delta0;
+      let overscroll = orientation ? this.overscrollY : this.overscrollX;
+      if (overscroll != 0 && Math.sign(delta) != Math.sign(overscroll)) {           // first reduce the overscroll
+         const d = Math.sign(delta) * Math.min(Math.abs(delta), Math.abs(overscroll));
+         overscroll += d;
+         delta -= d; }
+      if (delta != 0 && overscroll == 0) {
+         const r = GridScroll.process(genScrollInputParms(rp, rs, orientation, ScrollUnit.pixelIncr, delta, ScrollMode.pixel, this.position));
+         const oldNdx = orientation ? this.position.rowNdx : this.position.colNdx;
+         const oldPixelOffset = orientation ? this.position.rowPixelOffset : this.position.colPixelOffset;
+         if (r.topNdx == oldNdx && r.pixelOffset == oldPixelOffset) {              // edge of the grid reached
+            overscroll = delta; }
+          else {
+            this.position = orientation ?
+               {...this.position, rowNdx: r.topNdx, rowPixelOffset: r.pixelOffset} :
+               {...this.position, colNdx: r.topNdx, colPixelOffset: r.pixelOffset}; }}
+       else if (delta != 0) {
+         overscroll += delta; }
+      const limit = this.getRubberBandLimit();
+      if (limit <= 0) {
+         overscroll = 0; }
+      if (orientation) {
+         this.overscrollY = overscroll; }
+       else {
+         this.overscrollX = overscroll; }}
+
+   private getRubberBandLimit() : number {
+      const limit = this.controllerParms.rubberBandLimit;
+      return (limit != undefined) ? limit : 80; }
+
+   // Shifts the rendered cells according to the overscroll, with a displacement that approaches the rubber-band limit.
+   private applyRubberBand() {
+      const limit = this.getRubberBandLimit();
+      const displacement = (overscroll: number) => -Math.sign(overscroll) * limit * (1 - 1 / (Math.abs(overscroll) * 0.55 / limit + 1));
+      const displacementX = displacement(this.overscrollX) * ((this.layoutController.direction == "rtl") ? -1 : 1);
+      this.layoutController.setContentOffset(Math.round(displacementX), Math.round(displacement(this.overscrollY))); }
+
+   private startAnimation() {
+      if (this.animationFrameId != undefined) {
+         return; }
+      this.lastFrameTime = performance.now();
+      this.animationFrameId = requestAnimationFrame(this.animationFrameHandler); }
+
+   private stopAnimation() {
+      if (this.animationFrameId == undefined) {
+         return; }
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = undefined; }
+
+   private animationFrameHandler = (time: number) => {
+      this.animationFrameId = undefined;
+      if (this.isDisposed || this.pointerId != undefined) {
+         return; }
+      const dt = Math.max(1, time - this.lastFrameTime);
+      this.lastFrameTime = time;
+      const frames = dt / frameTime;
+      const friction = (this.controllerParms.friction != undefined) ? this.controllerParms.friction : 0.95;
+      if (Math.abs(this.velocityX) >= minVelocity || Math.abs(this.velocityY) >= minVelocity) {
+         const oldOverscrollX = this.overscrollX;
+         const oldOverscrollY = this.overscrollY;
+         this.scrollBy(this.velocityX * dt, this.velocityY * dt);
+         if (this.overscrollX != oldOverscrollX) {                  // the momentum stops at the edges
+            this.velocityX = 0; }
+         if (this.overscrollY != oldOverscrollY) {
+            this.velocityY = 0; }
+         const decay = Math.pow(friction, frames);
+         this.velocityX *= decay;
+         this.velocityY *= decay; }
+       else {
+         this.velocityX = 0;
+         this.velocityY = 0; }
+      if (this.overscrollX != 0 || this.overscrollY != 0) {
+         const decay = Math.pow(rubberBandReturnFactor, frames);
+         this.overscrollX = (Math.abs(this.overscrollX) < 0.5) ? 0 : this.overscrollX * decay;
+         this.overscrollY = (Math.abs(this.overscrollY) < 0.5) ? 0 : this.overscrollY * decay;
+         this.applyRubberBand(); }
+      if (this.velocityX != 0 || this.velocityY != 0 || this.overscrollX != 0 || this.overscrollY != 0) {
+         this.animationFrameId = requestAnimationFrame(this.animationFrameHandler); }};
+
+   }
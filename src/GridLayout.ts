@@ -1,22 +1,19 @@
 // Layout control logic for a virtual grid.
 
-// Grids can contain regular cells and macro cells.
-// Macro cells are positioned below the regular cells of a row and can be used e.g. for sub-grids.
-export const enum CellType {regular, macro}
+// The geometry of the layout is computed by the `GridLayoutEngine` module, which does not depend on the DOM.
+// The layout controller of this module renders the cells into the DOM.
 
-// A viewport position of the grid.
-export interface ViewportPosition {
-   rowNdx:                             number;                       // index of first visible row, 0-based integer
-   colNdx:                             number;                       // index of first visible column, 0-based integer
-   rowPixelOffset:                     number;                       // vertical pixel offset within first visible row, integer in range 0..rowHeight-1
-   colPixelOffset:                     number; }                     // horizontal pixel offset within first visible column, integer in range 0..colWidth-1
+import {SizeProvider, SizeSource, getSizeCount, getSize} from "./GridSizeProvider";
+import {SizeIndex} from "./GridSizeIndex";
+import {CellType, ViewportPosition, MeasureFunction, CellSpan, CellRect, LayoutParms, LayoutGeometry, LayoutSlot, LayoutCell, computeLayout, findCellPosition} from "./GridLayoutEngine";
 
-export const topLeftViewportPosition: Readonly<ViewportPosition> = {rowNdx: 0, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0};
+export {CellType, ViewportPosition, topLeftViewportPosition, MeasureFunction, SizeArray, CellSpan, CellSpanFunction, CellRect, LayoutParms, LayoutGeometry, LayoutCell, Layout, computeLayout, relToAbsNdx, absToRelNdx, scanPos} from "./GridLayoutEngine";
 
-// Function to measure undetermined row heights or column widths.
+// Function to measure undetermined row heights or column widths asynchronously.
 //
-// The `rowHeights` and `colWidths` arrays may contain entries with the value -1, which means that the value
-// has not yet been determined. This function is used to measure these undetermined entries.
+// It is used instead of `MeasureFunction` when the sizes depend on asynchronous operations, e.g. on loading fonts or images.
+// The measured values must be stored in the `rowHeights`/`colWidths` arrays or size providers before the promise is resolved.
+// Until then, the estimated sizes (`RenderParms.estimatedRowHeight`/`estimatedColWidth`) are used for the undetermined entries.
 //
 // @param startNdx
 //    Row or column index to start.
@@ -24,7 +21,7 @@ export const topLeftViewportPosition: Readonly<ViewportPosition> = {rowNdx: 0, c
 //    Number of entries to process.
 // @param orientation
 //    false = horizontal (measure column widths), true = vertical (measure row heights)
-export type MeasureFunction = (startNdx: number, n: number, orientation: boolean) => void;
+export type AsyncMeasureFunction = (startNdx: number, n: number, orientation: boolean) => Promise<void>;
 
 // Function to creates and/or prepare a cell element.
 //
@@ -41,44 +38,114 @@ export type MeasureFunction = (startNdx: number, n: number, orientation: boolean
 //    The height of the cell in pixels. Can be ignored.
 // @param oldCell
 //    An old cell element with the same `rowNdx`/`colNdx`, that can be reused.
+// @param recycledCell
+//    A cell element from the cell pool of the layout controller, with the same cell type and template key,
+//    that was previously used for another position. It can be reused after its content has been updated.
+//    Only passed when the cell pool is enabled and no `oldCell` is available.
 // @returns
 //    A prepared cell element that can be added to the grid.
 //    If an `oldElement` is passed and the returned element is not the same, the `oldElement` is released.
-export type PrepareCellFunction = (cellType: CellType, rowNdx: number, colNdx: number, width: number, height: number, oldCell: HTMLElement | undefined) => HTMLElement;
+//    A re-used cell element stays in the DOM, only its position is updated.
+//    If a `recycledCell` is passed and the returned element is not the same, the `recycledCell` stays in the pool.
+export type PrepareCellFunction = (cellType: CellType, rowNdx: number, colNdx: number, width: number, height: number, oldCell: HTMLElement | undefined, recycledCell?: HTMLElement) => HTMLElement;
 
 // This function is called when cells are no longer used.
+// When the cell pool is enabled, `render()` only calls it for cells that do not fit into the pool.
+// `clear()` always calls it for all removed cells, they are not put into the pool.
 export type ReleaseCellFunction = (cell: HTMLElement) => void;
 
-export interface RenderParms {                                       // parameters for `render()`
-   viewportPosition:                   ViewportPosition;             // grid viewport position
-   rowHeights:                         Int16Array;                   // row heights of the grid, may contain -1 for undetermined heights
-   colWidths:                          Int16Array;                   // column widths of the grid, may contain -1 for undetermined widths
-   macroCellHeights?:                  Int16Array;                   // macro cell heights, 0 = no macro cell
-   macroCellWidth:                     number;                       // width of the macro cells in pixels
-   vCellOverlap:                       number;                       // vertical cell overlap in pixels
-   measure?:                           MeasureFunction;              // function to measure undetermined row heights or column widths
+// Function to determine the template key of a cell.
+// Recycled cells from the cell pool are only offered for cells with the same cell type and template key.
+// The template key can be used to distinguish cells with a different internal structure.
+export type CellTemplateKeyFunction = (cellType: CellType, rowNdx: number, colNdx: number) => string;
+
+export interface RenderParms extends LayoutParms {                  // parameters for `render()`
+   measureAsync?:                      AsyncMeasureFunction;         // function to measure undetermined row heights or column widths asynchronously, only used when `measure` is undefined
+   estimatedRowHeight?:                number;                       // height used for undetermined rows during asynchronous measurement, default is 20
+   estimatedColWidth?:                 number;                       // width used for undetermined columns during asynchronous measurement, default is 100
+   rowSizeIndex?:                      SizeIndex;                    // optional size index over `rowHeights`, updated with the row heights measured by `measure` or `measureAsync`
+   colSizeIndex?:                      SizeIndex;                    // optional size index over `colWidths`, updated with the column widths measured by `measure` or `measureAsync`
+   getCellTemplateKey?:                CellTemplateKeyFunction;      // function to determine the template key of a cell for the cell pool
    prepareCell:                        PrepareCellFunction;          // function to create and/or prepare grid cells
-   releaseCell?:                       ReleaseCellFunction; }        // function to release cells that are no longer in use
-
-export interface RenderedState {                                     // current rendered state
-   viewportPosition:                   ViewportPosition;             // grid viewport position
-   viewportHeight:                     number;                       // height of the viewport in pixels
-   viewportWidth:                      number;                       // width of the viewport in pixels
-   visibleRows:                        number;                       // number of rows visible in the viewport
-   visibleCols:                        number;                       // number of columns visible in the viewport
-   visibleRowHeights:                  Int16Array;                   // heights of the visible rows [0..visibleRows-1]
-   visibleColWidths:                   Int16Array;                   // widths of the visible columns [0..visibleCols-1]
-   visibleMacroCellHeights?:           Int16Array;                   // heights of the macro cells within the visible rows [0..visibleRows-1]
-   rowYPositions:                      Int16Array;                   // row y positions relative to viewport [0..visibleRows]
-   colXPositions:                      Int16Array;                   // column x positions relative to viewport [0..visibleCols]
-   regularCells:                       CellRectMap;                  // regular cells currently in use
-   macroCells:                         CellRectMap; }                // macro cells currently in use
+   releaseCell?:                       ReleaseCellFunction;          // function to release cells that are no longer in use
+   aria?:                              boolean; }                    // true to add ARIA grid roles and attributes, see `LayoutController`
+
+// Current rendered state.
+// The positions and sizes of the visible rows and columns are described at `LayoutGeometry`.
+export interface RenderedState extends LayoutGeometry {
+   regularCells:                       CellRectMap;                  // regular cells currently in use, including overscan cells, covered cells of merged ranges map to their anchor cell
+   macroCells:                         CellRectMap; }                // macro cells currently in use, including overscan cells
 
+export interface HitTestResult {
+   cellType:                           CellType;                     // type of the cell
+   rowNdx:                             number;                       // row index of the cell, or of the anchor cell of a merged range
+   colNdx:                             number;                       // column index of the cell, or of the anchor cell of a merged range, 0 for macro cells
+   cell:                               HTMLElement;                  // the cell element
+   offsetX:                            number;                       // horizontal offset of the point within the cell
+   offsetY:                            number;                       // vertical offset of the point within the cell
+   inOverlap:                          boolean; }                    // true if the point lies within the bottom `vCellOverlap` pixels of the cell, which are also covered by the cell below
+
+// The layout controller renders the visible cells of a virtual grid into a viewport element.
+//
+// ARIA support (`RenderParms.aria`):
+// The viewport element gets `role="grid"`, `aria-rowcount` and `aria-colcount`. The cells of each rendered row are
+// placed within a row element with `role="row"` and `display: contents`, so that the row elements do not affect the layout.
+// The cells get `role="gridcell"`, `aria-rowindex` and `aria-colindex`, merged cells also `aria-rowspan` and `aria-colspan`.
+// Macro cells are exposed as an additional last column of their row, because they are rendered after the regular cells of the row.
+// When ARIA is disabled again, the ARIA attributes are removed from the viewport element and the cells.
+//
+// RTL mode (`direction = "rtl"`):
+// The columns flow from the right edge of the viewport to the left and the macro cells are anchored at the right edge.
+// All horizontal coordinates of the API (`colXPositions`, `colPixelOffset`, hit-testing, cell rectangles) are
+// logical coordinates, measured from the right edge of the viewport. `clientToViewportCoordinates()` converts
+// client coordinates into these logical coordinates.
+//
+// Asynchronous measurement (`RenderParms.measureAsync`):
+// Undetermined rows and columns are rendered with their estimated size and the measurement is started after rendering.
+// When a measurement has completed, a cancelable `measure-complete` event is fired, with `event.detail` containing
+// `orientation`, `startNdx` and `n`. Unless the event is canceled, the grid is then re-rendered with the last render parameters.
+// Because the viewport position is based on row/column indexes, size changes of the elements before the first visible row/column
+// do not move the visible content. When the size of the first visible row/column itself changes, its pixel offset is scaled
+// accordingly and a `viewport-position-change` event is fired with the new `ViewportPosition` in `event.detail`.
+// When a measurement fails (the promise is rejected or `measureAsync` throws), a `measure-error` event is fired, with
+// `event.detail` containing `orientation`, `startNdx`, `n` and `error`. `error` is an `Error`, other rejection reasons
+// are wrapped into an `Error`.
+// Rows and columns whose measurement has failed or whose size is still undetermined after the measurement has completed
+// keep their estimated size and are not measured again until `clear()` or `resetFailedMeasurements()` is called.
+// This prevents an endless cycle of rendering and measuring.
+//
+// Size indexes (`RenderParms.rowSizeIndex`/`colSizeIndex`):
+// The sizes measured during rendering by `measure` and the sizes measured by `measureAsync` are copied into the size indexes,
+// before the `measure-complete` event is fired. Sizes that are changed by the application (e.g. after resizing) must
+// still be updated in the size indexes by the application. The controllers pass the size indexes to `GridScroll`.
+//
+// Viewport resize observation (`observeViewportResize()`, opt-in):
+// The size of the viewport element is observed with a `ResizeObserver`. When it changes, a cancelable `viewport-resize`
+// event is fired, with `event.detail` containing `oldWidth`, `oldHeight`, `width` and `height`. In auto-render mode,
+// the grid is then re-rendered with the last render parameters, unless the event is canceled. The application should
+// recompute the scrollbar thumb sizes (`GridScroll` with `ScrollUnit.none`) when it receives the event.
+// `dispose()` stops the observation.
 export class LayoutController extends EventTarget {
 
    public  viewportElement:            HTMLElement;                  // viewport element of the grid
    public  renderedState?:             RenderedState;                // state of the currently rendered grid
+   public  renderParms?:               RenderParms;                  // parameters of the last `render()` call
+   public  cellPool?:                  CellPool;                     // pool for recycling released cells, `undefined` = no recycling
+   public  direction:                  "ltr" | "rtl" = "ltr";        // writing direction, in RTL mode the columns flow from right to left, takes effect with the next `render()`
    private cellContainerElement?:      HTMLElement;
+   private cellRects:                  WeakMap<HTMLElement, CellRect> = new WeakMap();   // layout rectangles of the rendered cells
+   private rowElements:                Map<number, HTMLElement> = new Map();             // ARIA row elements, indexed by row index
+   private pendingRows:                Set<number> = new Set();                          // rows that are currently measured asynchronously
+   private pendingCols:                Set<number> = new Set();                          // columns that are currently measured asynchronously
+   private failedRows:                 Set<number> = new Set();                          // rows whose asynchronous measurement has failed or left the size undetermined
+   private failedCols:                 Set<number> = new Set();                          // columns whose asynchronous measurement has failed or left the size undetermined
+   private measurementGeneration:      number = 0;                                       // incremented by `clear()`, asynchronous measurements of an older generation are ignored
+   private animationFrameId:           number = 0;                                       // for re-rendering after an asynchronous measurement
+   private resizeObserver?:            ResizeObserver;                                   // observer of the viewport size, see `observeViewportResize()`
+   private autoRenderOnResize:         boolean = false;                                  // true to re-render the grid when the viewport size changes
+   private observedWidth:              number = 0;                                       // last known width of the viewport
+   private observedHeight:             number = 0;                                       // last known height of the viewport
+   private isDisposed:                 boolean = false;
 
    // @param viewportElement
    //    A DOM element, normally a DIV element, in which the grid is to be rendered.
@@ -87,53 +154,233 @@ export class LayoutController extends EventTarget {
       this.viewportElement = viewportElement; }
 
    // Renders the currently visible grid cells.
+   // The DOM is updated incrementally. Re-used cells stay in place and only their position is updated,
+   // new cells are inserted and cells that are no longer used are removed.
    public render (rp: RenderParms) {
       const oldRs = this.renderedState;
-      const rs = <RenderedState>{};
-      this.initRender(rp, rs);
-      this.renderCells(rp, rs, oldRs);
-      this.releaseOldRenderStateCells(oldRs, rp.releaseCell);
-      this.dispatchEvent(new Event("render")); }
+      this.renderParms = rp;
+      const asyncMode = !rp.measure && !!rp.measureAsync;
+      const rowSizes = asyncMode ? new EstimatedSizeProvider(rp.rowHeights, getEstimatedSize(rp, true)!) : undefined;
+      const colSizes = asyncMode ? new EstimatedSizeProvider(rp.colWidths, getEstimatedSize(rp, false)!) : undefined;
+      const rp2 = (rowSizes && colSizes) ? {...rp, rowHeights: rowSizes, colWidths: colSizes} : {...rp, measure: genIndexedMeasureFunction(rp)};
+      const layout = computeLayout(rp2, this.viewportElement.clientWidth, this.viewportElement.clientHeight, oldRs ? oldRs.viewportPosition : undefined);
+      const rs = this.initRender(rp, layout.geometry);
+      this.renderCells(rp, rs, oldRs, layout.rowSlots, layout.cells);
+      this.releaseOldRenderStateCells(oldRs, rs, rp.releaseCell, true);
+      this.dispatchEvent(new Event("render"));
+      if (rowSizes && colSizes) {
+         this.startAsyncMeasurement(rp, rowSizes.undetermined, true);
+         this.startAsyncMeasurement(rp, colSizes.undetermined, false); }}
 
    // Removes all cells from the viewport element.
+   // The removed cells are passed to `releaseCell`, also when the cell pool is enabled. Cells that are already in the pool stay there.
+   // Asynchronous measurements that are still running are ignored when they complete.
    public clear (releaseCell: ReleaseCellFunction | undefined) {
       const oldRs = this.renderedState;
+      if (this.animationFrameId) {
+         cancelAnimationFrame(this.animationFrameId);
+         this.animationFrameId = 0; }
       if (this.cellContainerElement) {
          this.cellContainerElement.innerHTML = ""; }
+      this.rowElements.clear();
+      this.measurementGeneration++;
+      this.pendingRows.clear();
+      this.pendingCols.clear();
+      this.resetFailedMeasurements();
       this.renderedState = undefined;
-      this.releaseOldRenderStateCells(oldRs, releaseCell);
+      this.renderParms = undefined;
+      this.releaseOldRenderStateCells(oldRs, undefined, releaseCell, false);
       this.dispatchEvent(new Event("clear")); }
 
-   private initRender (rp: RenderParms, rs: RenderedState) {
-      rs.viewportPosition = {...rp.viewportPosition};
-      // Get viewport size.
-      rs.viewportHeight = this.viewportElement.clientHeight;
-      rs.viewportWidth = this.viewportElement.clientWidth;
-      // Determine visible rows+columns.
-      const pos = rs.viewportPosition;
-      if (pos.rowNdx < 0 || pos.colNdx < 0 || !Number.isInteger(pos.rowNdx) || !Number.isInteger(pos.colNdx) || pos.rowPixelOffset < 0 || pos.colPixelOffset < 0) {
-         throw new Error("Invalid viewport position."); }
-      const bottomRowNdx = scanDistance(rp.rowHeights, pos.rowNdx, pos.rowPixelOffset + rs.viewportHeight, rp.measure, true);
-      rs.visibleRows = bottomRowNdx - pos.rowNdx;
-      const rightColNdx = scanDistance(rp.colWidths, pos.colNdx, pos.colPixelOffset + rs.viewportWidth, rp.measure, false);
-      rs.visibleCols = rightColNdx - pos.colNdx;
-      rs.visibleRowHeights = rp.rowHeights.slice(pos.rowNdx, bottomRowNdx);                                                // (clone to preserve current values)
-      rs.visibleMacroCellHeights = rp.macroCellHeights ? rp.macroCellHeights.slice(pos.rowNdx, bottomRowNdx) : undefined;  // (clone to preserve current values)
-      rs.visibleColWidths = rp.colWidths.slice(pos.colNdx, rightColNdx);                                                   // (clone to preserve current values)
-      if (rs.visibleRows > 0 && pos.rowPixelOffset > 0 && pos.rowPixelOffset >= rs.visibleRowHeights[0]) {
-          console.log("Warning: Row pixel offset exceeds height of first visible row.");
-          pos.rowPixelOffset = 0; }
-      if (rs.visibleCols > 0 && pos.colPixelOffset > 0 && pos.colPixelOffset >= rs.visibleColWidths[0]) {
-          console.log("Warning: Column pixel offset exceeds width of first visible column.");
-          pos.colPixelOffset = 0; }
-      rs.rowYPositions = integrateSizes(-pos.rowPixelOffset, rs.visibleRowHeights);
-      rs.colXPositions = integrateSizes(-pos.colPixelOffset, rs.visibleColWidths);
-      // Prepare cell containers.
-      rs.regularCells = new CellRectMap(pos.rowNdx, pos.colNdx, rs.visibleRows, rs.visibleCols);
-      rs.macroCells = new CellRectMap(pos.rowNdx, 0, rs.visibleRows, 1);
-      if (this.cellContainerElement) {
-         this.cellContainerElement.innerHTML = ""; }
-       else {
+   // Allows the rows and columns whose asynchronous measurement has failed to be measured again with the next rendering.
+   public resetFailedMeasurements() {
+      this.failedRows.clear();
+      this.failedCols.clear(); }
+
+   // Starts observing the size of the viewport element.
+   //
+   // @param autoRender
+   //    true to re-render the grid with the last render parameters when the viewport size changes.
+   //    false to only fire the `viewport-resize` event.
+   public observeViewportResize (autoRender = true) {
+      this.autoRenderOnResize = autoRender;
+      if (this.resizeObserver || this.isDisposed) {
+         return; }
+      this.observedWidth = this.viewportElement.clientWidth;
+      this.observedHeight = this.viewportElement.clientHeight;
+      this.resizeObserver = new ResizeObserver(this.resizeObserverCallback);
+      this.resizeObserver.observe(this.viewportElement); }
+
+   // Stops observing the size of the viewport element and cancels a pending re-rendering.
+   // Asynchronous measurements that complete after `dispose()` no longer fire events or re-render the grid.
+   public dispose() {
+      if (this.isDisposed) {
+         return; }
+      this.isDisposed = true;
+      if (this.resizeObserver) {
+         this.resizeObserver.disconnect();
+         this.resizeObserver = undefined; }
+      if (this.animationFrameId) {
+         cancelAnimationFrame(this.animationFrameId);
+         this.animationFrameId = 0; }}
+
+   private resizeObserverCallback = () => {
+      const oldWidth = this.observedWidth;
+      const oldHeight = this.observedHeight;
+      const width = this.viewportElement.clientWidth;
+      const height = this.viewportElement.clientHeight;
+      if (width == oldWidth && height == oldHeight) {              // e.g. the initial notification after observe()
+         return; }
+      this.observedWidth = width;
+      this.observedHeight = height;
+      const event = new CustomEvent("viewport-resize", {detail: {oldWidth, oldHeight, width, height}, cancelable: true});
+      this.dispatchEvent(event);
+      if (event.defaultPrevented || !this.autoRenderOnResize || !this.renderParms) {
+         return; }
+      this.render(this.renderParms); };
+
+   // Starts the asynchronous measurement of the undetermined sizes that have been used during rendering.
+   // Consecutive indexes are measured in blocks. Indexes that are already being measured or whose measurement has failed are skipped.
+   private startAsyncMeasurement (rp: RenderParms, undetermined: number[], orientation: boolean) {
+      const pending = orientation ? this.pendingRows : this.pendingCols;
+      const failed = orientation ? this.failedRows : this.failedCols;
+      const sizes = orientation ? rp.rowHeights : rp.colWidths;
+      const generation = this.measurementGeneration;
+      const ndxs = Array.from(new Set(undetermined)).filter((ndx) => !pending.has(ndx) && !failed.has(ndx)).sort((a, b) => a - b);
+      let i = 0;
+      while (i < ndxs.length) {
+         const startNdx = ndxs[i];
+         let n = 1;
+         while (i + n < ndxs.length && ndxs[i + n] == startNdx + n && n < 25) {
+            n++; }
+         i += n;
+         for (let ndx = startNdx; ndx < startNdx + n; ndx++) {
+            pending.add(ndx); }
+         const clearPending = () => {
+            for (let ndx = startNdx; ndx < startNdx + n; ndx++) {
+               pending.delete(ndx); }};
+         // A synchronous exception of `measureAsync` and an exception while processing the result are handled like a rejected promise.
+         new Promise<void>((resolve) => resolve(rp.measureAsync!(startNdx, n, orientation)))
+            .then(() => {
+               if (generation != this.measurementGeneration) {       // the grid has been cleared in the meantime
+                  return; }
+               clearPending();
+               for (let ndx = startNdx; ndx < startNdx + n; ndx++) {
+                  if (getSize(sizes, ndx) == -1) {
+                     failed.add(ndx); }}
+               this.asyncMeasurementComplete(rp, orientation, startNdx, n); })
+            .catch((error: unknown) => {
+               if (generation != this.measurementGeneration) {
+                  return; }
+               clearPending();
+               for (let ndx = startNdx; ndx < startNdx + n; ndx++) {
+                  failed.add(ndx); }
+               this.asyncMeasurementFailed(orientation, startNdx, n, error); }); }}
+
+   private asyncMeasurementComplete (rp: RenderParms, orientation: boolean, startNdx: number, n: number) {
+      if (this.isDisposed) {                                         // a measurement that completes after `dispose()` is ignored
+         return; }
+      updateSizeIndex(rp, startNdx, n, orientation);
+      const event = new CustomEvent("measure-complete", {detail: {orientation, startNdx, n}, cancelable: true});
+      this.dispatchEvent(event);
+      if (event.defaultPrevented || this.animationFrameId) {
+         return; }
+      this.animationFrameId = requestAnimationFrame(this.animationFrameHandler); }
+
+   private asyncMeasurementFailed (orientation: boolean, startNdx: number, n: number, reason: unknown) {
+      if (this.isDisposed) {
+         return; }
+      const error = (reason instanceof Error) ? reason : new Error(String(reason));
+      this.dispatchEvent(new CustomEvent("measure-error", {detail: {orientation, startNdx, n, error}})); }
+
+   // Re-renders the grid after asynchronous measurements have completed.
+   private animationFrameHandler = () => {
+      this.animationFrameId = 0;
+      const rp = this.renderParms;
+      if (!rp || this.isDisposed) {                                                     // the grid has been cleared in the meantime
+         return; }
+      const viewportPosition = this.anchorViewportPosition(rp);
+      if (viewportPosition) {
+         this.dispatchEvent(new CustomEvent("viewport-position-change", {detail: viewportPosition})); }
+      this.render(viewportPosition ? {...rp, viewportPosition} : rp); };
+
+   // Scales the pixel offsets of the viewport position when the size of the first visible row or column
+   // of the scrolling area has changed since the last rendering.
+   // Returns `undefined` if the viewport position does not change.
+   private anchorViewportPosition (rp: RenderParms) : ViewportPosition | undefined {
+      const rs = this.renderedState;
+      if (!rs) {
+         return; }
+      const pos = {...rs.viewportPosition};
+      const rowPixelOffset = scalePixelOffset(rs.visibleRowHeights, rs.frozenRows, rs.visibleRows, pos.rowPixelOffset, getSize(rp.rowHeights, pos.rowNdx));
+      const colPixelOffset = scalePixelOffset(rs.visibleColWidths, rs.frozenCols, rs.visibleCols, pos.colPixelOffset, getSize(rp.colWidths, pos.colNdx));
+      if (rowPixelOffset == pos.rowPixelOffset && colPixelOffset == pos.colPixelOffset) {
+         return; }
+      pos.rowPixelOffset = rowPixelOffset;
+      pos.colPixelOffset = colPixelOffset;
+      return pos; }
+
+   // Shifts all rendered cells by a pixel offset without re-rendering them.
+   // This is used for the rubber-band effect at the edges of the grid during touch scrolling.
+   public setContentOffset (x: number, y: number) {
+      if (!this.cellContainerElement) {
+         return; }
+      this.cellContainerElement.style.transform = (x || y) ? "translate(" + x + "px," + y + "px)" : ""; }
+
+   // Converts client coordinates (e.g. `PointerEvent.clientX/clientY`) into coordinates relative to the viewport.
+   // In RTL mode, the x coordinate is measured from the right edge of the viewport.
+   public clientToViewportCoordinates (clientX: number, clientY: number) : {x: number; y: number} {
+      const element = this.viewportElement;
+      const rect = element.getBoundingClientRect();
+      const x0 = clientX - rect.left - element.clientLeft;
+      const x = (this.direction == "rtl") ? element.clientWidth - x0 : x0;
+      const y = clientY - rect.top  - element.clientTop;
+      return {x, y}; }
+
+   // Returns the cell at a point relative to the viewport, or `undefined` if there is no rendered cell at that point.
+   // Points within merged cells are resolved to the anchor cell.
+   public hitTest (x: number, y: number) : HitTestResult | undefined {
+      const rs = this.renderedState;
+      const rp = this.renderParms;
+      if (!rs || !rp) {
+         return; }
+      const p = findCellPosition(rs, x, y);
+      if (!p) {
+         return; }
+      const cells = (p.cellType == CellType.macro) ? rs.macroCells : rs.regularCells;
+      return this.genHitTestResult(cells, p.cellType, p.rowNdx, p.colNdx, x, y, rp.vCellOverlap); }
+
+   private genHitTestResult (cells: CellRectMap, cellType: CellType, rowNdx: number, colNdx: number, x: number, y: number, vCellOverlap: number) : HitTestResult | undefined {
+      const cell = cells.get(rowNdx, colNdx);
+      const rect = cell ? this.cellRects.get(cell) : undefined;
+      if (!cell || !rect || x < rect.x || x >= rect.x + rect.width) {
+         return; }
+      const span = cells.getSpan(cell);
+      const offsetX = x - rect.x;
+      const offsetY = y - rect.y;
+      const inOverlap = offsetY >= rect.height - vCellOverlap;
+      return {cellType, rowNdx: span ? span.rowNdx : rowNdx, colNdx: span ? span.colNdx : colNdx, cell, offsetX, offsetY, inOverlap}; }
+
+   // Returns the layout rectangle of a rendered cell, relative to the viewport.
+   // The rectangle does not include the vertical cell overlap. For the covered cells of a merged range,
+   // the rectangle of the anchor cell is returned. Returns `undefined` if the cell is not rendered.
+   public getCellRect (cellType: CellType, rowNdx: number, colNdx: number) : CellRect | undefined {
+      const rs = this.renderedState;
+      if (!rs) {
+         return; }
+      const cells = (cellType == CellType.macro) ? rs.macroCells : rs.regularCells;
+      const cell = cells.get(rowNdx, (cellType == CellType.macro) ? 0 : colNdx);
+      const rect = cell ? this.cellRects.get(cell) : undefined;
+      return rect ? {...rect} : undefined; }
+
+   private initRender (rp: RenderParms, lg: LayoutGeometry) : RenderedState {
+      const pos = lg.viewportPosition;
+      const renderedRows = lg.visibleRows + lg.overscanRowsBefore + lg.overscanRowsAfter;
+      const renderedCols = lg.visibleCols + lg.overscanColsBefore + lg.overscanColsAfter;
+      const regularCells = new CellRectMap(pos.rowNdx - lg.overscanRowsBefore, pos.colNdx - lg.overscanColsBefore, renderedRows, renderedCols, lg.frozenRows, lg.frozenCols);
+      const macroCells = new CellRectMap(pos.rowNdx - lg.overscanRowsBefore, 0, renderedRows, 1, lg.frozenRows, 0);
+      const rs: RenderedState = {...lg, regularCells, macroCells};
+      if (!this.cellContainerElement) {
          this.cellContainerElement = document.createElement("div");
          const style = this.cellContainerElement.style;
          style.position = "relative";
@@ -141,144 +388,384 @@ export class LayoutController extends EventTarget {
          style.overflow = "hidden";
          (<any>style).contain = "content";                           // ? (for faster layout)
          this.viewportElement.appendChild(this.cellContainerElement); }
-      this.renderedState = rs; }
+      if (rp.aria) {
+         setAttribute(this.viewportElement, "role", "grid");
+         setAttribute(this.viewportElement, "aria-rowcount", String(getSizeCount(rp.rowHeights)));
+         setAttribute(this.viewportElement, "aria-colcount", String(getSizeCount(rp.colWidths) + (rp.macroCellHeights ? 1 : 0))); }
+       else {                                                        // (ARIA may have been enabled for a previous render)
+         setAttribute(this.viewportElement, "role", undefined);
+         setAttribute(this.viewportElement, "aria-rowcount", undefined);
+         setAttribute(this.viewportElement, "aria-colcount", undefined); }
+      this.renderedState = rs;
+      return rs; }
 
-   // Release cells that have not been re-used.
-   private releaseOldRenderStateCells (oldRs: RenderedState | undefined, releaseCell: ReleaseCellFunction | undefined) {
-      if (oldRs) {
-         this.releaseCells(oldRs.regularCells, releaseCell);
-         this.releaseCells(oldRs.macroCells, releaseCell); }}
-
-   private releaseCells (cells: CellRectMap, releaseCell: ReleaseCellFunction | undefined) {
-      if (!releaseCell) {
+   // Removes and releases cells that have not been re-used.
+   // When `recycle` is true and the cell pool is enabled, the cells are put into the pool instead of being released.
+   private releaseOldRenderStateCells (oldRs: RenderedState | undefined, newRs: RenderedState | undefined, releaseCell: ReleaseCellFunction | undefined, recycle: boolean) {
+      if (!oldRs) {
          return; }
+      const newCells = new Set<HTMLElement | undefined>();
+      if (newRs) {
+         newRs.regularCells.getAll().forEach((cell) => newCells.add(cell));
+         newRs.macroCells.getAll().forEach((cell) => newCells.add(cell)); }
+      this.releaseCells(oldRs.regularCells, newCells, releaseCell, recycle);
+      this.releaseCells(oldRs.macroCells, newCells, releaseCell, recycle); }
+
+   private releaseCells (cells: CellRectMap, newCells: Set<HTMLElement | undefined>, releaseCell: ReleaseCellFunction | undefined, recycle: boolean) {
       const a = cells.getAll();
       for (const cell of a) {
-         if (cell) {
+         if (!cell || newCells.has(cell)) {                          // (the cell has been returned by `prepareCell()` for another position)
+            continue; }
+         const parent = cell.parentNode;
+         if (parent && (parent == this.cellContainerElement || parent.parentNode == this.cellContainerElement)) {   // (the parent may be an ARIA row element)
+            parent.removeChild(cell); }
+         if (recycle && this.cellPool && this.cellPool.recycle(cell)) {
+            continue; }
+         if (releaseCell) {
             releaseCell(cell); }}}
 
-   private renderCells (rp: RenderParms, rs: RenderedState, oldRs?: RenderedState) {
+   // Adds a cell to the fragment if it is not already contained in the cell container.
+   // With ARIA, the cell is added to its row element instead.
+   private insertCell (cell: HTMLElement, fragment: DocumentFragment, rowElement: HTMLElement | undefined) {
+      if (rowElement) {
+         if (cell.parentNode != rowElement) {
+            rowElement.appendChild(cell); }
+         return; }
+      if (cell.parentNode != this.cellContainerElement) {
+         fragment.appendChild(cell); }}
+
+   // Renders the cells of the layout, the visible cells first and then the overscan cells.
+   private renderCells (rp: RenderParms, rs: RenderedState, oldRs: RenderedState | undefined, rowSlots: LayoutSlot[], layoutCells: LayoutCell[]) {
       const fragment = new DocumentFragment();
-      for (let relRowNdx = 0; relRowNdx < rs.visibleRows; relRowNdx++) {
-         const rowNdx = rp.viewportPosition.rowNdx + relRowNdx;
-         for (let relColNdx = 0; relColNdx < rs.visibleCols; relColNdx++) {
-            const colNdx = rs.viewportPosition.colNdx + relColNdx;
-            const regularCell = this.renderCell(rp, rs, oldRs, CellType.regular, rowNdx, colNdx, relRowNdx, relColNdx);
-            if (regularCell) {
-               fragment.appendChild(regularCell);
-               rs.regularCells.set(rowNdx, colNdx, regularCell); }}
-         const macroCell = this.renderCell(rp, rs, oldRs, CellType.macro, rowNdx, 0, relRowNdx, 0);
-         if (macroCell) {
-            fragment.appendChild(macroCell);
-            rs.macroCells.set(rowNdx, 0, macroCell); }}
+      const rowElements = this.prepareRowElements(rp, rowSlots, fragment);
+      for (const lc of layoutCells) {
+         const cell = this.renderCell(rp, oldRs, lc);
+         this.insertCell(cell, fragment, rowElements.get(lc.slotRowNdx));
+         const cells = (lc.cellType == CellType.macro) ? rs.macroCells : rs.regularCells;
+         cells.set(lc.rowNdx, lc.colNdx, cell, lc.span); }
       this.cellContainerElement!.appendChild(fragment); }
 
-   private renderCell (rp: RenderParms, rs: RenderedState, oldRs: RenderedState | undefined, cellType: CellType, rowNdx: number, colNdx: number, relRowNdx: number, relColNdx: number) : HTMLElement | undefined {
-      const rowHeight = rs.visibleRowHeights[relRowNdx];
-      const macroCellHeight = rs.visibleMacroCellHeights ? Math.min(rs.visibleMacroCellHeights[relRowNdx], rowHeight) : 0;
-      let x: number;
-      let y0: number;
-      let width: number;
-      let height0: number;
-      let oldCells: CellRectMap | undefined;
-      switch (cellType) {
-         case CellType.regular: {
-            x = rs.colXPositions[relColNdx];
-            y0 = rs.rowYPositions[relRowNdx];
-            width = rs.visibleColWidths[relColNdx];
-            height0 = rowHeight - macroCellHeight;
-            oldCells = oldRs ? oldRs.regularCells : undefined;
-            break; }
-         case CellType.macro: {
-            x = 0;
-            y0 = rs.rowYPositions[relRowNdx] + rowHeight - macroCellHeight;
-            width = rp.macroCellWidth;
-            height0 = macroCellHeight;
-            oldCells = oldRs ? oldRs.macroCells : undefined;
-            break; }
-         default: {
-            throw new Error("Unexpected cell type."); }}
-      if (width <= 0 || height0 <= 0) {
-         return; }
-      const y = y0 - rp.vCellOverlap;
-      const height = height0 + rp.vCellOverlap;
-      const oldCell = oldCells ? oldCells.get(rowNdx, colNdx) : undefined;
-      const cell = rp.prepareCell(cellType, rowNdx, colNdx, width, height, oldCell);
-      if (oldCell && cell != oldCell) {
-         oldCells!.delete(rowNdx, colNdx); }                         // if old cell has been re-used, delete from map
-      positionCell(cell, x, y, width, height);
+   // Creates the ARIA row elements for the rendered rows and removes the row elements that are no longer used.
+   // The row elements are kept in the order of the row indexes, because screen readers navigate in DOM order.
+   // A new row element is inserted before the next row element, rows after the last existing row element are added to the fragment.
+   // Returns an empty map when ARIA is not enabled.
+   private prepareRowElements (rp: RenderParms, rowSlots: LayoutSlot[], fragment: DocumentFragment) : Map<number, HTMLElement> {
+      const oldRowElements = this.rowElements;
+      const rowElements = new Map<number, HTMLElement>();
+      if (rp.aria) {
+         const rowNdxs = rowSlots.map((rowSlot) => rowSlot.ndx).sort((a, b) => a - b);
+         let nextRowElement: HTMLElement | undefined;
+         for (let i = rowNdxs.length - 1; i >= 0; i--) {
+            const rowNdx = rowNdxs[i];
+            let rowElement = oldRowElements.get(rowNdx);
+            if (!rowElement) {
+               rowElement = document.createElement("div");
+               rowElement.style.display = "contents";
+               rowElement.setAttribute("role", "row");
+               rowElement.setAttribute("aria-rowindex", String(rowNdx + 1));
+               if (nextRowElement) {
+                  nextRowElement.parentNode!.insertBefore(rowElement, nextRowElement); }
+                   else {
+                  fragment.appendChild(rowElement); }}
+            rowElements.set(rowNdx, rowElement);
+            nextRowElement = rowElement; }}
+      for (const [rowNdx, rowElement] of oldRowElements) {
+         if (!rowElements.has(rowNdx)) {
+            this.cellContainerElement!.removeChild(rowElement); }}   // (cells that are still in use are moved to their new parent by `insertCell()`)
+      this.rowElements = rowElements;
+      return rowElements; }
+
+   // Renders a cell and re-uses the old cell at the same position if possible.
+   // For merged cells, the old cell is only re-used if it has the same cell span.
+   private renderCell (rp: RenderParms, oldRs: RenderedState | undefined, lc: LayoutCell) : HTMLElement {
+      const oldCells = oldRs ? ((lc.cellType == CellType.macro) ? oldRs.macroCells : oldRs.regularCells) : undefined;
+      let oldCell = oldCells ? oldCells.get(lc.slotRowNdx, lc.slotColNdx) : undefined;
+      if (oldCell && !isSameCellSpan(oldCells!.getSpan(oldCell), lc.span)) {
+         oldCell = undefined; }
+      const cell = this.prepareCell(rp, oldCell, lc);
+      if (oldCell && cell == oldCell) {
+         oldCells!.delete(lc.slotRowNdx, lc.slotColNdx); }           // if old cell has been re-used, delete from map
+      return cell; }
+
+   private prepareCell (rp: RenderParms, oldCell: HTMLElement | undefined, lc: LayoutCell) : HTMLElement {
+      const {cellType, rowNdx, colNdx} = lc;
+      const r = lc.elementRect;
+      const pool = this.cellPool;
+      let cell: HTMLElement;
+      if (pool) {
+         const templateKey = rp.getCellTemplateKey ? rp.getCellTemplateKey(cellType, rowNdx, colNdx) : "";
+         const poolKey = cellType + ":" + templateKey;
+         const recycledCell = oldCell ? undefined : pool.acquire(poolKey);
+         cell = rp.prepareCell(cellType, rowNdx, colNdx, r.width, r.height, oldCell, recycledCell);
+         pool.registerPreparedCell(cell, poolKey, oldCell, recycledCell); }
+       else {
+         cell = rp.prepareCell(cellType, rowNdx, colNdx, r.width, r.height, oldCell); }
+      positionCell(cell, r.x, r.y, r.width, r.height, lc.layer, this.direction == "rtl");
+      if (rp.aria) {
+         setCellAriaAttributes(cell, rp, cellType, rowNdx, colNdx, lc.span); }
+       else {                                                        // (the cell may have been rendered with ARIA before)
+         removeCellAriaAttributes(cell); }
+      this.cellRects.set(cell, {...lc.rect});
       return cell; }}
 
-function integrateSizes (startPos: number, sizes: Int16Array) : Int16Array {
-   const n = sizes.length;
-   const a = new Int16Array(n + 1);
-   let p = startPos;
-   for (let i = 0; i < n; i++) {
-      a[i] = p;
-      p += Math.max(0, sizes[i]); }
-   a[n] = p;
-   return a; }
-
-function scanDistance (a: Int16Array, startNdx: number, distance: number, measure: MeasureFunction | undefined, orientation: boolean) : number {
-   const n = a.length;
-   let i = startNdx;
-   let d = 0;
-   while (d < distance && i < n) {
-      let w = a[i];
-      if (w == -1) {                                                 // undetermined height/width
-         if (!measure) {
-            throw new Error("Undetermined `rowHeights`/`colWidths` value encountered but `measure` function is undefined."); }
-         const len = Math.min(25, n - i);
-         measure(i, len, orientation);
-         w = a[i];
-         if (a[i] == -1) {
-            throw new Error("`rowHeights`/`colWidths` value stayed undetermined even after `measure` function was called."); }}
-      d += Math.max(0, w);
-      i++; }
-   return i; }
+// Returns the size that is used for undetermined row heights or column widths during asynchronous measurement,
+// or `undefined` if asynchronous measurement is not used.
+// It can be passed as `GridScroll.InputParms.estimatedSize`.
+export function getEstimatedSize (rp: RenderParms, orientation: boolean) : number | undefined {
+   if (rp.measure || !rp.measureAsync) {
+      return; }
+   return orientation ? (rp.estimatedRowHeight || 20) : (rp.estimatedColWidth || 100); }
+
+// Copies the sizes of the rows or columns [startNdx..startNdx+n-1] into the size index of the render parameters, if there is one.
+// It has to be called after the `measure` function of the render parameters has been called directly.
+export function updateSizeIndex (rp: RenderParms, startNdx: number, n: number, orientation: boolean) {
+   const sizeIndex = orientation ? rp.rowSizeIndex : rp.colSizeIndex;
+   if (sizeIndex) {
+      sizeIndex.setSizes(orientation ? rp.rowHeights : rp.colWidths, startNdx, n); }}
+
+// Returns the `measure` function of the render parameters, wrapped so that the measured sizes are copied into the size indexes.
+function genIndexedMeasureFunction (rp: RenderParms) : MeasureFunction | undefined {
+   const measure = rp.measure;
+   if (!measure || (!rp.rowSizeIndex && !rp.colSizeIndex)) {
+      return measure; }
+   return (startNdx: number, n: number, orientation: boolean) => {
+      measure(startNdx, n, orientation);
+      updateSizeIndex(rp, startNdx, n, orientation); }; }
+
+// Returns true if both cells are not merged or if both cells have the same cell span.
+function isSameCellSpan (span1: CellSpan | undefined, span2: CellSpan | undefined) : boolean {
+   if (!span1 || !span2) {
+      return !span1 && !span2; }
+   return span1.rowNdx == span2.rowNdx && span1.colNdx == span2.colNdx && span1.rowSpan == span2.rowSpan && span1.colSpan == span2.colSpan; }
+
+// A size provider that returns an estimated size for the undetermined entries and records their indexes.
+class EstimatedSizeProvider implements SizeProvider {
+   public  count:            number;
+   public  undetermined:     number[];                       // indexes of the undetermined entries that have been accessed
+   private sizes:            SizeSource;
+   private estimatedSize:    number;
+   constructor (sizes: SizeSource, estimatedSize: number) {
+      this.count = getSizeCount(sizes);
+      this.undetermined = [];
+      this.sizes = sizes;
+      this.estimatedSize = estimatedSize; }
+   public get (ndx: number) : number {
+      const size = getSize(this.sizes, ndx);
+      if (size != -1) {
+         return size; }
+      this.undetermined.push(ndx);
+      return this.estimatedSize; }}
+
+// Returns the pixel offset within the first visible element of the scrolling area, scaled to its new size.
+function scalePixelOffset (visibleSizes: Float64Array, frozenCount: number, visibleCount: number, pixelOffset: number, newSize: number) : number {
+   if (pixelOffset <= 0 || frozenCount >= visibleCount || newSize < 0) {
+      return pixelOffset; }
+   const oldSize = visibleSizes[frozenCount];
+   if (oldSize <= 0 || oldSize == newSize) {
+      return pixelOffset; }
+   return Math.max(0, Math.min(newSize - 1, Math.round(pixelOffset * newSize / oldSize))); }
 
 // A map for a rectangular area of cells.
+// When frozen rows/columns are used, the map covers the frozen rows/columns [0..frozenRows-1] / [0..frozenCols-1]
+// followed by the rows/columns of the scrolling area, starting at `rowOffset` / `colOffset`.
+// `rowCount` and `colCount` include the frozen rows/columns.
 export class CellRectMap {
    private rowOffset:        number;
    private colOffset:        number;
    private rowCount:         number;
    private colCount:         number;
+   private frozenRows:       number;
+   private frozenCols:       number;
    private a:                (HTMLElement | undefined)[];
-   constructor (rowOffset: number, colOffset: number, rowCount: number, colCount: number) {
+   private spans:            Map<HTMLElement, CellSpan>;       // merged cells
+   constructor (rowOffset: number, colOffset: number, rowCount: number, colCount: number, frozenRows = 0, frozenCols = 0) {
       this.rowOffset = rowOffset;
       this.colOffset = colOffset;
       this.rowCount = rowCount;
       this.colCount = colCount;
-      if (rowOffset < 0 || colOffset < 0 || rowCount < 0 || colCount < 0) {
+      this.frozenRows = frozenRows;
+      this.frozenCols = frozenCols;
+      if (rowOffset < 0 || colOffset < 0 || rowCount < 0 || colCount < 0 || frozenRows < 0 || frozenCols < 0 || frozenRows > Math.min(rowOffset, rowCount) || frozenCols > Math.min(colOffset, colCount)) {
          throw new Error("Invalid constructor parameters."); }
-      this.a = new Array(rowCount * colCount); }
+      this.a = new Array(rowCount * colCount);
+      this.spans = new Map(); }
    private getArrayIndex (rowNdx: number, colNdx: number) : number | undefined {
-      const rowRel = rowNdx - this.rowOffset;
-      const colRel = colNdx - this.colOffset;
+      const rowRel = (rowNdx < this.frozenRows) ? rowNdx : rowNdx - this.rowOffset + this.frozenRows;
+      const colRel = (colNdx < this.frozenCols) ? colNdx : colNdx - this.colOffset + this.frozenCols;
       if (rowRel < 0 || rowRel >= this.rowCount || colRel < 0 || colRel >= this.colCount || !Number.isInteger(rowRel) || !Number.isInteger(colRel)) {
          return; }
+      if ((rowNdx >= this.frozenRows && rowRel < this.frozenRows) || (colNdx >= this.frozenCols && colRel < this.frozenCols)) {
+         return; }                                                   // between the frozen area and the scrolling area
       return rowRel * this.colCount + colRel; }
-   public set (rowNdx: number, colNdx: number, cell: HTMLElement | undefined) {
-      const i = this.getArrayIndex(rowNdx, colNdx);
-      if (i == undefined) {
-         throw new Error("Invalid cell position."); }
-      this.a[i] = cell; }
+   // Stores a cell. When `span` is specified, the cell is stored for all positions of the merged range
+   // that lie within the map and `rowNdx`/`colNdx` must be the anchor of the range.
+   public set (rowNdx: number, colNdx: number, cell: HTMLElement | undefined, span?: CellSpan) {
+      if (!span) {
+         const i = this.getArrayIndex(rowNdx, colNdx);
+         if (i == undefined) {
+            throw new Error("Invalid cell position."); }
+         this.a[i] = cell;
+         return; }
+      if (span.rowNdx != rowNdx || span.colNdx != colNdx) {
+         throw new Error("Cell position is not the anchor of the cell span."); }
+      for (let rowRel = 0; rowRel < this.rowCount; rowRel++) {
+         const r = (rowRel < this.frozenRows) ? rowRel : this.rowOffset + rowRel - this.frozenRows;
+         if (r < span.rowNdx || r >= span.rowNdx + span.rowSpan) {
+            continue; }
+         for (let colRel = 0; colRel < this.colCount; colRel++) {
+            const c = (colRel < this.frozenCols) ? colRel : this.colOffset + colRel - this.frozenCols;
+            if (c >= span.colNdx && c < span.colNdx + span.colSpan) {
+               this.a[rowRel * this.colCount + colRel] = cell; }}}
+      if (cell) {
+         this.spans.set(cell, span); }}
+   // Deletes a cell. For a merged cell, all positions of the merged range are cleared.
    public delete (rowNdx: number, colNdx: number) {
-      this.set(rowNdx, colNdx, undefined); }
+      const cell = this.get(rowNdx, colNdx);
+      const span = cell ? this.spans.get(cell) : undefined;
+      if (!span) {
+         this.set(rowNdx, colNdx, undefined);
+         return; }
+      this.set(span.rowNdx, span.colNdx, undefined, span);
+      this.spans.delete(cell!); }
+   // Returns the cell at the specified position. For the covered positions of a merged range, the anchor cell is returned.
    public get (rowNdx: number, colNdx: number) : HTMLElement | undefined {
       const i = this.getArrayIndex(rowNdx, colNdx);
       if (i == undefined) {
          return; }
       return this.a[i]; }
-   public getAll() {
-      return this.a; }}
+   // Returns the merged range of a cell, or `undefined` if the cell is not merged.
+   public getSpan (cell: HTMLElement) : CellSpan | undefined {
+      return this.spans.get(cell); }
+   // Calls a function for each stored cell with the position of the cell.
+   // Merged cells are only passed once, with the position of the anchor cell.
+   public forEach (callback: (cell: HTMLElement, rowNdx: number, colNdx: number) => void) {
+      const doneMergedCells = new Set<HTMLElement>();
+      for (let rowRel = 0; rowRel < this.rowCount; rowRel++) {
+         const rowNdx = (rowRel < this.frozenRows) ? rowRel : this.rowOffset + rowRel - this.frozenRows;
+         for (let colRel = 0; colRel < this.colCount; colRel++) {
+            const colNdx = (colRel < this.frozenCols) ? colRel : this.colOffset + colRel - this.frozenCols;
+            const cell = this.a[rowRel * this.colCount + colRel];
+            if (!cell) {
+               continue; }
+            const span = this.spans.get(cell);
+            if (!span) {
+               callback(cell, rowNdx, colNdx);
+               continue; }
+            if (!doneMergedCells.has(cell)) {
+               doneMergedCells.add(cell);
+               callback(cell, span.rowNdx, span.colNdx); }}}}
+   // Returns all cells. Merged cells are only included once.
+   public getAll() : (HTMLElement | undefined)[] {
+      if (this.spans.size == 0) {
+         return this.a; }
+      const seen = new Set<HTMLElement>();
+      return this.a.filter((cell) => {
+         if (!cell || !this.spans.has(cell)) {
+            return true; }
+         if (seen.has(cell)) {
+            return false; }
+         seen.add(cell);
+         return true; }); }}
+
+export interface CellPoolStatistics {
+   hits:                               number;                       // number of recycled cells that have been re-used by `prepareCell`
+   misses:                             number;                       // number of cells that have been prepared without an old or recycled cell
+   created:                            number; }                     // number of new cells that have been returned by `prepareCell`
+
+// A pool for recycling released cells.
+// The cells are kept per cell type and template key (see `CellTemplateKeyFunction`).
+export class CellPool {
+   public  maxSize:          number;                         // maximum number of pooled cells per cell type and template key
+   public  statistics:       CellPoolStatistics;
+   private pools:            Map<string, HTMLElement[]>;
+   private poolKeys:         WeakMap<HTMLElement, string>;   // pool keys of the cells that have been prepared
+   constructor (maxSize = 500) {
+      this.maxSize = maxSize;
+      this.pools = new Map();
+      this.poolKeys = new WeakMap();
+      this.resetStatistics(); }
+   public resetStatistics() {
+      this.statistics = {hits: 0, misses: 0, created: 0}; }
+   // Returns the number of cells currently in the pool.
+   public get size() : number {
+      let n = 0;
+      this.pools.forEach((a) => n += a.length);
+      return n; }
+   // Takes a cell out of the pool. Returns `undefined` if the pool is empty for the key.
+   public acquire (poolKey: string) : HTMLElement | undefined {
+      const a = this.pools.get(poolKey);
+      return a ? a.pop() : undefined; }
+   // Puts a cell into the pool. Returns false if the cell has not been prepared by a layout controller using this pool or if the pool is full.
+   public recycle (cell: HTMLElement) : boolean {
+      const poolKey = this.poolKeys.get(cell);
+      if (poolKey == undefined) {
+         return false; }
+      let a = this.pools.get(poolKey);
+      if (!a) {
+         a = [];
+         this.pools.set(poolKey, a); }
+      if (a.length >= this.maxSize) {
+         this.poolKeys.delete(cell);
+         return false; }
+      a.push(cell);
+      return true; }
+   // Updates the statistics after `prepareCell` has been called and records the pool key of the returned cell.
+   public registerPreparedCell (cell: HTMLElement, poolKey: string, oldCell: HTMLElement | undefined, recycledCell: HTMLElement | undefined) {
+      const st = this.statistics;
+      if (recycledCell && cell == recycledCell) {
+         st.hits++; }
+       else if (!oldCell) {
+         st.misses++; }
+      if (cell != oldCell && cell != recycledCell) {
+         st.created++; }
+      if (recycledCell && cell != recycledCell) {                    // the recycled cell has not been used, put it back into the pool
+         this.pools.get(poolKey)!.push(recycledCell); }
+      this.poolKeys.set(cell, poolKey); }
+   // Removes all cells from the pool.
+   public clear (releaseCell: ReleaseCellFunction | undefined) {
+      this.pools.forEach((a) => {
+         for (const cell of a) {
+            this.poolKeys.delete(cell);
+            if (releaseCell) {
+               releaseCell(cell); }}});
+      this.pools.clear(); }}
 
-function positionCell (cell: HTMLElement, x: number, y: number, width: number, height: number) {
+// The `layer` is used to place the frozen cells above the cells of the scrolling area.
+// Only style properties that have changed are set, to avoid unnecessary DOM mutations for re-used cells.
+// In RTL mode, `x` is the distance from the right edge of the viewport.
+function positionCell (cell: HTMLElement, x: number, y: number, width: number, height: number, layer: number, rtl: boolean) {
    const style = cell.style;
-   style.position  = "absolute";
-   style.boxSizing = "border-box";
-   style.overflow  = "hidden";
-   style.left      = x      + "px";
-   style.top       = y      + "px";
-   style.width     = width  + "px";
-   style.height    = height + "px"; }
+   setStyleProperty(style, "position",  "absolute");
+   setStyleProperty(style, "zIndex",    layer ? String(layer) : "");
+   setStyleProperty(style, "boxSizing", "border-box");
+   setStyleProperty(style, "overflow",  "hidden");
+   setStyleProperty(style, "left",      rtl ? "" : x + "px");
+   setStyleProperty(style, "right",     rtl ? x + "px" : "");
+   setStyleProperty(style, "top",       y      + "px");
+   setStyleProperty(style, "width",     width  + "px");
+   setStyleProperty(style, "height",    height + "px"); }
+
+function setCellAriaAttributes (cell: HTMLElement, rp: RenderParms, cellType: CellType, rowNdx: number, colNdx: number, span: CellSpan | undefined) {
+   const ariaColNdx = (cellType == CellType.macro) ? getSizeCount(rp.colWidths) : colNdx;     // (macro cells are exposed as an additional last column)
+   setAttribute(cell, "role", "gridcell");
+   setAttribute(cell, "aria-rowindex", String(rowNdx + 1));
+   setAttribute(cell, "aria-colindex", String(ariaColNdx + 1));
+   setAttribute(cell, "aria-rowspan", (span && span.rowSpan > 1) ? String(span.rowSpan) : undefined);
+   setAttribute(cell, "aria-colspan", (span && span.colSpan > 1) ? String(span.colSpan) : undefined); }
+
+function removeCellAriaAttributes (cell: HTMLElement) {
+   for (const name of ["role", "aria-rowindex", "aria-colindex", "aria-rowspan", "aria-colspan"]) {
+      setAttribute(cell, name, undefined); }}
+
+// Sets or removes (when `value` is `undefined`) an attribute, avoiding redundant DOM mutations.
+function setAttribute (element: HTMLElement, name: string, value: string | undefined) {
+   if (value == undefined) {
+      if (element.hasAttribute(name)) {
+         element.removeAttribute(name); }
+      return; }
+   if (element.getAttribute(name) != value) {
+      element.setAttribute(name, value); }}
+
+function setStyleProperty (style: CSSStyleDeclaration, name: "position" | "zIndex" | "boxSizing" | "overflow" | "left" | "right" | "top" | "width" | "height", value: string) {
+   if (style[name] != value) {
+      style[name] = value; }}
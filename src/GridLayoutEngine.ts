@@ -0,0 +1,486 @@
+// Layout engine for a virtual grid.
+
+// This module contains the DOM-independent part of the grid layout. It computes the visible and overscan rows and
+// columns and the rectangles of the cells for a viewport size and a viewport position. It does not access the DOM
+// and can therefore also be used outside of a browser, e.g. for testing or for server-side computations.
+// The `LayoutController` of the `GridLayout` module is a DOM adapter on top of this module.
+
+import {SizeProvider, SizeSource, getSizeCount, getSize} from "./GridSizeProvider";
+
+// Grids can contain regular cells and macro cells.
+// Macro cells are positioned below the regular cells of a row and can be used e.g. for sub-grids.
+export const enum CellType {regular, macro}
+
+// A viewport position of the grid.
+// When frozen rows or columns are used, `rowNdx` and `colNdx` refer to the first visible row/column of the scrolling area.
+export interface ViewportPosition {
+   rowNdx:                             number;                       // index of first visible row, 0-based integer
+   colNdx:                             number;                       // index of first visible column, 0-based integer
+   rowPixelOffset:                     number;                       // vertical pixel offset within first visible row, integer in range 0..rowHeight-1
+   colPixelOffset:                     number; }                     // horizontal pixel offset within first visible column, integer in range 0..colWidth-1
+
+export const topLeftViewportPosition: Readonly<ViewportPosition> = {rowNdx: 0, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0};
+
+// Function to measure undetermined row heights or column widths.
+//
+// The `rowHeights` and `colWidths` arrays or size providers may contain entries with the value -1, which means that the value
+// has not yet been determined. This function is used to measure these undetermined entries and must store the measured
+// values in the arrays or size providers.
+//
+// @param startNdx
+//    Row or column index to start.
+// @param n
+//    Number of entries to process.
+// @param orientation
+//    false = horizontal (measure column widths), true = vertical (measure row heights)
+export type MeasureFunction = (startNdx: number, n: number, orientation: boolean) => void;
+
+// An array of row heights, column widths or macro cell heights.
+// `Int16Array` is sufficient for most grids. `Int32Array` or `Float64Array` can be used for elements larger than 32767 pixels.
+export type SizeArray = Int16Array | Int32Array | Float64Array;
+
+// A rectangular range of merged regular cells.
+export interface CellSpan {
+   rowNdx:                             number;                       // row index of the anchor cell (top left cell of the range)
+   colNdx:                             number;                       // column index of the anchor cell (top left cell of the range)
+   rowSpan:                            number;                       // number of rows covered by the range, integer >= 1
+   colSpan:                            number; }                     // number of columns covered by the range, integer >= 1
+
+// Function to determine merged cells.
+//
+// The anchor cell of a merged range is rendered across all rows and columns of the range and the covered
+// cells are skipped. A merged range must not cross the boundary between frozen and non-frozen rows or columns.
+// Rows with macro cells should only be included in a range as its last row.
+//
+// @param rowNdx
+//    The row index of a regular cell.
+// @param colNdx
+//    The column index of a regular cell.
+// @returns
+//    The merged range that contains the specified cell, or `undefined` if the cell is not merged.
+//    The same range must be returned for all cells of the range.
+export type CellSpanFunction = (rowNdx: number, colNdx: number) => CellSpan | undefined;
+
+export interface LayoutParms {                                       // parameters for `computeLayout()`
+   viewportPosition:                   ViewportPosition;             // grid viewport position
+   rowHeights:                         SizeArray | SizeProvider;     // row heights of the grid, may contain -1 for undetermined heights
+   colWidths:                          SizeArray | SizeProvider;     // column widths of the grid, may contain -1 for undetermined widths
+   macroCellHeights?:                  SizeArray | SizeProvider;     // macro cell heights, 0 = no macro cell
+   macroCellWidth:                     number;                       // width of the macro cells in pixels
+   vCellOverlap:                       number;                       // vertical cell overlap in pixels
+   frozenRows?:                        number;                       // number of frozen leading rows, which are always placed at the top edge
+   frozenCols?:                        number;                       // number of frozen leading columns, which are always placed at the left edge
+   overscanRows?:                      number;                       // number of additional rows placed above and below the viewport
+   overscanCols?:                      number;                       // number of additional columns placed left and right of the viewport
+   overscanDirectional?:               boolean;                      // true to place the overscan rows/columns only in the current scroll direction, with twice the count
+   measure?:                           MeasureFunction;              // function to measure undetermined row heights or column widths
+   getCellSpan?:                       CellSpanFunction; }           // function to determine merged regular cells
+
+// The geometry of a layout.
+//
+// The visible rows and columns are addressed by relative indexes. When frozen rows/columns are used, the
+// visible frozen rows/columns come first, followed by the visible rows/columns of the scrolling area.
+// `relToAbsNdx()` and `absToRelNdx()` can be used to convert between relative and absolute indexes.
+// The first row/column of the scrolling area is clipped at the end of the frozen rows/columns, i.e.
+// `rowYPositions[frozenRows]` and `colXPositions[frozenCols]` are the edges of the frozen area and not
+// the start positions of the partially visible cells.
+export interface LayoutGeometry {
+   viewportPosition:                   ViewportPosition;             // grid viewport position
+   viewportHeight:                     number;                       // height of the viewport in pixels
+   viewportWidth:                      number;                       // width of the viewport in pixels
+   visibleRows:                        number;                       // number of rows visible in the viewport, including frozen rows
+   visibleCols:                        number;                       // number of columns visible in the viewport, including frozen columns
+   frozenRows:                         number;                       // number of visible frozen rows [0..frozenRows-1]
+   frozenCols:                         number;                       // number of visible frozen columns [0..frozenCols-1]
+   visibleRowHeights:                  Float64Array;                 // heights of the visible rows [0..visibleRows-1]
+   visibleColWidths:                   Float64Array;                 // widths of the visible columns [0..visibleCols-1]
+   visibleMacroCellHeights?:           Float64Array;                 // heights of the macro cells within the visible rows [0..visibleRows-1]
+   rowYPositions:                      Float64Array;                 // row y positions relative to viewport [0..visibleRows]
+   colXPositions:                      Float64Array;                 // column x positions relative to viewport [0..visibleCols]
+   overscanRowsBefore:                 number;                       // number of rows rendered above the visible rows of the scrolling area
+   overscanRowsAfter:                  number;                       // number of rows rendered below the visible rows
+   overscanColsBefore:                 number;                       // number of columns rendered left of the visible columns of the scrolling area
+   overscanColsAfter:                  number; }                     // number of columns rendered right of the visible columns
+
+export interface CellRect {                                          // a rectangle relative to the viewport
+   x:                                  number;
+   y:                                  number;
+   width:                              number;
+   height:                             number; }
+
+export interface LayoutSlot {                                        // a row or column to be rendered
+   ndx:                                number;                       // absolute row or column index
+   pos:                                number;                       // unclipped start position relative to the viewport
+   size:                               number;                       // row height or column width
+   macroCellHeight:                    number;                       // height of the macro cell, 0 for columns
+   frozen:                             boolean;                      // true for frozen rows/columns
+   visible:                            boolean; }                    // false for overscan rows/columns
+
+export interface LayoutCell {                                        // a cell to be rendered
+   cellType:                           CellType;                     // type of the cell
+   rowNdx:                             number;                       // row index of the cell, or of the anchor cell of a merged range
+   colNdx:                             number;                       // column index of the cell, or of the anchor cell of a merged range, 0 for macro cells
+   span?:                              CellSpan;                     // the merged range, `undefined` if the cell is not merged
+   slotRowNdx:                         number;                       // row index of the first rendered position of the cell, differs from `rowNdx` for merged cells that start above the rendered rows
+   slotColNdx:                         number;                       // column index of the first rendered position of the cell, differs from `colNdx` for merged cells that start left of the rendered columns
+   rect:                               CellRect;                     // layout rectangle relative to the viewport, without the vertical cell overlap
+   elementRect:                        CellRect;                     // rectangle of the cell element, extended upwards by the vertical cell overlap
+   layer:                              number;                       // stacking layer, 0 = scrolling area, 1 = frozen columns, 2 = frozen rows, 3 = frozen rows and columns
+   visible:                            boolean; }                    // false for overscan cells
+
+export interface Layout {                                            // result of `computeLayout()`
+   geometry:                           LayoutGeometry;               // positions and sizes of the visible rows and columns
+   rowSlots:                           LayoutSlot[];                 // rows to be rendered, the visible rows first, followed by the overscan rows
+   colSlots:                           LayoutSlot[];                 // columns to be rendered, the visible columns first, followed by the overscan columns
+   cells:                              LayoutCell[]; }               // cells to be rendered, the visible cells first, followed by the overscan cells
+
+// Computes the layout of the grid cells for a viewport.
+//
+// @param viewportWidth
+//    The width of the viewport in pixels.
+// @param viewportHeight
+//    The height of the viewport in pixels.
+// @param oldViewportPosition
+//    The previous viewport position. Only used to determine the scroll direction for `overscanDirectional`.
+export function computeLayout (lp: LayoutParms, viewportWidth: number, viewportHeight: number, oldViewportPosition?: ViewportPosition) : Layout {
+   const geometry = computeGeometry(lp, viewportWidth, viewportHeight, oldViewportPosition);
+   const rowSlots = buildLayoutSlots(lp, geometry, true);
+   const colSlots = buildLayoutSlots(lp, geometry, false);
+   const cells = placeCells(lp, rowSlots, colSlots);
+   return {geometry, rowSlots, colSlots, cells}; }
+
+// Determines the cell position at a point relative to the viewport.
+// For merged cells, the covered position is returned, not the anchor of the merged range.
+// Returns `undefined` if the point lies outside of the visible rows and columns.
+export function findCellPosition (lg: LayoutGeometry, x: number, y: number) : {cellType: CellType; rowNdx: number; colNdx: number} | undefined {
+   const relRowNdx = scanPos(lg.rowYPositions, y);
+   if (relRowNdx == undefined || relRowNdx >= lg.visibleRows) {
+      return; }
+   const rowNdx = relToAbsNdx(lg, relRowNdx, true);
+   const rowY = getCellStartPos(lg.rowYPositions, lg.frozenRows, lg.viewportPosition.rowPixelOffset, relRowNdx);
+   const rowHeight = Math.max(0, lg.visibleRowHeights[relRowNdx]);
+   const macroCellHeight = lg.visibleMacroCellHeights ? Math.max(0, Math.min(lg.visibleMacroCellHeights[relRowNdx], rowHeight)) : 0;
+   if (y - rowY >= rowHeight - macroCellHeight) {
+      return {cellType: CellType.macro, rowNdx, colNdx: 0}; }
+   const relColNdx = scanPos(lg.colXPositions, x);
+   if (relColNdx == undefined || relColNdx >= lg.visibleCols) {
+      return; }
+   const colNdx = relToAbsNdx(lg, relColNdx, false);
+   return {cellType: CellType.regular, rowNdx, colNdx}; }
+
+function computeGeometry (lp: LayoutParms, viewportWidth: number, viewportHeight: number, oldPos: ViewportPosition | undefined) : LayoutGeometry {
+   const lg = <LayoutGeometry>{};
+   lg.viewportPosition = {...lp.viewportPosition};
+   lg.viewportWidth = viewportWidth;
+   lg.viewportHeight = viewportHeight;
+   const pos = lg.viewportPosition;
+   if (pos.rowNdx < 0 || pos.colNdx < 0 || !Number.isInteger(pos.rowNdx) || !Number.isInteger(pos.colNdx) || pos.rowPixelOffset < 0 || pos.colPixelOffset < 0) {
+      throw new Error("Invalid viewport position."); }
+   const frozenRows = lp.frozenRows || 0;
+   const frozenCols = lp.frozenCols || 0;
+   if (frozenRows < 0 || frozenCols < 0 || !Number.isInteger(frozenRows) || !Number.isInteger(frozenCols)) {
+      throw new Error("Invalid number of frozen rows or columns."); }
+   if (pos.rowNdx < frozenRows) {                                // the scrolling area starts after the frozen rows
+      pos.rowNdx = frozenRows;
+      pos.rowPixelOffset = 0; }
+   if (pos.colNdx < frozenCols) {                                // the scrolling area starts after the frozen columns
+      pos.colNdx = frozenCols;
+      pos.colPixelOffset = 0; }
+   const rowRange = findVisibleRange(lp.rowHeights, frozenRows, pos.rowNdx, pos.rowPixelOffset, lg.viewportHeight, lp.measure, true);
+   const colRange = findVisibleRange(lp.colWidths, frozenCols, pos.colNdx, pos.colPixelOffset, lg.viewportWidth, lp.measure, false);
+   lg.frozenRows = rowRange.frozenEnd;
+   lg.frozenCols = colRange.frozenEnd;
+   lg.visibleRows = rowRange.frozenEnd + rowRange.end - pos.rowNdx;
+   lg.visibleCols = colRange.frozenEnd + colRange.end - pos.colNdx;
+   lg.visibleRowHeights = sliceVisibleRange(lp.rowHeights, rowRange, pos.rowNdx);                                              // (clone to preserve current values)
+   lg.visibleMacroCellHeights = lp.macroCellHeights ? sliceVisibleRange(lp.macroCellHeights, rowRange, pos.rowNdx) : undefined; // (clone to preserve current values)
+   lg.visibleColWidths = sliceVisibleRange(lp.colWidths, colRange, pos.colNdx);                                                // (clone to preserve current values)
+   if (lg.visibleRows > lg.frozenRows && pos.rowPixelOffset > 0 && pos.rowPixelOffset >= lg.visibleRowHeights[lg.frozenRows]) {
+       console.log("Warning: Row pixel offset exceeds height of first visible row.");
+       pos.rowPixelOffset = 0; }
+   if (lg.visibleCols > lg.frozenCols && pos.colPixelOffset > 0 && pos.colPixelOffset >= lg.visibleColWidths[lg.frozenCols]) {
+       console.log("Warning: Column pixel offset exceeds width of first visible column.");
+       pos.colPixelOffset = 0; }
+   lg.rowYPositions = integrateSizes(lg.visibleRowHeights, lg.frozenRows, pos.rowPixelOffset);
+   lg.colXPositions = integrateSizes(lg.visibleColWidths, lg.frozenCols, pos.colPixelOffset);
+   const rowDirection = (lp.overscanDirectional && oldPos) ? Math.sign((pos.rowNdx - oldPos.rowNdx) || (pos.rowPixelOffset - oldPos.rowPixelOffset)) : 0;
+   const colDirection = (lp.overscanDirectional && oldPos) ? Math.sign((pos.colNdx - oldPos.colNdx) || (pos.colPixelOffset - oldPos.colPixelOffset)) : 0;
+   const rowOverscan = findOverscanRange(lp.rowHeights, frozenRows, pos.rowNdx, rowRange.end, lp.overscanRows || 0, rowDirection, lp.measure, true);
+   const colOverscan = findOverscanRange(lp.colWidths, frozenCols, pos.colNdx, colRange.end, lp.overscanCols || 0, colDirection, lp.measure, false);
+   lg.overscanRowsBefore = rowOverscan.before;
+   lg.overscanRowsAfter = rowOverscan.after;
+   lg.overscanColsBefore = colOverscan.before;
+   lg.overscanColsAfter = colOverscan.after;
+   return lg; }
+
+// Places the cells of the rendered rows and columns. The visible cells come first, followed by the overscan cells.
+// Within each pass, the macro cell of a row follows the regular cells of the row.
+function placeCells (lp: LayoutParms, rowSlots: LayoutSlot[], colSlots: LayoutSlot[]) : LayoutCell[] {
+   const cells: LayoutCell[] = [];
+   const covered = new CoverageMap(rowSlots, colSlots);
+   for (let pass = 0; pass < 2; pass++) {                            // pass 0 = visible cells, pass 1 = overscan cells
+      const visiblePass = pass == 0;
+      for (const rowSlot of rowSlots) {
+         for (const colSlot of colSlots) {
+            if ((rowSlot.visible && colSlot.visible) == visiblePass) {
+               placeRegularCell(lp, rowSlot, colSlot, covered, cells); }}
+         if (rowSlot.visible == visiblePass) {
+            const macroCell = placeCell(lp, CellType.macro, rowSlot, undefined);
+            if (macroCell) {
+               cells.push(macroCell); }}}}
+   return cells; }
+
+function placeRegularCell (lp: LayoutParms, rowSlot: LayoutSlot, colSlot: LayoutSlot, covered: CoverageMap, cells: LayoutCell[]) {
+   const rowNdx = rowSlot.ndx;
+   const colNdx = colSlot.ndx;
+   if (covered.has(rowNdx, colNdx)) {                                // covered by a merged cell that has already been placed
+      return; }
+   const span = lp.getCellSpan ? lp.getCellSpan(rowNdx, colNdx) : undefined;
+   if (span && (span.rowSpan > 1 || span.colSpan > 1)) {
+      covered.add(span);
+      const mergedCell = placeMergedCell(lp, span, rowSlot, colSlot);
+      if (mergedCell) {
+         cells.push(mergedCell); }
+      return; }
+   const regularCell = placeCell(lp, CellType.regular, rowSlot, colSlot);
+   if (regularCell) {
+      cells.push(regularCell); }}
+
+// `colSlot` is ignored for macro cells.
+function placeCell (lp: LayoutParms, cellType: CellType, rowSlot: LayoutSlot, colSlot: LayoutSlot | undefined) : LayoutCell | undefined {
+   const rowNdx = rowSlot.ndx;
+   const macroCellHeight = Math.min(rowSlot.macroCellHeight, rowSlot.size);
+   let colNdx: number;
+   let x: number;
+   let y0: number;
+   let width: number;
+   let height0: number;
+   let layer: number;
+   switch (cellType) {
+      case CellType.regular: {
+         colNdx = colSlot!.ndx;
+         x = colSlot!.pos;
+         y0 = rowSlot.pos;
+         width = colSlot!.size;
+         height0 = rowSlot.size - macroCellHeight;
+         layer = (rowSlot.frozen ? 2 : 0) + (colSlot!.frozen ? 1 : 0);
+         break; }
+      case CellType.macro: {
+         colNdx = 0;
+         x = 0;
+         y0 = rowSlot.pos + rowSlot.size - macroCellHeight;
+         width = lp.macroCellWidth;
+         height0 = macroCellHeight;
+         layer = rowSlot.frozen ? 2 : 0;
+         break; }
+      default: {
+         throw new Error("Unexpected cell type."); }}
+   if (width <= 0 || height0 <= 0) {
+      return; }
+   const visible = rowSlot.visible && (!colSlot || colSlot.visible);
+   return createLayoutCell(lp, cellType, rowNdx, colNdx, undefined, rowNdx, colNdx, x, y0, width, height0, layer, visible); }
+
+// Places the anchor cell of a merged range.
+// `rowSlot`/`colSlot` is the first rendered cell of the range, which is not necessarily the anchor cell.
+function placeMergedCell (lp: LayoutParms, span: CellSpan, rowSlot: LayoutSlot, colSlot: LayoutSlot) : LayoutCell | undefined {
+   const rowNdx = rowSlot.ndx;
+   const colNdx = colSlot.ndx;
+   const lastRowNdx = span.rowNdx + span.rowSpan - 1;
+   if (span.rowNdx > rowNdx || span.colNdx > colNdx || lastRowNdx < rowNdx || span.colNdx + span.colSpan <= colNdx) {
+      throw new Error("Cell span does not contain the cell."); }
+   const x = colSlot.pos - sumSizes(lp.colWidths, span.colNdx, colNdx, lp.measure, false);
+   const y0 = rowSlot.pos - sumSizes(lp.rowHeights, span.rowNdx, rowNdx, lp.measure, true);
+   const width = sumSizes(lp.colWidths, span.colNdx, span.colNdx + span.colSpan, lp.measure, false);
+   const lastRowHeight = sumSizes(lp.rowHeights, lastRowNdx, lastRowNdx + 1, lp.measure, true);
+   const lastMacroCellHeight = lp.macroCellHeights ? Math.max(0, Math.min(getSize(lp.macroCellHeights, lastRowNdx), lastRowHeight)) : 0;
+   const height0 = sumSizes(lp.rowHeights, span.rowNdx, lastRowNdx + 1, lp.measure, true) - lastMacroCellHeight;
+   const layer = (rowSlot.frozen ? 2 : 0) + (colSlot.frozen ? 1 : 0);
+   if (width <= 0 || height0 <= 0) {
+      return; }
+   const visible = rowSlot.visible && colSlot.visible;
+   return createLayoutCell(lp, CellType.regular, span.rowNdx, span.colNdx, span, rowNdx, colNdx, x, y0, width, height0, layer, visible); }
+
+function createLayoutCell (lp: LayoutParms, cellType: CellType, rowNdx: number, colNdx: number, span: CellSpan | undefined, slotRowNdx: number, slotColNdx: number,
+      x: number, y0: number, width: number, height0: number, layer: number, visible: boolean) : LayoutCell {
+   const rect = {x, y: y0, width, height: height0};
+   const elementRect = {x, y: y0 - lp.vCellOverlap, width, height: height0 + lp.vCellOverlap};
+   return {cellType, rowNdx, colNdx, span, slotRowNdx, slotColNdx, rect, elementRect, layer, visible}; }
+
+// Keeps track of the rendered positions that are covered by merged cells.
+class CoverageMap {
+   private rowSlotNdxs:      Map<number, number>;            // maps row indexes to row slot indexes
+   private colSlotNdxs:      Map<number, number>;            // maps column indexes to column slot indexes
+   private colSlotCount:     number;
+   private a:                Uint8Array;
+   constructor (rowSlots: LayoutSlot[], colSlots: LayoutSlot[]) {
+      this.rowSlotNdxs = new Map(rowSlots.map((slot, i) => <[number, number]>[slot.ndx, i]));
+      this.colSlotNdxs = new Map(colSlots.map((slot, i) => <[number, number]>[slot.ndx, i]));
+      this.colSlotCount = colSlots.length;
+      this.a = new Uint8Array(rowSlots.length * colSlots.length); }
+   public has (rowNdx: number, colNdx: number) : boolean {
+      const rowSlotNdx = this.rowSlotNdxs.get(rowNdx);
+      const colSlotNdx = this.colSlotNdxs.get(colNdx);
+      return rowSlotNdx != undefined && colSlotNdx != undefined && this.a[rowSlotNdx * this.colSlotCount + colSlotNdx] != 0; }
+   public add (span: CellSpan) {
+      for (let rowNdx = span.rowNdx; rowNdx < span.rowNdx + span.rowSpan; rowNdx++) {
+         const rowSlotNdx = this.rowSlotNdxs.get(rowNdx);
+         if (rowSlotNdx == undefined) {
+            continue; }
+         for (let colNdx = span.colNdx; colNdx < span.colNdx + span.colSpan; colNdx++) {
+            const colSlotNdx = this.colSlotNdxs.get(colNdx);
+            if (colSlotNdx != undefined) {
+               this.a[rowSlotNdx * this.colSlotCount + colSlotNdx] = 1; }}}}}
+
+// Returns the sum of the sizes in the range [startNdx..endNdx-1]. Undetermined sizes are measured.
+function sumSizes (a: SizeSource, startNdx: number, endNdx: number, measure: MeasureFunction | undefined, orientation: boolean) : number {
+   let sum = 0;
+   for (let i = startNdx; i < endNdx; i++) {
+      if (getSize(a, i) == -1) {
+         scanDistance(a, i, endNdx, 1, measure, orientation); }
+      sum += Math.max(0, getSize(a, i)); }
+   return sum; }
+
+// Converts a relative row or column index of a rendered state into an absolute row or column index.
+//
+// @param orientation
+//    false = horizontal (column index), true = vertical (row index)
+export function relToAbsNdx (lg: LayoutGeometry, relNdx: number, orientation: boolean) : number {
+   const frozen = orientation ? lg.frozenRows : lg.frozenCols;
+   const startNdx = orientation ? lg.viewportPosition.rowNdx : lg.viewportPosition.colNdx;
+   return (relNdx < frozen) ? relNdx : startNdx + relNdx - frozen; }
+
+// Converts an absolute row or column index into a relative row or column index of a rendered state.
+// Returns `undefined` if the row or column is not visible.
+//
+// @param orientation
+//    false = horizontal (column index), true = vertical (row index)
+export function absToRelNdx (lg: LayoutGeometry, absNdx: number, orientation: boolean) : number | undefined {
+   const frozen = orientation ? lg.frozenRows : lg.frozenCols;
+   const startNdx = orientation ? lg.viewportPosition.rowNdx : lg.viewportPosition.colNdx;
+   const visible = orientation ? lg.visibleRows : lg.visibleCols;
+   if (absNdx < 0 || !Number.isInteger(absNdx)) {
+      return; }
+   if (absNdx < frozen) {
+      return absNdx; }
+   const relNdx = absNdx - startNdx + frozen;
+   if (relNdx < frozen || relNdx >= visible) {
+      return; }
+   return relNdx; }
+
+// Returns the rows or columns to be rendered. The visible rows/columns come first, followed by the overscan rows/columns.
+function buildLayoutSlots (lp: LayoutParms, lg: LayoutGeometry, orientation: boolean) : LayoutSlot[] {
+   const positions = orientation ? lg.rowYPositions : lg.colXPositions;
+   const visibleSizes = orientation ? lg.visibleRowHeights : lg.visibleColWidths;
+   const sizes = orientation ? lp.rowHeights : lp.colWidths;
+   const macroCellHeights = orientation ? lp.macroCellHeights : undefined;
+   const visibleMacroCellHeights = orientation ? lg.visibleMacroCellHeights : undefined;
+   const frozen = orientation ? lg.frozenRows : lg.frozenCols;
+   const visible = orientation ? lg.visibleRows : lg.visibleCols;
+   const pixelOffset = orientation ? lg.viewportPosition.rowPixelOffset : lg.viewportPosition.colPixelOffset;
+   const startNdx = orientation ? lg.viewportPosition.rowNdx : lg.viewportPosition.colNdx;
+   const before = orientation ? lg.overscanRowsBefore : lg.overscanColsBefore;
+   const after = orientation ? lg.overscanRowsAfter : lg.overscanColsAfter;
+   const slots: LayoutSlot[] = [];
+   for (let relNdx = 0; relNdx < visible; relNdx++) {
+      const ndx = relToAbsNdx(lg, relNdx, orientation);
+      const pos = getCellStartPos(positions, frozen, pixelOffset, relNdx);
+      const size = Math.max(0, visibleSizes[relNdx]);
+      const macroCellHeight = visibleMacroCellHeights ? Math.max(0, visibleMacroCellHeights[relNdx]) : 0;
+      slots.push({ndx, pos, size, macroCellHeight, frozen: relNdx < frozen, visible: true}); }
+   const endNdx = startNdx + visible - frozen;
+   let p = positions[visible];
+   for (let ndx = endNdx; ndx < endNdx + after; ndx++) {
+      const size = Math.max(0, getSize(sizes, ndx));
+      const macroCellHeight = macroCellHeights ? Math.max(0, getSize(macroCellHeights, ndx)) : 0;
+      slots.push({ndx, pos: p, size, macroCellHeight, frozen: false, visible: false});
+      p += size; }
+   p = getCellStartPos(positions, frozen, pixelOffset, frozen);
+   for (let ndx = startNdx - 1; ndx >= startNdx - before; ndx--) {
+      const size = Math.max(0, getSize(sizes, ndx));
+      const macroCellHeight = macroCellHeights ? Math.max(0, getSize(macroCellHeights, ndx)) : 0;
+      p -= size;
+      slots.push({ndx, pos: p, size, macroCellHeight, frozen: false, visible: false}); }
+   return slots; }
+
+// Determines the number of overscan rows or columns before and after the visible elements of the scrolling area.
+// The sizes of the overscan elements are measured.
+//
+// @param direction
+//    Scroll direction, 0 = render the overscan elements on both sides.
+function findOverscanRange (a: SizeSource, frozenCount: number, startNdx: number, endNdx: number, overscan: number, direction: number, measure: MeasureFunction | undefined, orientation: boolean) : {before: number; after: number} {
+   if (overscan <= 0 || endNdx <= startNdx) {
+      return {before: 0, after: 0}; }
+   const before = Math.max(0, Math.min((direction < 0) ? 2 * overscan : (direction > 0) ? 0 : overscan, startNdx - frozenCount));
+   const after = Math.max(0, Math.min((direction > 0) ? 2 * overscan : (direction < 0) ? 0 : overscan, getSizeCount(a) - endNdx));
+   sumSizes(a, startNdx - before, startNdx, measure, orientation);
+   sumSizes(a, endNdx, endNdx + after, measure, orientation);
+   return {before, after}; }
+
+interface VisibleRange {
+   frozenEnd:                          number;                       // end index of the visible frozen elements
+   end:                                number; }                     // end index of the visible elements of the scrolling area
+
+function findVisibleRange (a: SizeSource, frozenCount: number, startNdx: number, pixelOffset: number, viewportSize: number, measure: MeasureFunction | undefined, orientation: boolean) : VisibleRange {
+   const n = getSizeCount(a);
+   const frozenEnd = scanDistance(a, 0, Math.min(frozenCount, n), viewportSize, measure, orientation);
+   let frozenSize = 0;
+   for (let i = 0; i < frozenEnd; i++) {
+      frozenSize += Math.max(0, getSize(a, i)); }
+   if (frozenSize >= viewportSize) {                                 // the frozen elements fill the whole viewport
+      return {frozenEnd, end: startNdx}; }
+   const end = scanDistance(a, startNdx, n, pixelOffset + viewportSize - frozenSize, measure, orientation);
+   return {frozenEnd, end}; }
+
+// Returns the sizes of the visible frozen elements followed by the sizes of the visible elements of the scrolling area.
+function sliceVisibleRange (a: SizeSource, range: VisibleRange, startNdx: number) : Float64Array {
+   const r = new Float64Array(range.frozenEnd + range.end - startNdx);
+   for (let i = 0; i < range.frozenEnd; i++) {
+      r[i] = getSize(a, i); }
+   for (let i = startNdx; i < range.end; i++) {
+      r[range.frozenEnd + i - startNdx] = getSize(a, i); }
+   return r; }
+
+// Computes the element positions relative to the viewport.
+// The first element of the scrolling area is clipped at the end of the frozen elements.
+// A `Float64Array` is used, because the positions may exceed the range of the size arrays, e.g. for large pixel offsets.
+function integrateSizes (sizes: Float64Array, frozenCount: number, pixelOffset: number) : Float64Array {
+   const n = sizes.length;
+   const a = new Float64Array(n + 1);
+   let p = (frozenCount > 0) ? 0 : -pixelOffset;
+   for (let i = 0; i < n; i++) {
+      a[i] = p;
+      const size = Math.max(0, sizes[i]);
+      p += (frozenCount > 0 && i == frozenCount) ? Math.max(0, size - pixelOffset) : size; }
+   a[n] = p;
+   return a; }
+
+// Returns the unclipped start position of a cell.
+function getCellStartPos (positions: Float64Array, frozenCount: number, pixelOffset: number, relNdx: number) : number {
+   const p = positions[relNdx];
+   return (frozenCount > 0 && relNdx == frozenCount) ? p - pixelOffset : p; }
+
+// Returns the relative index of the row or column that contains a position, or `undefined` if the position lies before the first row or column.
+// `positions` are the start positions of the rendered rows or columns, e.g. `LayoutGeometry.rowYPositions`.
+export function scanPos (positions: Float64Array, pos: number) : number | undefined {
+   const n = positions.length;
+   for (let i = 0; i < n; i++) {
+      if (pos >= positions[i] && (i + 1 >= n || pos < positions[i + 1])) {
+         return i; }}
+   return undefined; }
+
+function scanDistance (a: SizeSource, startNdx: number, endNdx: number, distance: number, measure: MeasureFunction | undefined, orientation: boolean) : number {
+   let i = startNdx;
+   let d = 0;
+   while (d < distance && i < endNdx) {
+      let w = getSize(a, i);
+      if (w == -1) {                                                 // undetermined height/width
+         if (!measure) {
+            throw new Error("Undetermined `rowHeights`/`colWidths` value encountered but `measure` function is undefined."); }
+         const len = Math.min(25, endNdx - i);
+         measure(i, len, orientation);
+         w = getSize(a, i);
+         if (w == -1) {
+            throw new Error("`rowHeights`/`colWidths` value stayed undetermined even after `measure` function was called."); }}
+      d += Math.max(0, w);
+      i++; }
+   return i; }
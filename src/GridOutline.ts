@@ -0,0 +1,231 @@
+// Row outline (grouping) for grids.
+
+// This module implements an outline model for hierarchical data (tree tables), which is layered on top of the layout.
+// The data rows are in depth-first order. A group consists of a header row and the directly following rows up to
+// the end of the group. Groups can be nested and can be collapsed and expanded. When a group is collapsed, the rows
+// after its header row are hidden.
+//
+// The layout controller and `GridScroll` only see the visible rows. The outline maps the visible row indexes
+// to data row indexes:
+// - `createRowSizeProvider()` returns the row heights (or macro cell heights) of the visible rows, for
+//   `RenderParms.rowHeights`/`macroCellHeights` and `GridScroll.InputParms.elementSizes`.
+// - `visibleRowCount` is used as `GridScroll.InputParms.elementCount`.
+// - `adaptPrepareCell()` wraps a `prepareCell` function that receives data row indexes, the depth and the expander state.
+// Other callbacks that receive row indexes (e.g. `measure`, `getCellSpan`) receive visible row indexes and can use
+// `toDataRowNdx()` to map them.
+
+import {CellType, ViewportPosition, PrepareCellFunction} from "./GridLayout";
+import {SizeProvider, SizeSource, getSize} from "./GridSizeProvider";
+
+export const enum ExpanderState {
+   none,                     // the row is not the header row of a group
+   expanded,                 // the row is the header row of an expanded group
+   collapsed }               // the row is the header row of a collapsed group
+
+export interface OutlineRowInfo {
+   dataRowNdx:                         number;                       // data row index
+   depth:                              number;                       // nesting depth of the row, 0 = top level
+   expander:                           ExpanderState; }              // expander state of the row
+
+// Function to create and/or prepare a cell element of an outline.
+// Same as `PrepareCellFunction`, but `rowNdx` is the data row index and the outline state of the row is passed in `rowInfo`.
+export type OutlinePrepareCellFunction = (cellType: CellType, rowNdx: number, colNdx: number, width: number, height: number, oldCell: HTMLElement | undefined, recycledCell: HTMLElement | undefined, rowInfo: OutlineRowInfo) => HTMLElement;
+
+interface Group {
+   headerNdx:                          number;                       // data row index of the header row
+   endNdx:                             number;                       // data row index of the last row of the group
+   collapsed:                          boolean; }
+
+// An outline of the data rows of a grid.
+//
+// Performance:
+// The mapping between visible and data row indexes is rebuilt lazily on the first access after a change
+// (`addGroup()`, `removeGroup()`, `clear()`, collapsing or expanding). Rebuilding takes O(rowCount) time and allocates
+// two `Int32Array`s of `rowCount` entries, independent of the number of groups and of the size of the changed group.
+// Each access after a rebuild (e.g. `toDataRowNdx()`) is O(1), `toVisibleRowNdx()` is O(log rowCount).
+// With millions of rows, several changes should therefore be made before the grid is rendered again, e.g. with
+// `setAllCollapsed()` instead of toggling the groups one by one. `addGroup()` checks the nesting against all existing
+// groups in O(groups).
+export class Outline {
+
+   private rowCount:                   number;                       // number of data rows
+   private groups:                     Map<number, Group> = new Map();                   // groups, indexed by the data row index of the header row
+   private visibleRows?:               Int32Array;                   // data row indexes of the visible rows, ascending, `undefined` = not yet computed
+   private depths?:                    Int32Array;                   // nesting depths of the data rows
+
+   // @param rowCount
+   //    Number of data rows.
+   constructor (rowCount: number) {
+      this.rowCount = rowCount; }
+
+   // Adds a group.
+   // Groups must be nested properly, i.e. two groups are either disjoint or one lies within the other.
+   //
+   // @param headerNdx
+   //    Data row index of the header row of the group.
+   // @param endNdx
+   //    Data row index of the last row of the group.
+   public addGroup (headerNdx: number, endNdx: number, collapsed = false) {
+      if (headerNdx < 0 || endNdx <= headerNdx || endNdx >= this.rowCount) {
+         throw new Error("Invalid outline group range."); }
+      if (this.groups.has(headerNdx)) {
+         throw new Error("Duplicate outline group header row."); }
+      this.groups.forEach((g) => {
+         const disjoint = endNdx < g.headerNdx || headerNdx > g.endNdx;
+         const nested = (headerNdx > g.headerNdx && endNdx <= g.endNdx) || (g.headerNdx > headerNdx && g.endNdx <= endNdx);
+         if (!disjoint && !nested) {
+            throw new Error("Outline groups are not nested properly."); }});
+      this.groups.set(headerNdx, {headerNdx, endNdx, collapsed});
+      this.invalidate(); }
+
+   // Removes a group.
+   public removeGroup (headerNdx: number) {
+      if (this.groups.delete(headerNdx)) {
+         this.invalidate(); }}
+
+   // Removes all groups.
+   public clear() {
+      this.groups.clear();
+      this.invalidate(); }
+
+   // Returns the number of visible rows.
+   public get visibleRowCount() : number {
+      return this.getVisibleRows().length; }
+
+   // Maps a visible row index to a data row index.
+   public toDataRowNdx (visibleRowNdx: number) : number {
+      return this.getVisibleRows()[visibleRowNdx]; }
+
+   // Maps a data row index to a visible row index. Returns -1 if the row is hidden within a collapsed group.
+   public toVisibleRowNdx (dataRowNdx: number) : number {
+      const ndx = this.findVisibleRowNdx(dataRowNdx);
+      return (ndx >= 0 && this.getVisibleRows()[ndx] == dataRowNdx) ? ndx : -1; }
+
+   // Returns the outline state of a data row.
+   public getRowInfo (dataRowNdx: number) : OutlineRowInfo {
+      const group = this.groups.get(dataRowNdx);
+      const expander = !group ? ExpanderState.none : group.collapsed ? ExpanderState.collapsed : ExpanderState.expanded;
+      this.getVisibleRows();
+      return {dataRowNdx, depth: this.depths![dataRowNdx], expander}; }
+
+   // Returns true if the group with the specified header row is collapsed.
+   public isCollapsed (headerNdx: number) : boolean {
+      const group = this.groups.get(headerNdx);
+      return !!group && group.collapsed; }
+
+   // Collapses or expands a group.
+   //
+   // @param headerNdx
+   //    Data row index of the header row of the group.
+   // @param viewportPosition
+   //    The current viewport position of the grid, with visible row indexes.
+   // @returns
+   //    The viewport position, adjusted so that it stays anchored at the same data row, or `undefined` if no
+   //    viewport position has been passed. When the anchor row becomes hidden, the viewport position is moved
+   //    to the header row of the collapsed group.
+   public setCollapsed (headerNdx: number, collapsed: boolean, viewportPosition?: ViewportPosition) : ViewportPosition | undefined {
+      const group = this.groups.get(headerNdx);
+      return this.changeState(viewportPosition, () => {
+         if (group) {
+            group.collapsed = collapsed; }}); }
+
+   // Toggles the collapsed state of a group. See `setCollapsed()`.
+   public toggle (headerNdx: number, viewportPosition?: ViewportPosition) : ViewportPosition | undefined {
+      return this.setCollapsed(headerNdx, !this.isCollapsed(headerNdx), viewportPosition); }
+
+   // Collapses or expands all groups. See `setCollapsed()`.
+   public setAllCollapsed (collapsed: boolean, viewportPosition?: ViewportPosition) : ViewportPosition | undefined {
+      return this.changeState(viewportPosition, () => {
+         this.groups.forEach((g) => {
+            g.collapsed = collapsed; }); }); }
+
+   // Returns a size provider with the row heights or macro cell heights of the visible rows.
+   // The count of the size provider follows the number of visible rows.
+   //
+   // @param sizes
+   //    The sizes of the data rows.
+   public createRowSizeProvider (sizes: SizeSource) : SizeProvider {
+      return new OutlineSizeProvider(this, sizes); }
+
+   // Wraps a `prepareCell` function that works with data row indexes into a `PrepareCellFunction` for `RenderParms.prepareCell`.
+   // When a rendered cell is passed as `oldCell` but its visible row now shows another data row or another expander state,
+   // it is passed as `recycledCell` instead, so that its content is updated.
+   public adaptPrepareCell (prepareCell: OutlinePrepareCellFunction) : PrepareCellFunction {
+      const cellStates: WeakMap<HTMLElement, string> = new WeakMap();          // data row index and expander state of the prepared cells
+      return (cellType: CellType, rowNdx: number, colNdx: number, width: number, height: number, oldCell: HTMLElement | undefined, recycledCell?: HTMLElement) => {
+         const rowInfo = this.getRowInfo(this.toDataRowNdx(rowNdx));
+         const cellState = rowInfo.dataRowNdx + ":" + rowInfo.expander;
+         const isSameRow = !!oldCell && cellStates.get(oldCell) == cellState;
+         const cell = isSameRow ?
+            prepareCell(cellType, rowInfo.dataRowNdx, colNdx, width, height, oldCell, recycledCell, rowInfo) :
+            prepareCell(cellType, rowInfo.dataRowNdx, colNdx, width, height, undefined, oldCell || recycledCell, rowInfo);
+         cellStates.set(cell, cellState);
+         return cell; }; }
+
+   private changeState (viewportPosition: ViewportPosition | undefined, change: () => void) : ViewportPosition | undefined {
+      const anchorNdx = viewportPosition ? this.toDataRowNdx(viewportPosition.rowNdx) : undefined;
+      change();
+      this.invalidate();
+      if (!viewportPosition) {
+         return; }
+      if (anchorNdx == undefined) {                                  // the viewport position was outside of the visible rows
+         return {...viewportPosition, rowNdx: Math.max(0, Math.min(this.visibleRowCount - 1, viewportPosition.rowNdx))}; }
+      const rowNdx = this.toVisibleRowNdx(anchorNdx);
+      if (rowNdx >= 0) {
+         return {...viewportPosition, rowNdx}; }
+      return {...viewportPosition, rowNdx: Math.max(0, this.findVisibleRowNdx(anchorNdx)), rowPixelOffset: 0}; }
+
+   // Returns the visible row index of the last visible row with a data row index <= `dataRowNdx`, or -1.
+   private findVisibleRowNdx (dataRowNdx: number) : number {
+      const visibleRows = this.getVisibleRows();
+      let lo = 0;
+      let hi = visibleRows.length;
+      while (lo < hi) {
+         const mid = Math.floor((lo + hi) / 2);
+         if (visibleRows[mid] <= dataRowNdx) {
+            lo = mid + 1; }
+          else {
+            hi = mid; }}
+      return lo - 1; }
+
+   private invalidate() {
+      this.visibleRows = undefined;
+      this.depths = undefined; }
+
+   // Computes the visible rows and the depths of the data rows in O(rowCount), see the performance notes of the class.
+   private getVisibleRows() : Int32Array {
+      if (this.visibleRows) {
+         return this.visibleRows; }
+      const n = this.rowCount;
+      const visibleRows = new Int32Array(n);
+      const depths = new Int32Array(n);
+      const stack: Group[] = [];                                     // enclosing groups of the current row
+      let collapsedLevels = 0;                                       // number of collapsed groups in `stack`
+      let visibleCount = 0;
+      for (let ndx = 0; ndx < n; ndx++) {
+         while (stack.length > 0 && stack[stack.length - 1].endNdx < ndx) {
+            if (stack.pop()!.collapsed) {
+               collapsedLevels--; }}
+         depths[ndx] = stack.length;
+         if (collapsedLevels == 0) {
+            visibleRows[visibleCount++] = ndx; }
+         const group = this.groups.get(ndx);
+         if (group) {
+            stack.push(group);
+            if (group.collapsed) {
+               collapsedLevels++; }}}
+      this.visibleRows = visibleRows.subarray(0, visibleCount);
+      this.depths = depths;
+      return this.visibleRows; }}
+
+// A size provider that maps the visible rows of an outline to the sizes of the data rows.
+class OutlineSizeProvider implements SizeProvider {
+   private outline:          Outline;
+   private sizes:            SizeSource;                     // sizes of the data rows
+   constructor (outline: Outline, sizes: SizeSource) {
+      this.outline = outline;
+      this.sizes = sizes; }
+   public get count() : number {
+      return this.outline.visibleRowCount; }
+   public get (ndx: number) : number {
+      return getSize(this.sizes, this.outline.toDataRowNdx(ndx)); }}
@@ -1,12 +1,19 @@
-// Row/column resize logic for grids.
+// Row/column resize and reorder logic for grids.
 
-import {LayoutController} from "./GridLayout";
+import {LayoutController, RenderedState, RenderParms, ViewportPosition, CellType, relToAbsNdx, absToRelNdx, scanPos, getEstimatedSize, updateSizeIndex} from "./GridLayout";
+import * as GridScroll from "./GridScroll";
+import {getSizeCount, getSize} from "./GridSizeProvider";
+import {ScrollUnit, ScrollMode} from "./GridScroll";
+import {genScrollInputParms} from "./GridUtils";
 
 interface Point {x: number; y: number; }
 
+const longPressMoveTolerance = 8;                                    // pointer movement in pixels that cancels a long-press
+
 interface Boundary {                                                 // represents a row or column boundary that can be dragged
    ndx:                                number;                       // absolute row or column boundary index
-   orientation:                        boolean; }                    // false=horizontal, true=vertical
+   orientation:                        boolean;                      // false=horizontal, true=vertical
+   unhide?:                            boolean; }                    // true if the row/column before the boundary is hidden, i.e. the boundary is collapsed
 
 export interface ControllerParms {
    layoutController:                   LayoutController;             // the layout controller of the grid
@@ -14,11 +21,71 @@ export interface ControllerParms {
    colSizingEnabled:                   boolean;                      // true to enable column sizing
    rowSizingTopWidth:                  number;                       // horizontal resize handle width above row boundary
    rowSizingBottomWidth:               number;                       // horizontal resize handle width below row boundary
-   colSizingLeftWidth:                 number;                       // vertical resize handle width left of column boundary
-   colSizingRightWidth:                number;                       // vertical resize handle width right of column boundary
+   colSizingLeftWidth:                 number;                       // vertical resize handle width left of column boundary (right of it in RTL mode)
+   colSizingRightWidth:                number;                       // vertical resize handle width right of column boundary (left of it in RTL mode)
    rowSizingMaxCols?:                  number;                       // maximum active columns for row sizing
-   colSizingMaxRows?:                  number; }                     // maximum active rows for column sizing
+   colSizingMaxRows?:                  number;                       // maximum active rows for column sizing
+   touchSizingWidth?:                  number;                       // resize handle width on each side of a boundary for touch and pen pointers, default 12
+   longPressDelay?:                    number;                       // time in milliseconds a touch or pen pointer has to be held on a boundary to start resizing, default 500
+   minSize?:                           number;                       // minimum row height / column width for dragging and auto-fit, default 0
+   maxSize?:                           number;                       // maximum row height / column width for dragging and auto-fit
+   getMinSize?:                        SizeLimitFunction;            // returns the minimum size of an individual row/column, overrides `minSize`
+   getMaxSize?:                        SizeLimitFunction;            // returns the maximum size of an individual row/column, overrides `maxSize`
+   snapIncrement?:                     number;                       // when specified, dragged sizes are rounded to a multiple of this value
+   previewMode?:                       boolean;                      // true to show a guide line while dragging and only apply the new size on pointerup
+   getResizeGroup?:                    ResizeGroupFunction;          // returns the rows/columns that are resized together with the dragged row/column
+   proportionalMode?:                  boolean;                      // true to keep the total size fixed by resizing the next row/column in the opposite direction
+   autoFitEnabled?:                    boolean;                      // true to enable auto-fit by double-clicking a boundary
+   measureBestSize?:                   MeasureBestSizeFunction; }    // computes the best size for auto-fit, if not specified an `element-auto-fit` event is fired instead
+
+// Computes the best row height or column width for auto-fit.
+//
+// @param orientation
+//    false = column width, true = row height
+// @param ndx
+//    Row or column index.
+// @param cells
+//    The currently visible regular cells of the row or column, excluding merged cells.
+//    The function may measure these cells or sample the application data.
+// @returns
+//    The best size, or `undefined` to leave the size unchanged.
+export type MeasureBestSizeFunction = (orientation: boolean, ndx: number, cells: HTMLElement[]) => number | undefined;
+
+// Returns the minimum or maximum size of a row or column, or `undefined` to use the global limit.
+export type SizeLimitFunction = (orientation: boolean, ndx: number) => number | undefined;
+
+// Returns the indexes of the rows or columns that are resized together with the dragged row or column, e.g. the selected columns.
+// All rows/columns of the group are set to the size of the dragged row/column.
+// Returns `undefined` to resize only the dragged row/column.
+export type ResizeGroupFunction = (orientation: boolean, ndx: number) => Iterable<number> | undefined;
+
+export interface ResizeEntry {
+   ndx:                                number;                       // row or column index
+   size:                               number; }                     // new row height or column width
 
+// Events:
+// - `element-resize`: Row heights or column widths have to be changed. `event.detail` contains `orientation`, `ndx` and `size`
+//   of the dragged row/column, and `sizes`, an array of `ResizeEntry` with all changed rows/columns
+//   (including the resize group and, in proportional mode, the compensating neighbour). In live mode, this event is fired on every pointer move while dragging. In preview mode, it is only fired when the drag ends.
+//   It is also fired by auto-fit and when a live drag is cancelled, to restore the original size.
+// - `element-resize-start`: Dragging has started. `event.detail` contains `orientation`, `ndx`, `size` and `sizes` (the original sizes).
+// - `element-resize-preview`: The size has changed while dragging in preview mode. `event.detail` contains `orientation`, `ndx`, `size` and `sizes`.
+// - `element-resize-commit`: A drag or an auto-fit has completed with a changed size. `event.detail` contains
+//   `orientation`, `ndx`, `oldSize`, `size`, `oldSizes` and `sizes`. This event can be used to record undo information.
+// - `element-resize-cancel`: Dragging has been cancelled with the Escape key. `event.detail` contains `orientation`, `ndx`, `size` and `sizes` (the original sizes).
+// - `element-auto-fit`: A boundary has been double-clicked and no `measureBestSize` function has been specified.
+//   `event.detail` contains `orientation` and `ndx`. The application can compute the best size and apply it.
+// - `element-hide`: A drag has been committed with a size of 0, so the affected rows/columns are now hidden.
+//   `event.detail` contains `orientation`, `ndx` and `ndxs`, the indexes of the rows/columns that have been hidden.
+// - `element-unhide`: A collapsed boundary has been double-clicked. `event.detail` contains `orientation`, `ndx` and `ndxs`,
+//   the indexes of the consecutive hidden rows/columns before the boundary. The application should restore their sizes.
+//
+// Hidden rows and columns:
+// Rows and columns with a size of 0 are hidden. At a collapsed boundary, where the boundaries of hidden rows/columns
+// coincide, the zone before the boundary resizes the last non-hidden row/column before it and the zone after the
+// boundary is an "unhide" handle for the hidden row/column directly before the boundary. Dragging the unhide handle
+// resizes the hidden row/column from 0. While the unhide handle is shown, the resize handle element has the
+// additional class `virtual-grid-layout-gridResizeHandleUnhide`, which can be used for styling.
 export class ResizeController extends EventTarget {
 
    private controllerParms:            ControllerParms;
@@ -32,6 +99,20 @@ export class ResizeController extends EventTarget {
    private dragOrientation:            boolean;                      // false=horizontal, true=vertical
    private dragStartSize:              number;                       // row height or column width at start
    private dragStartPos:               number;
+   private dragSize:                   number;                       // current row height or column width
+   private dragNdxs:                   number[];                     // indexes of all affected rows/columns, starting with `dragNdx`
+   private dragNeighbourNdx?:          number;                       // index of the compensating row/column in proportional mode
+   private dragStartSizes:             number[];                     // sizes of the affected rows/columns at start
+   private dragSizes:                  number[];                     // current sizes of the affected rows/columns
+   private dragBoundaryPos:            number;                       // viewport position of the boundary at start
+
+   private guideElement?:              HTMLElement;                  // guide line in preview mode
+
+   private longPressTimerId?:          number;                       // timer for starting a resize by a long-press of a touch or pen pointer
+   private longPressPointerId:         number;
+   private longPressBoundary:          Boundary;
+   private longPressClientPoint:       Point;
+   private longPressScreenPoint:       Point;
 
    private resizeHandleElement?:       HTMLElement;
    private resizeHandleBoundary?:      Boundary;                     // undefined = resize handle element is not visible
@@ -42,39 +123,97 @@ export class ResizeController extends EventTarget {
       this.controllerParms = cp;
       this.layoutController = cp.layoutController;
       this.viewportElement = cp.layoutController.viewportElement;
+      this.viewportElement.addEventListener("pointerdown", this.viewport_pointerDownEventListener);
       this.viewportElement.addEventListener("pointermove", this.viewport_pointerMoveEventListener);
       this.viewportElement.addEventListener("pointerup", this.viewport_pointerUpEventListener);
+      this.viewportElement.addEventListener("pointercancel", this.viewport_pointerCancelEventListener);
+      this.viewportElement.addEventListener("lostpointercapture", this.viewport_pointerCancelEventListener);
       this.layoutController.addEventListener("render", this.layoutController_renderEventListener); }
 
    public dispose() {
       if (this.isDisposed) {
          return; }
       this.isDisposed = true;
+      this.cancelLongPress();
+      this.viewportElement.removeEventListener("pointerdown", this.viewport_pointerDownEventListener);
       this.viewportElement.removeEventListener("pointermove", this.viewport_pointerMoveEventListener);
       this.viewportElement.removeEventListener("pointerup", this.viewport_pointerUpEventListener);
+      this.viewportElement.removeEventListener("pointercancel", this.viewport_pointerCancelEventListener);
+      this.viewportElement.removeEventListener("lostpointercapture", this.viewport_pointerCancelEventListener);
       this.layoutController.removeEventListener("render", this.layoutController_renderEventListener);
       if (this.resizeHandleElement) {
          this.resizeHandleElement.removeEventListener("pointerdown", this.resizeHandle_pointerDownEventListener);
          this.resizeHandleElement.removeEventListener("pointermove", this.resizeHandle_pointerMoveEventListener);
+         this.resizeHandleElement.removeEventListener("dblclick", this.resizeHandle_dblClickEventListener);
          if (this.dragPointerId != undefined) {
             this.resizeHandleElement.releasePointerCapture(this.dragPointerId); }
          this.viewportElement.removeChild(this.resizeHandleElement);
-         this.resizeHandleElement = undefined; }}
+         this.resizeHandleElement = undefined; }
+      this.removeGuideElement();
+      document.removeEventListener("keydown", this.document_keyDownEventListener, true); }
 
    private layoutController_renderEventListener = () => {
       if (this.dragging && this.resizeHandleBoundary) {
          this.resizeHandlePositionValid = false;
          this.adjustResizeHandleElement(this.resizeHandleBoundary); }};
 
+   // Touch and pen pointers have no hover state, so resizing is started by a long-press on a boundary.
+   private viewport_pointerDownEventListener = (event: PointerEvent) => {
+      if (this.isDisposed || !this.layoutController.renderedState || event.pointerType == "mouse") {
+         return; }
+      if (!event.isPrimary || event.altKey || event.ctrlKey || event.metaKey || event.shiftKey || this.dragging || this.longPressTimerId != undefined) {
+         return; }
+      const point = this.layoutController.clientToViewportCoordinates(event.clientX, event.clientY);
+      const boundary = this.findBoundary2D(point, event.pointerType);
+      if (!boundary) {
+         return; }
+      const cp = this.controllerParms;
+      this.longPressPointerId = event.pointerId;
+      this.longPressBoundary = boundary;
+      this.longPressClientPoint = {x: event.clientX, y: event.clientY};
+      this.longPressScreenPoint = {x: event.screenX, y: event.screenY};
+      this.longPressTimerId = window.setTimeout(this.longPressTimerHandler, (cp.longPressDelay != undefined) ? cp.longPressDelay : 500); };
+
+   private longPressTimerHandler = () => {
+      this.longPressTimerId = undefined;
+      if (this.isDisposed || !this.layoutController.renderedState || this.dragging) {
+         return; }
+      this.adjustResizeHandleElement(this.longPressBoundary);
+      if (!this.resizeHandleBoundary) {
+         return; }
+      this.startDragging(this.longPressPointerId, this.longPressScreenPoint); };
+
+   private cancelLongPress() {
+      if (this.longPressTimerId == undefined) {
+         return; }
+      window.clearTimeout(this.longPressTimerId);
+      this.longPressTimerId = undefined; }
+
+   // Handles `pointercancel` and `lostpointercapture`. When the browser cancels the pointer of an active drag, the drag is cancelled.
+   // A `lostpointercapture` of another element (e.g. the viewport, when the resize handle takes over the pointer after a long-press)
+   // does not affect the drag.
+   private viewport_pointerCancelEventListener = (event: PointerEvent) => {
+      if (this.longPressTimerId != undefined && event.pointerId == this.longPressPointerId) {
+         this.cancelLongPress(); }
+      if (this.dragging && event.pointerId == this.dragPointerId && (event.type == "pointercancel" || event.target == this.resizeHandleElement)) {
+         this.stopDragging(false); }};
+
    private viewport_pointerMoveEventListener = (event: PointerEvent) => {
       if (this.isDisposed || !this.layoutController.renderedState) {
          return; }
+      if (this.longPressTimerId != undefined && event.pointerId == this.longPressPointerId) {
+         const distance = Math.max(Math.abs(event.clientX - this.longPressClientPoint.x), Math.abs(event.clientY - this.longPressClientPoint.y));
+         if (distance > longPressMoveTolerance) {
+            this.cancelLongPress(); }
+         return; }
+      if (event.pointerType != "mouse") {                            // (touch and pen pointers use the long-press instead of the hover state)
+         return; }
       if (!event.isPrimary || event.altKey || event.ctrlKey || event.metaKey || event.shiftKey || event.buttons) {
          return; }
       if (this.dragging) {
          return; }
-      const point = this.getRelativeCoordinates(event);
-      const boundary = this.findBoundary2D(point);
+      const point = this.layoutController.clientToViewportCoordinates(event.clientX, event.clientY);
+      const boundary = this.findBoundary2D(point, event.pointerType);
       this.adjustResizeHandleElement(boundary);
       if (boundary) {
          event.preventDefault(); }};
@@ -96,77 +235,267 @@ export class ResizeController extends EventTarget {
          return; }
       if (!this.resizeHandleBoundary || !this.resizeHandleElement || this.dragging) {
          return; }
-      this.startDragging(event);
+      this.startDragging(event.pointerId, {x: event.screenX, y: event.screenY});
       event.preventDefault(); };
 
    private viewport_pointerUpEventListener = (event: PointerEvent) => {
       if (this.isDisposed) {
          return; }
+      if (this.longPressTimerId != undefined && event.pointerId == this.longPressPointerId) {
+         this.cancelLongPress(); }
       if (this.dragging) {
-         this.stopDragging();
+         this.stopDragging(true);
          event.preventDefault(); }};
 
-   private startDragging (event: PointerEvent) {
+   private document_keyDownEventListener = (event: KeyboardEvent) => {
+      if (this.isDisposed || !this.dragging || event.key != "Escape") {
+         return; }
+      this.stopDragging(false);
+      event.stopPropagation();
+      event.preventDefault(); };
+
+   private resizeHandle_dblClickEventListener = (event: MouseEvent) => {
+      if (this.isDisposed || !this.layoutController.renderedState) {
+         return; }
+      if (event.altKey || event.ctrlKey || event.metaKey || event.shiftKey || event.button != 0) {
+         return; }
+      if (!this.resizeHandleBoundary || this.dragging) {
+         return; }
+      if (this.resizeHandleBoundary.unhide) {
+         this.requestUnhide(this.resizeHandleBoundary.ndx - 1, this.resizeHandleBoundary.orientation); }
+       else if (this.controllerParms.autoFitEnabled) {
+         this.autoFit(this.resizeHandleBoundary.ndx - 1, this.resizeHandleBoundary.orientation); }
+       else {
+         return; }
+      event.preventDefault(); };
+
+   // Fires an `element-unhide` event for the hidden row/column `ndx` and the hidden rows/columns directly before it.
+   private requestUnhide (ndx: number, orientation: boolean) {
+      const ndxs: number[] = [];
+      for (let i = ndx; i >= 0 && this.isHiddenElement(i, orientation); i--) {
+         ndxs.unshift(i); }
+      this.dispatchEvent(new CustomEvent("element-unhide", {detail: {orientation, ndx, ndxs}})); }
+
+   // Returns true if a row or column is hidden, i.e. its size is 0.
+   private isHiddenElement (ndx: number, orientation: boolean) : boolean {
+      const rp = this.layoutController.renderParms;
+      if (!rp || ndx < 0) {
+         return false; }
+      const sizes = orientation ? rp.rowHeights : rp.colWidths;
+      return ndx < getSizeCount(sizes) && getSize(sizes, ndx) == 0; }
+
+   private autoFit (ndx: number, orientation: boolean) {
+      const measureBestSize = this.controllerParms.measureBestSize;
+      if (!measureBestSize) {
+         this.dispatchEvent(new CustomEvent("element-auto-fit", {detail: {orientation, ndx}}));
+         return; }
+      const cells = getVisibleCells(this.layoutController.renderedState!, ndx, orientation);
+      const bestSize = measureBestSize(orientation, ndx, cells);
+      if (bestSize == undefined) {
+         return; }
       const rs = this.layoutController.renderedState!;
-      this.dragPointerId = event.pointerId;
+      const relNdx = absToRelNdx(rs, ndx, orientation);
+      const oldSize = (relNdx == undefined) ? undefined : orientation ? rs.visibleRowHeights[relNdx] : rs.visibleColWidths[relNdx];
+      const size = this.constrainSize(bestSize, orientation, ndx, false);
+      if (size == oldSize) {
+         return; }
+      const sizes = [{ndx, size}];
+      this.dispatchEvent(new CustomEvent("element-resize", {detail: {orientation, ndx, size, sizes}}));
+      const oldSizes = (oldSize == undefined) ? [] : [{ndx, size: oldSize}];
+      this.dispatchEvent(new CustomEvent("element-resize-commit", {detail: {orientation, ndx, oldSize, size, oldSizes, sizes}})); }
+
+   // Applies the snap increment and the min/max size constraints.
+   private constrainSize (size: number, orientation: boolean, ndx: number, snap: boolean) : number {
+      const cp = this.controllerParms;
+      const snapIncrement = cp.snapIncrement;
+      let size2 = (snap && snapIncrement && snapIncrement > 0) ? Math.round(size / snapIncrement) * snapIncrement : Math.round(size);
+      const minSize = cp.getMinSize ? cp.getMinSize(orientation, ndx) : undefined;
+      const maxSize = cp.getMaxSize ? cp.getMaxSize(orientation, ndx) : undefined;
+      if (maxSize != undefined) {
+         size2 = Math.min(maxSize, size2); }
+       else if (cp.maxSize != undefined) {
+         size2 = Math.min(cp.maxSize, size2); }
+      const minSize2 = (minSize != undefined) ? minSize : (cp.minSize != undefined) ? cp.minSize : 0;
+      return Math.max(minSize2, size2); }
+
+   // @param screenPoint
+   //    The start position of the pointer in screen coordinates.
+   private startDragging (pointerId: number, screenPoint: Point) {
+      const rs = this.layoutController.renderedState!;
+      this.cancelLongPress();
+      this.dragPointerId = pointerId;
       this.resizeHandleElement!.setPointerCapture(this.dragPointerId);
       this.dragNdx = this.resizeHandleBoundary!.ndx - 1;
       this.dragOrientation = this.resizeHandleBoundary!.orientation;
-      const vPos = rs.viewportPosition;
-      const relNdx = this.dragNdx - (this.dragOrientation ? vPos.rowNdx : vPos.colNdx);
-      const visibleElements = this.dragOrientation ? rs.visibleRows : rs.visibleCols;
-      if (relNdx < 0 || relNdx >= visibleElements) {
+      const relNdx = absToRelNdx(rs, this.dragNdx, this.dragOrientation);
+      if (relNdx == undefined) {
          console.log("`relNdx` out of range when starting to drag. This should not happen.");
          return; }
       this.dragStartSize = this.dragOrientation ? rs.visibleRowHeights[relNdx] : rs.visibleColWidths[relNdx];
-      this.dragStartPos = this.dragOrientation ? event.screenY : event.screenX;
-      this.dragging = true; }
+      this.dragStartPos = this.dragOrientation ? screenPoint.y : screenPoint.x;
+      this.dragSize = this.dragStartSize;
+      this.initResizeGroup();
+      this.dragBoundaryPos = this.dragOrientation ? rs.rowYPositions[relNdx + 1] : rs.colXPositions[relNdx + 1];
+      this.dragging = true;
+      document.addEventListener("keydown", this.document_keyDownEventListener, true);
+      this.dispatchEvent(new CustomEvent("element-resize-start", {detail: this.genResizeEventDetail(this.dragStartSizes)}));
+      if (this.controllerParms.previewMode) {
+         this.adjustGuideElement(); }}
 
-   private stopDragging() {
-      this.resizeHandleElement!.releasePointerCapture(this.dragPointerId!);
+   // Ends dragging. When `commit` is false, the drag is cancelled and the original size is restored.
+   private stopDragging (commit: boolean) {
+      if (this.resizeHandleElement!.hasPointerCapture(this.dragPointerId!)) {     // (the capture may already have been lost)
+         this.resizeHandleElement!.releasePointerCapture(this.dragPointerId!); }
       this.dragPointerId = undefined;
-      this.dragging = false; }
+      this.dragging = false;
+      document.removeEventListener("keydown", this.document_keyDownEventListener, true);
+      this.removeGuideElement();
+      const previewMode = this.controllerParms.previewMode;
+      const changed = this.dragSize != this.dragStartSize;
+      if (!commit) {
+         if (!previewMode && changed) {
+            this.dispatchEvent(new CustomEvent("element-resize", {detail: this.genResizeEventDetail(this.dragStartSizes)})); }
+         this.dispatchEvent(new CustomEvent("element-resize-cancel", {detail: this.genResizeEventDetail(this.dragStartSizes)}));
+         return; }
+      if (!changed) {
+         return; }
+      if (previewMode) {
+         this.dispatchEvent(new CustomEvent("element-resize", {detail: this.genResizeEventDetail(this.dragSizes)})); }
+      const oldDetail = this.genResizeEventDetail(this.dragStartSizes);
+      const newDetail = this.genResizeEventDetail(this.dragSizes);
+      const commitEventDetail = {...newDetail, oldSize: oldDetail.size, oldSizes: oldDetail.sizes};
+      this.dispatchEvent(new CustomEvent("element-resize-commit", {detail: commitEventDetail}));
+      const hiddenNdxs = this.dragNdxs.filter((_ndx, i) => this.dragSizes[i] == 0 && this.dragStartSizes[i] > 0);
+      if (hiddenNdxs.length > 0) {
+         this.dispatchEvent(new CustomEvent("element-hide", {detail: {orientation: this.dragOrientation, ndx: this.dragNdx, ndxs: hiddenNdxs}})); }}
 
    private performDragging (event: PointerEvent) {
       const pos = this.dragOrientation ? event.screenY : event.screenX;
-      const delta = pos - this.dragStartPos;
-      const size = Math.max(0, this.dragStartSize + delta);
-      const resizeEventDetail = {orientation: this.dragOrientation, ndx: this.dragNdx, size};
-      this.dispatchEvent(new CustomEvent("element-resize", {detail: resizeEventDetail})); }
-
-   private getRelativeCoordinates (event: PointerEvent) : Point {
-      const element = this.viewportElement;
-      const rect = element.getBoundingClientRect();
-      const x = event.clientX - rect.left - element.clientLeft;
-      const y = event.clientY - rect.top  - element.clientTop;
-      return {x, y}; }
+      const delta = (pos - this.dragStartPos) * ((!this.dragOrientation && this.isRtl()) ? -1 : 1);    // (in RTL mode, columns grow to the left)
+      let size = this.constrainSize(this.dragStartSize + delta, this.dragOrientation, this.dragNdx, true);
+      if (this.dragNeighbourNdx != undefined) {
+         size = this.limitProportionalSize(size); }
+      if (size == this.dragSize) {
+         return; }
+      this.dragSize = size;
+      this.dragSizes = this.computeGroupSizes(size);
+      if (this.controllerParms.previewMode) {
+         this.adjustGuideElement();
+         this.dispatchEvent(new CustomEvent("element-resize-preview", {detail: this.genResizeEventDetail(this.dragSizes)})); }
+       else {
+         this.dispatchEvent(new CustomEvent("element-resize", {detail: this.genResizeEventDetail(this.dragSizes)})); }}
+
+   // Determines the rows/columns that are affected by dragging `dragNdx`.
+   private initResizeGroup() {
+      const cp = this.controllerParms;
+      const rp = this.layoutController.renderParms!;
+      const orientation = this.dragOrientation;
+      const elementCount = getSizeCount(orientation ? rp.rowHeights : rp.colWidths);
+      const group = cp.getResizeGroup ? cp.getResizeGroup(orientation, this.dragNdx) : undefined;
+      const ndxSet = new Set<number>();
+      ndxSet.add(this.dragNdx);
+      if (group) {
+         for (const ndx of group) {
+            if (Number.isInteger(ndx) && ndx >= 0 && ndx < elementCount) {
+               ndxSet.add(ndx); }}}
+      this.dragNdxs = Array.from(ndxSet);
+      this.dragNeighbourNdx = undefined;
+      if (cp.proportionalMode) {
+         let neighbourNdx = this.dragNdx + 1;
+         while (ndxSet.has(neighbourNdx)) {
+            neighbourNdx++; }
+         if (neighbourNdx < elementCount) {
+            this.dragNeighbourNdx = neighbourNdx;
+            this.dragNdxs.push(neighbourNdx); }}
+      this.dragStartSizes = this.dragNdxs.map((ndx) => (ndx == this.dragNdx) ? this.dragStartSize : getElementSize(rp, ndx, orientation));
+      this.dragSizes = this.dragStartSizes.slice(); }
+
+   // Computes the sizes of the affected rows/columns for a new size of the dragged row/column.
+   private computeGroupSizes (size: number) : number[] {
+      const orientation = this.dragOrientation;
+      const sizes: number[] = [];
+      let delta = 0;
+      for (let i = 0; i < this.dragNdxs.length; i++) {
+         const ndx = this.dragNdxs[i];
+         if (ndx == this.dragNeighbourNdx) {
+            sizes.push(this.dragStartSizes[i] - delta);
+            continue; }
+         const size2 = (ndx == this.dragNdx) ? size : this.constrainSize(size, orientation, ndx, false);
+         delta += size2 - this.dragStartSizes[i];
+         sizes.push(size2); }
+      return sizes; }
+
+   // In proportional mode, limits the size of the dragged row/column so that the compensating neighbour stays within its size limits.
+   private limitProportionalSize (size: number) : number {
+      const neighbourPos = this.dragNdxs.length - 1;
+      const isValid = (size2: number) => {
+         const neighbourSize = this.computeGroupSizes(size2)[neighbourPos];
+         return neighbourSize == this.constrainSize(neighbourSize, this.dragOrientation, this.dragNeighbourNdx!, false); };
+      if (isValid(size)) {
+         return size; }
+      let lo = this.dragStartSize;                                   // (the neighbour size is valid at the start size)
+      let hi = size;
+      while (Math.abs(hi - lo) > 1) {                                // binary search for the limit, the group size change is monotonic
+         const mid = Math.round((lo + hi) / 2);
+         if (isValid(mid)) {
+            lo = mid; }
+          else {
+            hi = mid; }}
+      return lo; }
+
+   private genResizeEventDetail (sizes: number[]) {
+      const entries: ResizeEntry[] = this.dragNdxs.map((ndx, i) => ({ndx, size: sizes[i]}));
+      return {orientation: this.dragOrientation, ndx: this.dragNdx, size: sizes[0], sizes: entries}; }
+
+   // Positions the guide line at the new boundary position in preview mode.
+   private adjustGuideElement() {
+      const rs = this.layoutController.renderedState!;
+      if (!this.guideElement) {
+         this.guideElement = document.createElement("div");
+         this.guideElement.className = "virtual-grid-layout-gridResizeGuide";
+         this.guideElement.style.position = "absolute";
+         this.guideElement.style.zIndex = "99";
+         this.guideElement.style.pointerEvents = "none";
+         this.viewportElement.appendChild(this.guideElement); }
+      const pos = this.dragBoundaryPos + this.dragSize - this.dragStartSize;
+      setDragElementRect(this.guideElement, rs, this.dragOrientation, pos, 1, this.isRtl()); }
+
+   private removeGuideElement() {
+      if (!this.guideElement) {
+         return; }
+      this.viewportElement.removeChild(this.guideElement);
+      this.guideElement = undefined; }
 
    // Find row/column boundary associated with a coordinate point.
-   private findBoundary2D (point: Point) : Boundary | undefined {
+   // For touch and pen pointers, the larger `touchSizingWidth` is used for the hit zones.
+   private findBoundary2D (point: Point, pointerType: string) : Boundary | undefined {
       const cp = this.controllerParms;
       const rs = this.layoutController.renderedState!;
+      const touchWidth = (pointerType == "touch" || pointerType == "pen") ? ((cp.touchSizingWidth != undefined) ? cp.touchSizingWidth : 12) : undefined;
       if (cp.colSizingEnabled) {
-         const ndx = this.findBoundary1D(point.x, rs.colXPositions, rs.viewportPosition.colNdx, cp.colSizingLeftWidth, cp.colSizingRightWidth);
+         const ndx = this.findBoundary1D(point.x, rs, false, touchWidth || cp.colSizingLeftWidth, touchWidth || cp.colSizingRightWidth);
          if (ndx != undefined && this.isVerticalPositionActiveForHorizontalSizing(point.y)) {
-            return {ndx, orientation: false}; }}
+            return {ndx, orientation: false, unhide: this.isHiddenElement(ndx - 1, false)}; }}
       if (cp.rowSizingEnabled) {
-         const ndx = this.findBoundary1D(point.y, rs.rowYPositions, rs.viewportPosition.rowNdx, cp.rowSizingTopWidth, cp.rowSizingBottomWidth);
+         const ndx = this.findBoundary1D(point.y, rs, true, touchWidth || cp.rowSizingTopWidth, touchWidth || cp.rowSizingBottomWidth);
          if (ndx != undefined && this.isHorizontalPositionActiveForVerticalSizing(point.x)) {
-            return {ndx, orientation: true}; }}
+            return {ndx, orientation: true, unhide: this.isHiddenElement(ndx - 1, true)}; }}
       return undefined; }
 
-   private findBoundary1D (position: number, positions: Int16Array, startNdx: number, width1: number, width2: number) : (number | undefined) {
+   private findBoundary1D (position: number, rs: RenderedState, orientation: boolean, width1: number, width2: number) : (number | undefined) {
+      const positions = orientation ? rs.rowYPositions : rs.colXPositions;
       const relNdx = scanPos(positions, position);
       if (relNdx == undefined) {
          return; }
-      const absNdx = startNdx + relNdx;
       const offset2 = position - positions[relNdx];                  // offset right or below of boundary
-      if (offset2 < width2 && relNdx > 0 && absNdx > 0) {
-         return absNdx; }
+      if (offset2 < width2 && relNdx > 0) {
+         const absNdx = getBoundaryNdx(rs, relNdx, orientation);
+         if (absNdx > 0) {
+            return absNdx; }}
       if (relNdx < positions.length - 1) {
          const offset1 = positions[relNdx + 1] - position;           // offset left or above boundary
          if (offset1 < width1) {
-            return absNdx + 1; }}
+            return getBoundaryNdx(rs, relNdx + 1, orientation); }}
       return undefined; }
 
    private isVerticalPositionActiveForHorizontalSizing (y: number) : boolean {
@@ -206,7 +535,8 @@ export class ResizeController extends EventTarget {
             this.resizeHandleElement.style.display = "none"; }
          this.resizeHandleBoundary = undefined;
          return; }
-      if (this.resizeHandlePositionValid && this.resizeHandleBoundary && this.resizeHandleBoundary.ndx == boundary.ndx && this.resizeHandleBoundary.orientation == boundary.orientation) {
+      if (this.resizeHandlePositionValid && this.resizeHandleBoundary && this.resizeHandleBoundary.ndx == boundary.ndx && this.resizeHandleBoundary.orientation == boundary.orientation &&
+            !!this.resizeHandleBoundary.unhide == !!boundary.unhide) {
          return; }
       if (!this.resizeHandleElement) {
          this.resizeHandleElement = document.createElement("div");
@@ -215,31 +545,383 @@ export class ResizeController extends EventTarget {
          this.resizeHandleElement.style.zIndex = "99";
          this.resizeHandleElement.addEventListener("pointerdown", this.resizeHandle_pointerDownEventListener);
          this.resizeHandleElement.addEventListener("pointermove", this.resizeHandle_pointerMoveEventListener);
+         this.resizeHandleElement.addEventListener("dblclick", this.resizeHandle_dblClickEventListener);
          this.viewportElement.appendChild(this.resizeHandleElement); }
       const style = this.resizeHandleElement.style;
       style.display = "";
+      const relBoundaryNdx = absToRelNdx(rs, boundary.ndx - 1, boundary.orientation);
+      if (relBoundaryNdx == undefined) {                             // boundary not visible
+         return; }
+      // At a collapsed boundary, the handles before and after the boundary must not overlap.
+      const unhide = !!boundary.unhide;
+      const collapsedAfter = this.isHiddenElement(boundary.ndx, boundary.orientation);
+      this.resizeHandleElement.classList.toggle("virtual-grid-layout-gridResizeHandleUnhide", unhide);
       if (boundary.orientation) {
-         const y = rs.rowYPositions[boundary.ndx - rs.viewportPosition.rowNdx];
-         style.top = (y - cp.rowSizingTopWidth) + "px";
-         style.height = (cp.rowSizingTopWidth + cp.rowSizingBottomWidth) + "px";
-         style.left = "0";
+         const y = rs.rowYPositions[relBoundaryNdx + 1];
+         const width1 = unhide ? 0 : cp.rowSizingTopWidth;
+         const width2 = collapsedAfter ? 0 : cp.rowSizingBottomWidth;
+         style.top = (y - width1) + "px";
+         style.height = (width1 + width2) + "px";
+         setHorizontalPosition(style, 0, this.isRtl());
          style.width = rs.viewportWidth + "px";
-         style.cursor = "row-resize"; }
+         style.cursor = unhide ? "ns-resize" : "row-resize"; }
        else {
-         const x = rs.colXPositions[boundary.ndx - rs.viewportPosition.colNdx];
-         style.left = (x - cp.colSizingLeftWidth) + "px";
-         style.width = (cp.colSizingLeftWidth + cp.colSizingRightWidth) + "px";
+         const x = rs.colXPositions[relBoundaryNdx + 1];
+         const width1 = unhide ? 0 : cp.colSizingLeftWidth;
+         const width2 = collapsedAfter ? 0 : cp.colSizingRightWidth;
+         setHorizontalPosition(style, x - width1, this.isRtl());
+         style.width = (width1 + width2) + "px";
          style.top = "0";
          style.height = rs.viewportHeight + "px";
-         style.cursor = "col-resize"; }
+         style.cursor = unhide ? "ew-resize" : "col-resize"; }
       this.resizeHandleBoundary = boundary;
       this.resizeHandlePositionValid = true; }
 
+   private isRtl() : boolean {
+      return this.layoutController.direction == "rtl"; }
+
+   }
+
+//--- Reorder ------------------------------------------------------------------
+
+const reorderDragThreshold = 4;                                      // pointer movement in pixels before a reorder drag starts
+const autoScrollInterval = 50;                                       // auto-scroll timer interval in milliseconds
+const autoScrollPixelIncr = 10;                                      // auto-scroll increment in pixels per timer tick, in pixel scroll mode
+
+export interface ReorderControllerParms {
+   layoutController:                   LayoutController;             // the layout controller of the grid
+   rowReorderEnabled:                  boolean;                      // true to enable row reordering
+   colReorderEnabled:                  boolean;                      // true to enable column reordering
+   rowReorderCols?:                    number;                       // number of leading columns that act as drag sources for row reordering, default 1
+   colReorderRows?:                    number;                       // number of leading rows that act as drag sources for column reordering, default 1
+   indicatorWidth?:                    number;                       // width of the insertion indicator in pixels, default 2
+   autoScrollMargin?:                  number;                       // distance from the viewport edge in pixels at which auto-scrolling starts, default 24
+   scrollMode?:                        ScrollMode; }                 // scroll mode used for auto-scrolling, default is `snap`
+
+// The reorder controller allows the user to move a row or column by dragging one of its leading cells
+// (normally a header cell) to a new position.
+//
+// The reorder controller must be created before a `SelectionController` on the same viewport, so that it can
+// claim the `pointerdown` event first.
+//
+// During the drag, two elements are shown within the viewport element, which can be styled by the application:
+// - `virtual-grid-layout-reorderGhost`: A rectangle that follows the pointer and has the size of the dragged row or column.
+// - `virtual-grid-layout-reorderIndicator`: A thin line at the boundary where the row or column will be inserted.
+//
+// Events:
+// - `element-move`: A row or column has been moved. `event.detail` contains `orientation`, `sourceNdx` and `targetNdx`,
+//   where `targetNdx` is the new index of the moved row or column. The application should permute its size arrays and
+//   data accordingly and re-render the grid.
+// - `viewport-position-change`: The viewport has to be scrolled because the pointer is near the viewport edge.
+//   `event.detail` is the new `ViewportPosition`. The application should adjust its scrollbars and re-render the grid.
+// Frozen rows/columns can only be moved within the frozen area, and scrolling rows/columns only within the scrolling area.
+export class ReorderController extends EventTarget {
+
+   private controllerParms:            ReorderControllerParms;
+   private layoutController:           LayoutController;
+   private viewportElement:            HTMLElement;
+   private isDisposed:                 boolean = false;
+
+   private dragPointerId?:             number;                       // ID of captured pointer, `undefined` = no capture
+   private dragging:                   boolean = false;              // true while dragging, false while the pointer has not yet moved beyond the threshold
+   private dragOrientation:            boolean;                      // false=horizontal (column), true=vertical (row)
+   private dragSourceNdx:              number;                       // absolute index of the dragged row or column
+   private dragSourceSize:             number;                       // row height or column width of the dragged element
+   private dragGrabOffset:             number;                       // pointer offset within the dragged element at the start
+   private dragStartPoint:             Point;                        // pointer position at pointerdown, relative to the viewport
+   private dragPoint:                  Point;                        // current pointer position, relative to the viewport
+   private dragTargetNdx?:             number;                       // boundary index where the element will be inserted, `undefined` = no valid target
+
+   private ghostElement?:              HTMLElement;
+   private indicatorElement?:          HTMLElement;
+   private autoScrollTimerId?:         number;
+
+   constructor (cp: ReorderControllerParms) {
+      super();
+      this.controllerParms = cp;
+      this.layoutController = cp.layoutController;
+      this.viewportElement = cp.layoutController.viewportElement;
+      this.viewportElement.addEventListener("pointerdown", this.viewport_pointerDownEventListener);
+      this.viewportElement.addEventListener("pointermove", this.viewport_pointerMoveEventListener);
+      this.viewportElement.addEventListener("pointerup", this.viewport_pointerUpEventListener);
+      this.viewportElement.addEventListener("pointercancel", this.viewport_pointerCancelEventListener);
+      this.viewportElement.addEventListener("lostpointercapture", this.viewport_pointerCancelEventListener);
+      this.layoutController.addEventListener("render", this.layoutController_renderEventListener); }
+
+   public dispose() {
+      if (this.isDisposed) {
+         return; }
+      this.isDisposed = true;
+      this.viewportElement.removeEventListener("pointerdown", this.viewport_pointerDownEventListener);
+      this.viewportElement.removeEventListener("pointermove", this.viewport_pointerMoveEventListener);
+      this.viewportElement.removeEventListener("pointerup", this.viewport_pointerUpEventListener);
+      this.viewportElement.removeEventListener("pointercancel", this.viewport_pointerCancelEventListener);
+      this.viewportElement.removeEventListener("lostpointercapture", this.viewport_pointerCancelEventListener);
+      this.layoutController.removeEventListener("render", this.layoutController_renderEventListener);
+      this.stopDragging(); }
+
+   private layoutController_renderEventListener = () => {
+      if (this.dragging) {
+         this.updateDragElements(); }};
+
+   private viewport_pointerDownEventListener = (event: PointerEvent) => {
+      const rs = this.layoutController.renderedState;
+      if (this.isDisposed || !rs || this.dragPointerId != undefined) {
+         return; }
+      if (!event.isPrimary || event.altKey || event.ctrlKey || event.metaKey || event.shiftKey || event.button != 0 || event.defaultPrevented) {   // (`defaultPrevented` is set when the resize controller starts dragging)
+         return; }
+      if (event.pointerType == "touch") {                            // (touch drags are used for scrolling)
+         return; }
+      const point = this.layoutController.clientToViewportCoordinates(event.clientX, event.clientY);
+      const source = this.findDragSource(point);
+      if (!source) {
+         return; }
+      const relNdx = absToRelNdx(rs, source.ndx, source.orientation);
+      if (relNdx == undefined) {
+         return; }
+      const positions = source.orientation ? rs.rowYPositions : rs.colXPositions;
+      const sizes = source.orientation ? rs.visibleRowHeights : rs.visibleColWidths;
+      const frozenCount = source.orientation ? rs.frozenRows : rs.frozenCols;
+      const pixelOffset = source.orientation ? rs.viewportPosition.rowPixelOffset : rs.viewportPosition.colPixelOffset;
+      const elementPos = (relNdx == frozenCount) ? positions[relNdx] - pixelOffset : positions[relNdx];
+      this.dragOrientation = source.orientation;
+      this.dragSourceNdx = source.ndx;
+      this.dragSourceSize = Math.max(0, sizes[relNdx]);
+      this.dragGrabOffset = (source.orientation ? point.y : point.x) - elementPos;
+      this.dragStartPoint = point;
+      this.dragPoint = point;
+      this.dragTargetNdx = undefined;
+      this.dragPointerId = event.pointerId;
+      this.viewportElement.setPointerCapture(this.dragPointerId);
+      event.preventDefault(); };
+
+   private viewport_pointerMoveEventListener = (event: PointerEvent) => {
+      if (this.isDisposed || this.dragPointerId != event.pointerId || !this.layoutController.renderedState) {
+         return; }
+      this.dragPoint = this.layoutController.clientToViewportCoordinates(event.clientX, event.clientY);
+      if (!this.dragging) {
+         const distance = Math.max(Math.abs(this.dragPoint.x - this.dragStartPoint.x), Math.abs(this.dragPoint.y - this.dragStartPoint.y));
+         if (distance < reorderDragThreshold) {
+            return; }
+         this.dragging = true; }
+      this.updateDragElements();
+      this.updateAutoScroll();
+      event.preventDefault(); };
+
+   private viewport_pointerUpEventListener = (event: PointerEvent) => {
+      if (this.isDisposed || this.dragPointerId != event.pointerId) {
+         return; }
+      const wasDragging = this.dragging;
+      const sourceNdx = this.dragSourceNdx;
+      const targetBoundaryNdx = this.dragTargetNdx;
+      this.stopDragging();
+      event.preventDefault();
+      if (!wasDragging || targetBoundaryNdx == undefined) {
+         return; }
+      const targetNdx = (targetBoundaryNdx > sourceNdx) ? targetBoundaryNdx - 1 : targetBoundaryNdx;
+      if (targetNdx == sourceNdx) {
+         return; }
+      const moveEventDetail = {orientation: this.dragOrientation, sourceNdx, targetNdx};
+      this.dispatchEvent(new CustomEvent("element-move", {detail: moveEventDetail})); };
+
+   // Handles `pointercancel` and `lostpointercapture`. When the browser cancels the pointer of a drag, the drag is cancelled without moving the element.
+   private viewport_pointerCancelEventListener = (event: PointerEvent) => {
+      if (this.dragPointerId != undefined && event.pointerId == this.dragPointerId) {
+         this.stopDragging(); }};
+
+   private stopDragging() {
+      this.stopAutoScroll();
+      if (this.dragPointerId != undefined) {
+         if (this.viewportElement.hasPointerCapture(this.dragPointerId)) {          // (the capture may already have been lost)
+            this.viewportElement.releasePointerCapture(this.dragPointerId); }
+         this.dragPointerId = undefined; }
+      this.dragging = false;
+      this.dragTargetNdx = undefined;
+      if (this.ghostElement) {
+         this.viewportElement.removeChild(this.ghostElement);
+         this.ghostElement = undefined; }
+      if (this.indicatorElement) {
+         this.viewportElement.removeChild(this.indicatorElement);
+         this.indicatorElement = undefined; }}
+
+   // Returns the row or column that is dragged when the pointer is pressed at the specified point.
+   private findDragSource (point: Point) : Boundary | undefined {
+      const cp = this.controllerParms;
+      const hit = this.layoutController.hitTest(point.x, point.y);
+      if (!hit || hit.cellType != CellType.regular) {
+         return; }
+      const inColSource = cp.colReorderEnabled && hit.rowNdx < ((cp.colReorderRows != undefined) ? cp.colReorderRows : 1);
+      const inRowSource = cp.rowReorderEnabled && hit.colNdx < ((cp.rowReorderCols != undefined) ? cp.rowReorderCols : 1);
+      if (inColSource == inRowSource) {                              // (the corner cells are ambiguous)
+         return; }
+      return inColSource ? {ndx: hit.colNdx, orientation: false} : {ndx: hit.rowNdx, orientation: true}; }
+
+   // Updates the insertion target and the positions of the ghost and indicator elements from the current pointer position.
+   private updateDragElements() {
+      const rs = this.layoutController.renderedState!;
+      const orientation = this.dragOrientation;
+      const pos = orientation ? this.dragPoint.y : this.dragPoint.x;
+      this.dragTargetNdx = this.findTargetBoundary(rs, pos);
+      if (!this.ghostElement) {
+         this.ghostElement = this.createDragElement("virtual-grid-layout-reorderGhost"); }
+      if (!this.indicatorElement) {
+         this.indicatorElement = this.createDragElement("virtual-grid-layout-reorderIndicator"); }
+      const rtl = this.layoutController.direction == "rtl";
+      setDragElementRect(this.ghostElement, rs, orientation, pos - this.dragGrabOffset, this.dragSourceSize, rtl);
+      const indicatorPos = (this.dragTargetNdx == undefined) ? undefined : getBoundaryPos(rs, this.dragTargetNdx, orientation);
+      if (indicatorPos == undefined) {
+         this.indicatorElement.style.display = "none";
+         return; }
+      const indicatorWidth = (this.controllerParms.indicatorWidth != undefined) ? this.controllerParms.indicatorWidth : 2;
+      this.indicatorElement.style.display = "";
+      setDragElementRect(this.indicatorElement, rs, orientation, indicatorPos - Math.floor(indicatorWidth / 2), indicatorWidth, rtl); }
+
+   private createDragElement (className: string) : HTMLElement {
+      const element = document.createElement("div");
+      element.className = className;
+      element.style.position = "absolute";
+      element.style.zIndex = "98";
+      element.style.pointerEvents = "none";
+      this.viewportElement.appendChild(element);
+      return element; }
+
+   // Returns the boundary index (the index of the row or column before which the dragged element is inserted)
+   // for a pointer position, or `undefined` if there is no valid target.
+   private findTargetBoundary (rs: RenderedState, pos: number) : number | undefined {
+      const rp = this.layoutController.renderParms!;
+      const orientation = this.dragOrientation;
+      const positions = orientation ? rs.rowYPositions : rs.colXPositions;
+      const visibleCount = orientation ? rs.visibleRows : rs.visibleCols;
+      const frozenCount = orientation ? rs.frozenRows : rs.frozenCols;
+      const elementCount = getSizeCount(orientation ? rp.rowHeights : rp.colWidths);
+      if (visibleCount <= 0) {
+         return; }
+      const clippedPos = Math.max(positions[0], Math.min(positions[visibleCount] - 1, pos));
+      let relNdx = scanPos(positions, clippedPos);
+      if (relNdx == undefined) {
+         return; }
+      relNdx = Math.min(relNdx, visibleCount - 1);
+      const absNdx = relToAbsNdx(rs, relNdx, orientation);
+      const midPos = (positions[relNdx] + positions[relNdx + 1]) / 2;
+      const ndx = (clippedPos < midPos) ? absNdx : absNdx + 1;
+      const sourceFrozen = this.dragSourceNdx < frozenCount;
+      const minNdx = sourceFrozen ? 0 : frozenCount;
+      const maxNdx = sourceFrozen ? frozenCount : elementCount;
+      return Math.max(minNdx, Math.min(maxNdx, ndx)); }
+
+   private updateAutoScroll() {
+      if (this.autoScrollDirection() == 0) {
+         this.stopAutoScroll();
+         return; }
+      if (this.autoScrollTimerId == undefined) {
+         this.autoScrollTimerId = window.setInterval(this.autoScrollTimerHandler, autoScrollInterval); }}
+
+   private stopAutoScroll() {
+      if (this.autoScrollTimerId == undefined) {
+         return; }
+      window.clearInterval(this.autoScrollTimerId);
+      this.autoScrollTimerId = undefined; }
+
+   // Returns -1 or 1 if the pointer is near the start or end edge of the scrolling area, 0 otherwise.
+   private autoScrollDirection() : number {
+      const rs = this.layoutController.renderedState;
+      if (!this.dragging || !rs) {
+         return 0; }
+      const orientation = this.dragOrientation;
+      const frozenCount = orientation ? rs.frozenRows : rs.frozenCols;
+      if (this.dragSourceNdx < frozenCount) {
+         return 0; }
+      const cp = this.controllerParms;
+      const margin = (cp.autoScrollMargin != undefined) ? cp.autoScrollMargin : 24;
+      const pos = orientation ? this.dragPoint.y : this.dragPoint.x;
+      const startPos = orientation ? rs.rowYPositions[rs.frozenRows] : rs.colXPositions[rs.frozenCols];
+      const endPos = orientation ? rs.viewportHeight : rs.viewportWidth;
+      return (pos < startPos + margin) ? -1 : (pos >= endPos - margin) ? 1 : 0; }
+
+   private autoScrollTimerHandler = () => {
+      const rp = this.layoutController.renderParms;
+      const rs = this.layoutController.renderedState;
+      const direction = this.autoScrollDirection();
+      if (this.isDisposed || !rp || !rs || direction == 0) {
+         this.stopAutoScroll();
+         return; }
+      const orientation = this.dragOrientation;
+      const scrollMode = this.controllerParms.scrollMode;
+      const scrollValue = (scrollMode == ScrollMode.pixel) ? direction * autoScrollPixelIncr : direction;
+      const r = GridScroll.process(genScrollInputParms(rp, rs, orientation, (scrollMode == ScrollMode.pixel) ? ScrollUnit.pixelIncr : ScrollUnit.smallIncr, scrollValue, scrollMode));
+      const oldPos = rs.viewportPosition;
+      const viewportPosition: ViewportPosition = {...oldPos};
+      if (orientation) {
+         viewportPosition.rowNdx = r.topNdx;
+         viewportPosition.rowPixelOffset = r.pixelOffset; }
+       else {
+         viewportPosition.colNdx = r.topNdx;
+         viewportPosition.colPixelOffset = r.pixelOffset; }
+      if (viewportPosition.rowNdx == oldPos.rowNdx && viewportPosition.rowPixelOffset == oldPos.rowPixelOffset &&
+          viewportPosition.colNdx == oldPos.colNdx && viewportPosition.colPixelOffset == oldPos.colPixelOffset) {
+         return; }
+      this.dispatchEvent(new CustomEvent("viewport-position-change", {detail: viewportPosition})); };
+
    }
 
-function scanPos (positions: Int16Array, pos: number) : number | undefined {
-   const n = positions.length;
-   for (let i = 0; i < n; i++) {
-      if (pos >= positions[i] && (i + 1 >= n || pos < positions[i + 1])) {
-         return i; }}
+// Returns the visible regular cells of a row or column, excluding merged cells.
+function getVisibleCells (rs: RenderedState, ndx: number, orientation: boolean) : HTMLElement[] {
+   const cells: HTMLElement[] = [];
+   const n = orientation ? rs.visibleCols : rs.visibleRows;
+   for (let relNdx = 0; relNdx < n; relNdx++) {
+      const otherNdx = relToAbsNdx(rs, relNdx, !orientation);
+      const cell = orientation ? rs.regularCells.get(ndx, otherNdx) : rs.regularCells.get(otherNdx, ndx);
+      if (cell && !rs.regularCells.getSpan(cell)) {
+         cells.push(cell); }}
+   return cells; }
+
+// Returns the size of a row or column, measuring it if it is undetermined.
+// During asynchronous measurement, the estimated size is used for undetermined sizes.
+function getElementSize (rp: RenderParms, ndx: number, orientation: boolean) : number {
+   const sizes = orientation ? rp.rowHeights : rp.colWidths;
+   if (getSize(sizes, ndx) < 0 && rp.measure) {
+      rp.measure(ndx, 1, orientation);
+      updateSizeIndex(rp, ndx, 1, orientation); }
+   const size = getSize(sizes, ndx);
+   if (size < 0) {
+      return getEstimatedSize(rp, orientation) || 0; }
+   return size; }
+
+// Positions a drag element that spans the viewport across the drag orientation.
+function setDragElementRect (element: HTMLElement, rs: RenderedState, orientation: boolean, pos: number, size: number, rtl: boolean) {
+   const style = element.style;
+   if (orientation) {
+      setHorizontalPosition(style, 0, rtl);
+      style.width = rs.viewportWidth + "px";
+      style.top = pos + "px";
+      style.height = size + "px"; }
+    else {
+      setHorizontalPosition(style, pos, rtl);
+      style.width = size + "px";
+      style.top = "0";
+      style.height = rs.viewportHeight + "px"; }}
+
+// Sets the horizontal position of an element within the viewport.
+// In RTL mode, `x` is the distance from the right edge of the viewport.
+function setHorizontalPosition (style: CSSStyleDeclaration, x: number, rtl: boolean) {
+   style.left = rtl ? "" : x + "px";
+   style.right = rtl ? x + "px" : ""; }
+
+// Returns the viewport position of a boundary, or `undefined` if the boundary is not visible.
+function getBoundaryPos (rs: RenderedState, boundaryNdx: number, orientation: boolean) : number | undefined {
+   const positions = orientation ? rs.rowYPositions : rs.colXPositions;
+   const relNdx = absToRelNdx(rs, boundaryNdx, orientation);
+   if (relNdx != undefined) {
+      return positions[relNdx]; }
+   const relPrevNdx = (boundaryNdx > 0) ? absToRelNdx(rs, boundaryNdx - 1, orientation) : undefined;
+   if (relPrevNdx != undefined) {
+      return positions[relPrevNdx + 1]; }
    return undefined; }
+
+// Returns the absolute boundary index for a relative boundary index.
+// The boundary index is the index of the row or column after the boundary. With frozen rows/columns,
+// the boundary at the end of the frozen area belongs to the last frozen row/column.
+function getBoundaryNdx (rs: RenderedState, relBoundaryNdx: number, orientation: boolean) : number {
+   if (relBoundaryNdx == 0) {
+      return relToAbsNdx(rs, 0, orientation); }
+   return relToAbsNdx(rs, relBoundaryNdx - 1, orientation) + 1; }
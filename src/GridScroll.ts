@@ -1,8 +1,26 @@
 // Scroll control logic for grids.
 
 // This module implements a simple scroll logic for a grid.
-// Snap mode is used. The start of the grid viewport is always aligned with the start of a row and a column.
-// The behavior is the same as in Excel, Access, etc.
+// Two scroll modes are supported:
+// - In snap mode, the start of the grid viewport is always aligned with the start of a row and a column.
+//   The behavior is the same as in Excel, Access, etc.
+// - In pixel mode, the start of the grid viewport may lie within a row or column. The pixel offset
+//   corresponds to `rowPixelOffset`/`colPixelOffset` of the `ViewportPosition` of the layout controller.
+//
+// Without a size index, the scrollbar position is proportional to the element index and the scrollbar
+// thumb size is estimated from a sample of the element sizes. With a `SizeIndex` (`InputParms.sizeIndex`),
+// the scrollbar position and thumb size are based on the exact or estimated pixel positions of the elements.
+//
+// Elements with a size of 0 are hidden. The resulting position never starts with a hidden element,
+// small and medium increments skip hidden elements and hidden elements at the start or end of the
+// grid are excluded from the scroll range.
+
+import {SizeIndex} from "./GridSizeIndex";
+import {SizeProvider, getSizeCount, getSize} from "./GridSizeProvider";
+
+export const enum ScrollMode {
+   snap,                     // snap to the start of rows/columns
+   pixel }                   // smooth scrolling by pixels
 
 export const enum ScrollUnit {
    absPosition,              // absolute position
@@ -15,13 +33,26 @@ export const enum ScrollUnit {
       // ScrollValue is usually +/-1. Used for mouse wheel.
    largeIncr,                // large increment
       // ScrollValue is usually +/-1. Used for page up/down buttons and for clicks within the scrollbar trough.
-   none }                    // no movement
+   none,                     // no movement
       // ScrollValue is ignored. Used to re-calculate the scrollbar parameters.
+   pixelIncr,                // pixel increment
+      // ScrollValue is a distance in pixels. Used for mouse wheel and touchpad deltas.
+      // In snap mode, the resulting position is rounded to the nearest row/column start.
+   intoView }                // scroll a row/column into view
+      // ScrollValue is the index of the target row/column. `InputParms.alignment` specifies where the target is placed.
+      // Used e.g. to keep an active cell visible.
+
+export const enum ScrollAlignment {
+   start,                    // align the start of the target with the start of the viewport
+   center,                   // center the target within the viewport
+   end,                      // align the end of the target with the end of the viewport
+   nearest }                 // scroll as little as possible to make the target fully visible, no movement if it is already fully visible
 
 // Function to measure undetermined row heights or column widths.
 //
-// The `elementSizes` array may contain entries with the value -1, which means that the value
-// has not yet been determined. This function is used to measure these undetermined entries.
+// The `elementSizes` array or size provider may contain entries with the value -1, which means that the value
+// has not yet been determined. This function is used to measure these undetermined entries and must store the
+// measured values in the array or size provider.
 //
 // @param startNdx
 //    The row/column index to start.
@@ -29,60 +60,222 @@ export const enum ScrollUnit {
 //    Number of entries to process.
 export type MeasureFunction = (startNdx: number, n: number) => void;
 
+// An array of row heights or column widths.
+// `Int16Array` is sufficient for most grids. `Int32Array` or `Float64Array` can be used for elements larger than 32767 pixels.
+export type SizeArray = Int16Array | Int32Array | Float64Array;
+
 export interface InputParms {
    scrollUnit:               ScrollUnit;                   // unit for scrollValue
    scrollValue:              number;                       // the meaning of this value depends on scrollUnit
+   scrollMode?:              ScrollMode;                   // scroll mode, default is `snap`
    topNdx:                   number;                       // index of first visible row/column, 0-based integer
+   pixelOffset?:             number;                       // pixel offset within the first visible row/column, only used in pixel mode
    elementCount:             number;                       // total number of rows/columns in the grid
    viewportSize:             number;                       // viewport size (width or height) in pixels
-   elementSizes:             Int16Array;                   // row heights or column widths, may contain -1 for undetermined heights/widths
-   measure?:                 MeasureFunction; }            // function to measure undetermined element sizes
+   elementSizes:             SizeArray | SizeProvider;     // row heights or column widths, may contain -1 for undetermined heights/widths
+   frozenCount?:             number;                       // number of frozen leading rows/columns, which are not scrolled
+   alignment?:               ScrollAlignment;              // alignment for `ScrollUnit.intoView`, default is `nearest`
+   measure?:                 MeasureFunction;              // function to measure undetermined element sizes
+   estimatedSize?:           number;                       // size used for undetermined elements when `measure` is undefined, e.g. while they are measured asynchronously
+   sizeIndex?:               SizeIndex; }                  // optional size index over `elementSizes`, entries measured by `measure` are updated automatically
 
 export interface OutputParms {
    topNdx:                   number;                       // index of first visible row/column, 0-based integer
+   pixelOffset:              number;                       // pixel offset within the first visible row/column, always 0 in snap mode
    scrollbarPosition:        number;                       // scrollbar position value, float value in the range 0..1
    scrollbarThumbSize:       number; }                     // scrollbar thumb size relative to the trough, float value in the range 0..1
 
 export function process (ip: InputParms) : OutputParms {
-   if (ip.elementCount <= 1 || ip.viewportSize <= 0) {
-      return {topNdx: 0, scrollbarPosition: 0, scrollbarThumbSize: 0}; }
-   if (ip.elementSizes.length != ip.elementCount) {
+   const firstNdx = ip.frozenCount || 0;                           // index of first scrollable row/column
+   const scrollableCount = ip.elementCount - firstNdx;
+   if (scrollableCount <= 1 || ip.viewportSize <= 0) {
+      return {topNdx: firstNdx, pixelOffset: 0, scrollbarPosition: 0, scrollbarThumbSize: 0}; }
+   if (getSizeCount(ip.elementSizes) != ip.elementCount) {
       throw new Error("elementSizes.length != elementCount"); }
+   const startNdx = findVisibleElement(ip, firstNdx, ip.elementCount - 1, false);   // first non-hidden scrollable element
+   if (getElementSize(ip, startNdx, false) == 0) {                 // all scrollable elements are hidden
+      return {topNdx: firstNdx, pixelOffset: 0, scrollbarPosition: 0, scrollbarThumbSize: 0}; }
+   const endNdx = findVisibleElement(ip, ip.elementCount - 1, startNdx, true);      // last non-hidden element
+   if (endNdx <= startNdx) {
+      return {topNdx: startNdx, pixelOffset: 0, scrollbarPosition: 0, scrollbarThumbSize: 0}; }
+   const pixelMode = ip.scrollMode == ScrollMode.pixel;
+   const oldPixelOffset = pixelMode ? (ip.pixelOffset || 0) : 0;
+   const incrAlignment = (oldPixelOffset > 0 && ip.scrollValue < 0) ? 1 : 0;    // backward increments first move to the start of the current element
    let topNdx: number;
+   let pixelOffset = 0;
    switch (ip.scrollUnit) {
       case ScrollUnit.absPosition: {
          topNdx = ip.scrollValue;
          break; }
       case ScrollUnit.propPosition: {
-         topNdx = ip.scrollValue * (ip.elementCount - 1);
+         if (ip.sizeIndex) {
+            ({topNdx, pixelOffset} = scrollToPropPosition(ip, ip.sizeIndex, startNdx, endNdx, pixelMode));
+            break; }
+         const p = startNdx + ip.scrollValue * (endNdx - startNdx);
+         if (pixelMode) {
+            topNdx = Math.max(startNdx, Math.min(endNdx, Math.floor(p)));
+            pixelOffset = Math.floor((p - topNdx) * getElementSize(ip, topNdx, false)); }
+          else {
+            topNdx = p; }
          break; }
       case ScrollUnit.smallIncr: {
-         topNdx = ip.topNdx + ip.scrollValue;
+         topNdx = stepElements(ip, startNdx, endNdx, ip.topNdx, ip.scrollValue + incrAlignment);
          break; }
       case ScrollUnit.mediumIncr: {
-         topNdx = ip.topNdx + ip.scrollValue * 3;
+         topNdx = stepElements(ip, startNdx, endNdx, ip.topNdx, ip.scrollValue * 3 + incrAlignment);
          break; }
       case ScrollUnit.largeIncr: {
-         const d1 = ip.scrollValue * ip.viewportSize;
+         const d1 = ip.scrollValue * Math.max(0, ip.viewportSize - getFrozenSize(ip, firstNdx));   // page size of the scrolling area
+         if (pixelMode) {
+            ({topNdx, pixelOffset} = scrollByPixels(ip, firstNdx, ip.topNdx, oldPixelOffset, d1));
+            break; }
          const r = scanDistance(ip, ip.topNdx, d1);
          const d2 = Math.max(1, (r.distance > Math.abs(d1)) ? r.n - 1 : r.n);
          topNdx = ip.topNdx + d2 * Math.sign(ip.scrollValue);
          break; }
+      case ScrollUnit.pixelIncr: {
+         ({topNdx, pixelOffset} = scrollByPixels(ip, firstNdx, ip.topNdx, oldPixelOffset, ip.scrollValue));
+         if (!pixelMode) {                                           // round to the nearest element start
+            if (pixelOffset >= getElementSize(ip, topNdx, false) / 2) {
+               topNdx++; }
+            pixelOffset = 0; }
+         break; }
+      case ScrollUnit.intoView: {
+         ({topNdx, pixelOffset} = scrollIntoView(ip, firstNdx, pixelMode, oldPixelOffset));
+         break; }
       case ScrollUnit.none: {
          topNdx = ip.topNdx;
+         pixelOffset = oldPixelOffset;
          break; }
       default: {
          throw new Error("Unknown scrollUnit."); }}
-   topNdx = Math.max(0, Math.min(ip.elementCount - 1, Math.round(topNdx)));
-   const scrollbarPosition = topNdx / (ip.elementCount - 1);
-   const scrollbarThumbSize = estimateScrollbarThumbSize(ip);
-   return {topNdx, scrollbarPosition, scrollbarThumbSize}; }
+   let topNdx2 = Math.max(startNdx, Math.min(endNdx, Math.round(topNdx)));
+   if (getElementSize(ip, topNdx2, false) == 0) {                  // move to the nearest non-hidden element in the scroll direction
+      const reverse = ip.scrollValue < 0 && ip.scrollUnit != ScrollUnit.absPosition && ip.scrollUnit != ScrollUnit.propPosition && ip.scrollUnit != ScrollUnit.intoView;
+      topNdx2 = findVisibleElement(ip, topNdx2, reverse ? startNdx : endNdx, reverse); }
+   if (topNdx2 != topNdx) {
+      pixelOffset = 0; }
+   ({topNdx, pixelOffset} = scrollByPixels(ip, firstNdx, topNdx2, pixelOffset, 0));     // normalize pixel offset
+   if (ip.sizeIndex) {
+      const r = computeIndexedScrollbar(ip, ip.sizeIndex, firstNdx, startNdx, endNdx, topNdx, pixelOffset);
+      return {topNdx, pixelOffset, ...r}; }
+   const elementPos = (pixelOffset > 0) ? pixelOffset / getElementSize(ip, topNdx, false) : 0;
+   const scrollbarPosition = Math.max(0, Math.min(1, (topNdx - startNdx + elementPos) / (endNdx - startNdx)));
+   const scrollbarThumbSize = estimateScrollbarThumbSize(ip, firstNdx, startNdx, endNdx);
+   return {topNdx, pixelOffset, scrollbarPosition, scrollbarThumbSize}; }
+
+// Maps a proportional position to a pixel position of the scrolling area by using the size index.
+// The scroll range ends when the last non-hidden element is at the start of the viewport, the same as for index-based positions.
+function scrollToPropPosition (ip: InputParms, sizeIndex: SizeIndex, startNdx: number, endNdx: number, pixelMode: boolean) : {topNdx: number; pixelOffset: number} {
+   const startPos = sizeIndex.getOffset(startNdx);
+   const range = sizeIndex.getOffset(endNdx) - startPos;
+   const pos = startPos + Math.max(0, Math.min(1, ip.scrollValue)) * range;
+   const topNdx = Math.max(startNdx, Math.min(endNdx, sizeIndex.findIndex(pos)));
+   const pixelOffset = Math.max(0, pos - sizeIndex.getOffset(topNdx));
+   if (pixelMode) {
+      return {topNdx, pixelOffset: Math.floor(pixelOffset)}; }
+   const roundUp = pixelOffset >= getElementSize(ip, topNdx, false) / 2;    // round to the nearest element start
+   return {topNdx: roundUp ? topNdx + 1 : topNdx, pixelOffset: 0}; }
+
+function computeIndexedScrollbar (ip: InputParms, sizeIndex: SizeIndex, firstNdx: number, startNdx: number, endNdx: number, topNdx: number, pixelOffset: number) : {scrollbarPosition: number; scrollbarThumbSize: number} {
+   const startPos = sizeIndex.getOffset(startNdx);
+   const range = sizeIndex.getOffset(endNdx) - startPos;
+   const pos = sizeIndex.getOffset(topNdx) + pixelOffset - startPos;
+   const scrollbarPosition = (range > 0) ? Math.max(0, Math.min(1, pos / range)) : 0;
+   const viewportSize = ip.viewportSize - getFrozenSize(ip, firstNdx);   // size of the scrolling area
+   if (viewportSize <= 0) {
+      return {scrollbarPosition, scrollbarThumbSize: 0}; }
+   const scrollbarThumbSize = viewportSize / (range + viewportSize);
+   return {scrollbarPosition, scrollbarThumbSize}; }
+
+// Computes the position for which the target element `ip.scrollValue` is placed according to `ip.alignment`.
+// Except for `nearest`, the result does not depend on the current position.
+function scrollIntoView (ip: InputParms, firstNdx: number, pixelMode: boolean, oldPixelOffset: number) : {topNdx: number; pixelOffset: number} {
+   const targetNdx = Math.round(ip.scrollValue);
+   if (targetNdx < firstNdx || targetNdx >= ip.elementCount) {       // frozen elements are always visible
+      return {topNdx: ip.topNdx, pixelOffset: oldPixelOffset}; }
+   const viewportSize = ip.viewportSize - getFrozenSize(ip, firstNdx);
+   const targetSize = getElementSize(ip, targetNdx, false);
+   let alignment = (ip.alignment == undefined) ? ScrollAlignment.nearest : ip.alignment;
+   if (alignment == ScrollAlignment.nearest) {
+      if (targetNdx < ip.topNdx || (targetNdx == ip.topNdx && oldPixelOffset > 0)) {
+         alignment = ScrollAlignment.start; }
+       else if (isFullyVisible(ip, targetNdx, oldPixelOffset, viewportSize)) {
+         return {topNdx: ip.topNdx, pixelOffset: oldPixelOffset}; }
+       else {
+         alignment = ScrollAlignment.end; }}
+   let distance: number;                                             // distance between the start of the viewport and the start of the target
+   switch (alignment) {
+      case ScrollAlignment.center: distance = Math.floor((viewportSize - targetSize) / 2); break;
+      case ScrollAlignment.end:    distance = viewportSize - targetSize; break;
+      default:                     distance = 0; }
+   if (distance <= 0) {                                              // the target is larger than the viewport, show its start
+      return {topNdx: targetNdx, pixelOffset: 0}; }
+   const r = scrollByPixels(ip, firstNdx, targetNdx, 0, -distance);
+   if (!pixelMode && r.pixelOffset > 0) {                            // snap to an element start, the target must stay fully visible
+      const roundUp = alignment != ScrollAlignment.center || r.pixelOffset >= getElementSize(ip, r.topNdx, false) / 2;
+      return {topNdx: roundUp ? r.topNdx + 1 : r.topNdx, pixelOffset: 0}; }
+   return r; }
+
+// Returns true if the end of the target element lies within the viewport.
+function isFullyVisible (ip: InputParms, targetNdx: number, pixelOffset: number, viewportSize: number) : boolean {
+   let d = -pixelOffset;
+   for (let i = ip.topNdx; i <= targetNdx; i++) {
+      d += getElementSize(ip, i, false);
+      if (d > viewportSize) {
+         return false; }}
+   return true; }
 
-function estimateScrollbarThumbSize (ip: InputParms) : number {
+// Moves a position by a pixel distance across element boundaries.
+// The returned pixel offset is always within the size of the returned element.
+function scrollByPixels (ip: InputParms, firstNdx: number, topNdx: number, pixelOffset: number, distance: number) : {topNdx: number; pixelOffset: number} {
+   const lastNdx = ip.elementCount - 1;
+   let i = Math.max(firstNdx, Math.min(lastNdx, topNdx));
+   let p = pixelOffset + Math.round(distance);
+   while (p > 0 && i < lastNdx) {
+      const size = getElementSize(ip, i, false);
+      if (p < size) {
+         break; }
+      p -= size;
+      i++; }
+   while (p < 0 && i > firstNdx) {
+      i--;
+      p += getElementSize(ip, i, true); }
+   if (p < 0 || i >= lastNdx) {
+      p = 0; }
+   return {topNdx: i, pixelOffset: p}; }
+
+function estimateScrollbarThumbSize (ip: InputParms, firstNdx: number, startNdx: number, endNdx: number) : number {
    const sampleFactor = 4;
-   const r = scanDistance(ip, 0, ip.viewportSize * sampleFactor);
+   const viewportSize = ip.viewportSize - getFrozenSize(ip, firstNdx);   // size of the scrolling area
+   if (viewportSize <= 0) {
+      return 0; }
+   const r = scanDistanceForward(ip, startNdx, viewportSize * sampleFactor, endNdx + 1);
    const n = Math.max(1, r.n);
-   return ip.viewportSize / ( r.distance / n * (ip.elementCount - 1) + ip.viewportSize ); }
+   return viewportSize / ( r.distance / n * (endNdx - startNdx) + viewportSize ); }
+
+// Moves a position by a number of non-hidden elements. Hidden elements (size 0) are skipped.
+// The resulting index is limited to the range `startNdx..endNdx`.
+function stepElements (ip: InputParms, startNdx: number, endNdx: number, ndx: number, steps: number) : number {
+   const dir = Math.sign(steps);
+   let remaining = Math.abs(Math.round(steps));
+   let i = ndx;
+   while (remaining > 0 && i + dir >= startNdx && i + dir <= endNdx) {
+      i += dir;
+      if (getElementSize(ip, i, dir < 0) > 0) {
+         remaining--; }}
+   return i; }
+
+// Returns the index of the first non-hidden element, scanning from `ndx` towards `limitNdx`.
+// Returns `limitNdx` if all elements within the range are hidden.
+function findVisibleElement (ip: InputParms, ndx: number, limitNdx: number, reverse: boolean) : number {
+   let i = ndx;
+   while (i != limitNdx && getElementSize(ip, i, reverse) == 0) {
+      i += reverse ? -1 : 1; }
+   return i; }
+
+function getFrozenSize (ip: InputParms, firstNdx: number) : number {
+   return (firstNdx > 0) ? scanDistanceForward(ip, 0, Infinity, firstNdx).distance : 0; }
 
 function scanDistance (ip: InputParms, startNdx: number, distance: number) : {n: number; distance: number} {
    if (distance >= 0) {
@@ -90,39 +283,38 @@ function scanDistance (ip: InputParms, startNdx: number, distance: number) : {n:
     else {
       return scanDistanceReverse(ip, startNdx, -distance); }}
 
-function scanDistanceForward (ip: InputParms, startNdx: number, distance: number) : {n: number; distance: number} {
-   const a = ip.elementSizes;
-   const n = a.length;
+function scanDistanceForward (ip: InputParms, startNdx: number, distance: number, endNdx = getSizeCount(ip.elementSizes)) : {n: number; distance: number} {
    let i = startNdx;
    let d = 0;
-   while (d < distance && i < n) {
-      let w = a[i];
-      if (w == -1) {                                                 // undetermined height/width
-         if (!ip.measure) {
-            throw new Error("Undetermined `rowHeights`/`colWidths` value encountered but `measure` function is undefined."); }
-         const len = Math.min(25, n - i);
-         ip.measure(i, len);
-         w = a[i];
-         if (a[i] == -1) {
-            throw new Error("`rowHeights`/`colWidths` value stayed undetermined even after `measure` function was called."); }}
-      d += Math.max(0, w);
+   while (d < distance && i < endNdx) {
+      d += getElementSize(ip, i, false, endNdx);
       i++; }
    return {n: i - startNdx, distance: d}; }
 
 function scanDistanceReverse (ip: InputParms, startNdx: number, distance: number) : {n: number; distance: number} {
-   const a = ip.elementSizes;
    let i = startNdx;
    let d = 0;
    while (d < distance && i > 0) {
       i--;
-      let w = a[i];
-      if (w == -1) {                                                 // undetermined height/width
-         if (!ip.measure) {
-            throw new Error("Undetermined `rowHeights`/`colWidths` value encountered but `measure` function is undefined."); }
-         const p = Math.max(0, i - 24);
-         ip.measure(p, i - p + 1);
-         w = a[i];
-         if (a[i] == -1) {
-            throw new Error("`rowHeights`/`colWidths` value stayed undetermined even after `measure` function was called."); }}
-      d += Math.max(0, w); }
+      d += getElementSize(ip, i, true); }
    return {n: startNdx - i, distance: d}; }
+
+// Returns the size of an element. Undetermined sizes are measured in blocks.
+//
+// @param reverse
+//    false = measure a block starting at `ndx`, true = measure a block ending at `ndx`.
+function getElementSize (ip: InputParms, ndx: number, reverse: boolean, endNdx = getSizeCount(ip.elementSizes)) : number {
+   const a = ip.elementSizes;
+   if (getSize(a, ndx) == -1) {                                      // undetermined height/width
+      if (!ip.measure && ip.estimatedSize != undefined) {
+         return Math.max(0, ip.estimatedSize); }
+      if (!ip.measure) {
+         throw new Error("Undetermined `rowHeights`/`colWidths` value encountered but `measure` function is undefined."); }
+      const p = reverse ? Math.max(0, ndx - 24) : ndx;
+      const n = reverse ? ndx - p + 1 : Math.min(25, endNdx - ndx);
+      ip.measure(p, n);
+      if (ip.sizeIndex) {
+         ip.sizeIndex.setSizes(a, p, n); }
+      if (getSize(a, ndx) == -1) {
+         throw new Error("`rowHeights`/`colWidths` value stayed undetermined even after `measure` function was called."); }}
+   return Math.max(0, getSize(a, ndx)); }
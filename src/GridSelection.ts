@@ -0,0 +1,276 @@
+// Cell selection logic for grids.
+
+import {LayoutController, ViewportPosition, CellType} from "./GridLayout";
+import * as GridScroll from "./GridScroll";
+import {SizeSource, getSizeCount, getSize} from "./GridSizeProvider";
+import {ScrollUnit, ScrollMode} from "./GridScroll";
+import {genScrollInputParms} from "./GridUtils";
+
+const tapMoveTolerance = 8;                                          // pointer movement in pixels that turns a touch tap into a drag
+
+let cellIdCounter = 0;                                               // for generating IDs of active cells for `aria-activedescendant`
+
+export interface CellPosition {
+   rowNdx:                             number;                       // row index
+   colNdx:                             number; }                     // column index
+
+export interface SelectionRange {                                    // a rectangular range of selected cells, the indexes are inclusive
+   startRowNdx:                        number;                       // index of first row
+   startColNdx:                        number;                       // index of first column
+   endRowNdx:                          number;                       // index of last row
+   endColNdx:                          number; }                     // index of last column
+
+export interface ControllerParms {
+   layoutController:                   LayoutController;             // the layout controller of the grid
+   multiRangeEnabled?:                 boolean;                      // true to allow multiple selection ranges with Ctrl+click
+   scrollMode?:                        ScrollMode;                   // scroll mode used to keep the active cell visible, default is `snap`
+   ariaEnabled?:                       boolean;                      // true to set `aria-selected` on the rendered cells and `aria-activedescendant` on the focus element
+   focusElement?:                      HTMLElement; }                // the element that receives the keyboard focus, default is the viewport element
+
+// The selection controller tracks an active cell and rectangular selection ranges of regular cells.
+//
+// Events:
+// - `selection-change`: The active cell or the selection ranges have changed.
+//   The application should re-render the grid and use `isSelected()` / `isActive()` in `prepareCell` to style the cells.
+// - `viewport-position-change`: The viewport position has to be changed to keep the active cell visible.
+//   `event.detail` is the new `ViewportPosition`. The application should adjust its scrollbars and re-render the grid.
+//
+// When `ariaEnabled` is set, the selection state is exposed through `aria-selected` on the rendered regular cells and
+// `aria-activedescendant` on the focus element. An ID is generated for the active cell element if it has none.
+// This is normally used together with `RenderParms.aria` of the layout controller.
+export class SelectionController extends EventTarget {
+
+   public  activeCell?:                CellPosition;                 // the active cell, `undefined` = no active cell
+   public  ranges:                     SelectionRange[] = [];        // the selection ranges, the last range contains the active cell
+
+   private controllerParms:            ControllerParms;
+   private layoutController:           LayoutController;
+   private viewportElement:            HTMLElement;
+   private isDisposed:                 boolean = false;
+
+   private extentCell?:                CellPosition;                 // the moving end of the last selection range
+   private dragPointerId?:             number;                       // ID of captured pointer, `undefined` = not dragging
+   private tapPointerId?:              number;                       // ID of a touch pointer that may become a tap, `undefined` = none
+   private tapStartPoint:              {x: number; y: number};       // client coordinates of the touch pointer at pointerdown
+
+   constructor (cp: ControllerParms) {
+      super();
+      this.controllerParms = cp;
+      this.layoutController = cp.layoutController;
+      this.viewportElement = cp.layoutController.viewportElement;
+      this.viewportElement.addEventListener("pointerdown", this.viewport_pointerDownEventListener);
+      this.viewportElement.addEventListener("pointermove", this.viewport_pointerMoveEventListener);
+      this.viewportElement.addEventListener("pointerup", this.viewport_pointerUpEventListener);
+      this.viewportElement.addEventListener("pointercancel", this.viewport_pointerCancelEventListener);
+      this.viewportElement.addEventListener("lostpointercapture", this.viewport_pointerCancelEventListener);
+      this.layoutController.addEventListener("render", this.layoutController_renderEventListener); }
+
+   public dispose() {
+      if (this.isDisposed) {
+         return; }
+      this.isDisposed = true;
+      this.viewportElement.removeEventListener("pointerdown", this.viewport_pointerDownEventListener);
+      this.viewportElement.removeEventListener("pointermove", this.viewport_pointerMoveEventListener);
+      this.viewportElement.removeEventListener("pointerup", this.viewport_pointerUpEventListener);
+      this.viewportElement.removeEventListener("pointercancel", this.viewport_pointerCancelEventListener);
+      this.viewportElement.removeEventListener("lostpointercapture", this.viewport_pointerCancelEventListener);
+      this.layoutController.removeEventListener("render", this.layoutController_renderEventListener);
+      this.stopDragging(); }
+
+   // Returns true if the specified cell lies within a selection range.
+   public isSelected (rowNdx: number, colNdx: number) : boolean {
+      for (const r of this.ranges) {
+         if (rowNdx >= r.startRowNdx && rowNdx <= r.endRowNdx && colNdx >= r.startColNdx && colNdx <= r.endColNdx) {
+            return true; }}
+      return false; }
+
+   // Returns true if the specified cell is the active cell.
+   public isActive (rowNdx: number, colNdx: number) : boolean {
+      return !!this.activeCell && this.activeCell.rowNdx == rowNdx && this.activeCell.colNdx == colNdx; }
+
+   // Moves the active cell or extends the last selection range.
+   //
+   // @param extend
+   //    true to extend the last selection range from the active cell to the specified cell.
+   // @param addRange
+   //    true to start an additional selection range.
+   public setActiveCell (cell: CellPosition, extend = false, addRange = false) {
+      if (extend && this.activeCell) {
+         this.extentCell = {...cell};
+         this.ranges[this.ranges.length - 1] = createRange(this.activeCell, this.extentCell); }
+       else {
+         this.activeCell = {...cell};
+         this.extentCell = {...cell};
+         const range = createRange(cell, cell);
+         if (addRange && this.controllerParms.multiRangeEnabled) {
+            this.ranges.push(range); }
+          else {
+            this.ranges = [range]; }}
+      this.dispatchEvent(new CustomEvent("selection-change"));
+      this.updateAriaAttributes();
+      this.scrollIntoView(this.extentCell); }
+
+   // Removes the active cell and all selection ranges.
+   public clearSelection() {
+      this.activeCell = undefined;
+      this.extentCell = undefined;
+      this.ranges = [];
+      this.dispatchEvent(new CustomEvent("selection-change"));
+      this.updateAriaAttributes(); }
+
+   // Processes a `KeyboardEvent` for moving the active cell or extending the selection.
+   // Supports Arrow, PageUp, PageDown, Home and End, combined with Shift to extend the selection and with Ctrl to move to the edge of the grid.
+   // In RTL mode, ArrowLeft and ArrowRight are swapped. Hidden rows and columns (size 0) are skipped.
+   // Returns true if the event has been processed.
+   public processKeyboardEvent (event: KeyboardEvent) : boolean {
+      const rp = this.layoutController.renderParms;
+      const rs = this.layoutController.renderedState;
+      if (this.isDisposed || !rp || !rs || !this.activeCell || event.altKey) {
+         return false; }
+      const extend = event.shiftKey;
+      const jump = event.ctrlKey || event.metaKey;
+      const rowCount = getSizeCount(rp.rowHeights);
+      const colCount = getSizeCount(rp.colWidths);
+      const pageRows = Math.max(1, rs.visibleRows - rs.frozenRows - 1);
+      const base = extend ? this.extentCell! : this.activeCell;
+      let rowNdx = base.rowNdx;
+      let colNdx = base.colNdx;
+      const rtl = this.layoutController.direction == "rtl";                  // (in RTL mode, the arrow keys move in their visual direction)
+      switch (event.key) {
+         case "ArrowUp":    rowNdx = jump ? 0 : rowNdx - 1; break;
+         case "ArrowDown":  rowNdx = jump ? rowCount - 1 : rowNdx + 1; break;
+         case (rtl ? "ArrowRight" : "ArrowLeft"): colNdx = jump ? 0 : colNdx - 1; break;
+         case (rtl ? "ArrowLeft" : "ArrowRight"): colNdx = jump ? colCount - 1 : colNdx + 1; break;
+         case "PageUp":     rowNdx -= pageRows; break;
+         case "PageDown":   rowNdx += pageRows; break;
+         case "Home":       colNdx = 0; rowNdx = jump ? 0 : rowNdx; break;
+         case "End":        colNdx = colCount - 1; rowNdx = jump ? rowCount - 1 : rowNdx; break;
+         default:           return false; }
+      rowNdx = skipHiddenElements(rp.rowHeights, Math.max(0, Math.min(rowCount - 1, rowNdx)), rowNdx < base.rowNdx);
+      colNdx = skipHiddenElements(rp.colWidths, Math.max(0, Math.min(colCount - 1, colNdx)), colNdx < base.colNdx);
+      this.setActiveCell({rowNdx, colNdx}, extend);
+      return true; }
+
+   private layoutController_renderEventListener = () => {
+      this.updateAriaAttributes(); };
+
+   // Updates `aria-selected` of the rendered regular cells and `aria-activedescendant` of the focus element.
+   private updateAriaAttributes() {
+      const rs = this.layoutController.renderedState;
+      if (this.isDisposed || !this.controllerParms.ariaEnabled || !rs) {
+         return; }
+      const cells = rs.regularCells;
+      cells.forEach((cell, rowNdx, colNdx) => {
+         const selected = String(this.isSelected(rowNdx, colNdx));
+         if (cell.getAttribute("aria-selected") != selected) {
+            cell.setAttribute("aria-selected", selected); }});
+      const focusElement = this.controllerParms.focusElement || this.viewportElement;
+      const activeCell = this.activeCell ? cells.get(this.activeCell.rowNdx, this.activeCell.colNdx) : undefined;
+      if (!activeCell) {
+         focusElement.removeAttribute("aria-activedescendant");
+         return; }
+      if (!activeCell.id) {
+         activeCell.id = "virtual-grid-layout-cell-" + (++cellIdCounter); }
+      if (focusElement.getAttribute("aria-activedescendant") != activeCell.id) {
+         focusElement.setAttribute("aria-activedescendant", activeCell.id); }}
+
+   private viewport_pointerDownEventListener = (event: PointerEvent) => {
+      const rs = this.layoutController.renderedState;
+      if (this.isDisposed || !rs) {
+         return; }
+      if (!event.isPrimary || event.altKey || event.button != 0 || event.defaultPrevented) {   // (`defaultPrevented` is set when the resize controller starts dragging)
+         return; }
+      if (event.pointerType == "touch") {                            // (touch drags are used for scrolling, a cell is selected by a tap)
+         this.tapPointerId = event.pointerId;
+         this.tapStartPoint = {x: event.clientX, y: event.clientY};
+         return; }
+      const point = this.layoutController.clientToViewportCoordinates(event.clientX, event.clientY);
+      const cell = this.findCell(point.x, point.y);
+      if (!cell) {
+         return; }
+      const addRange = event.ctrlKey || event.metaKey;
+      this.setActiveCell(cell, event.shiftKey && !addRange, addRange);
+      this.dragPointerId = event.pointerId;
+      this.viewportElement.setPointerCapture(this.dragPointerId); };
+
+   private viewport_pointerMoveEventListener = (event: PointerEvent) => {
+      if (this.tapPointerId == event.pointerId && Math.max(Math.abs(event.clientX - this.tapStartPoint.x), Math.abs(event.clientY - this.tapStartPoint.y)) > tapMoveTolerance) {
+         this.tapPointerId = undefined; }
+      const rs = this.layoutController.renderedState;
+      if (this.isDisposed || !rs || this.dragPointerId != event.pointerId || !this.extentCell) {
+         return; }
+      const point = this.layoutController.clientToViewportCoordinates(event.clientX, event.clientY);
+      const cell = this.findCell(Math.max(0, Math.min(rs.viewportWidth - 1, point.x)), Math.max(0, Math.min(rs.viewportHeight - 1, point.y)));
+      if (!cell || (cell.rowNdx == this.extentCell.rowNdx && cell.colNdx == this.extentCell.colNdx)) {
+         return; }
+      this.setActiveCell(cell, true);
+      event.preventDefault(); };
+
+   private viewport_pointerUpEventListener = (event: PointerEvent) => {
+      if (this.tapPointerId == event.pointerId) {
+         this.tapPointerId = undefined;
+         if (!event.defaultPrevented) {                              // (`defaultPrevented` is set when the touch pointer has been used for resizing)
+            this.processTap(event); }}
+      if (this.dragPointerId != event.pointerId) {
+         return; }
+      this.stopDragging(); };
+
+   // Handles `pointercancel` and `lostpointercapture`. When the browser cancels a pointer, a pending tap and an active drag-select of that pointer are ended.
+   private viewport_pointerCancelEventListener = (event: PointerEvent) => {
+      if (this.tapPointerId == event.pointerId) {
+         this.tapPointerId = undefined; }
+      if (this.dragPointerId == event.pointerId) {
+         this.stopDragging(); }};
+
+   private processTap (event: PointerEvent) {
+      if (this.isDisposed || !this.layoutController.renderedState) {
+         return; }
+      const point = this.layoutController.clientToViewportCoordinates(event.clientX, event.clientY);
+      const cell = this.findCell(point.x, point.y);
+      if (cell) {
+         this.setActiveCell(cell); }}
+
+   private stopDragging() {
+      if (this.dragPointerId == undefined) {
+         return; }
+      if (this.viewportElement.hasPointerCapture(this.dragPointerId)) {          // (the capture may already have been lost)
+         this.viewportElement.releasePointerCapture(this.dragPointerId); }
+      this.dragPointerId = undefined; }
+
+   // Returns the regular cell at a point relative to the viewport.
+   private findCell (x: number, y: number) : CellPosition | undefined {
+      const r = this.layoutController.hitTest(x, y);
+      if (!r || r.cellType != CellType.regular) {
+         return; }
+      return {rowNdx: r.rowNdx, colNdx: r.colNdx}; }
+
+   // Fires a `viewport-position-change` event if the specified cell is not fully visible.
+   private scrollIntoView (cell: CellPosition) {
+      const rp = this.layoutController.renderParms;
+      const rs = this.layoutController.renderedState;
+      if (!rp || !rs) {
+         return; }
+      const oldPos = rs.viewportPosition;
+      const scrollMode = this.controllerParms.scrollMode;
+      const row = GridScroll.process(genScrollInputParms(rp, rs, true, ScrollUnit.intoView, cell.rowNdx, scrollMode));
+      const col = GridScroll.process(genScrollInputParms(rp, rs, false, ScrollUnit.intoView, cell.colNdx, scrollMode));
+      if (row.topNdx == oldPos.rowNdx && row.pixelOffset == oldPos.rowPixelOffset && col.topNdx == oldPos.colNdx && col.pixelOffset == oldPos.colPixelOffset) {
+         return; }
+      const viewportPosition: ViewportPosition = {rowNdx: row.topNdx, colNdx: col.topNdx, rowPixelOffset: row.pixelOffset, colPixelOffset: col.pixelOffset};
+      this.dispatchEvent(new CustomEvent("viewport-position-change", {detail: viewportPosition})); }}
+
+function createRange (cell1: CellPosition, cell2: CellPosition) : SelectionRange {
+   return {
+      startRowNdx: Math.min(cell1.rowNdx, cell2.rowNdx),
+      startColNdx: Math.min(cell1.colNdx, cell2.colNdx),
+      endRowNdx:   Math.max(cell1.rowNdx, cell2.rowNdx),
+      endColNdx:   Math.max(cell1.colNdx, cell2.colNdx) }; }
+
+// Returns the nearest row/column that is not hidden (size 0), preferably in the direction of the movement.
+function skipHiddenElements (sizes: SizeSource, ndx: number, reverse: boolean) : number {
+   const n = getSizeCount(sizes);
+   for (const dir of reverse ? [-1, 1] : [1, -1]) {
+      for (let i = ndx; i >= 0 && i < n; i += dir) {
+         if (getSize(sizes, i) != 0) {
+            return i; }}}
+   return ndx; }
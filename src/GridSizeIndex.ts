@@ -0,0 +1,123 @@
+// Size index for grids.
+
+// This module implements a prefix-sum index over row heights or column widths, based on a Fenwick tree.
+// It can be used to compute pixel positions in O(log n) instead of scanning the element sizes linearly.
+//
+// Undetermined sizes (-1) are tracked separately from the measured sizes. The estimated size, which
+// is used for the undetermined elements, is the average of the measured sizes, or the default size
+// if no elements have been measured yet. Positions and the total size are therefore exact when all
+// sizes have been measured and estimated otherwise.
+
+import {SizeSource, getSizeCount, getSize} from "./GridSizeProvider";
+
+export class SizeIndex {
+   private n:                number;                         // number of elements
+   private defaultSize:      number;                         // estimated size used when no elements have been measured
+   private sizes:            Float64Array;                   // element sizes, -1 = undetermined
+   private sumTree:          Float64Array;                   // Fenwick tree of the measured sizes [1..n]
+   private countTree:        Float64Array;                   // Fenwick tree of the number of measured elements [1..n]
+   private measuredSum:      number;                         // sum of all measured sizes
+   private measuredCount:    number;                         // number of measured elements
+   constructor (count: number, defaultSize: number) {
+      this.n = count;
+      this.defaultSize = defaultSize;
+      this.sizes = new Float64Array(count).fill(-1);
+      this.sumTree = new Float64Array(count + 1);
+      this.countTree = new Float64Array(count + 1);
+      this.measuredSum = 0;
+      this.measuredCount = 0; }
+   // Creates an index from an array of element sizes or a size provider in O(n). The sizes may contain -1 for undetermined sizes.
+   public static fromArray (a: SizeSource, defaultSize: number) : SizeIndex {
+      const index = new SizeIndex(getSizeCount(a), defaultSize);
+      index.build(a);
+      return index; }
+   // Returns the number of elements.
+   public get count() : number {
+      return this.n; }
+   // Returns true if all element sizes have been measured.
+   public get exact() : boolean {
+      return this.measuredCount == this.n; }
+   // Returns the size of an element, -1 if the size is undetermined.
+   public getSize (ndx: number) : number {
+      return this.sizes[ndx]; }
+   // Updates the size of an element in O(log n). -1 marks the size as undetermined.
+   public setSize (ndx: number, size: number) {
+      const oldSize = this.sizes[ndx];
+      if (size == oldSize) {
+         return; }
+      const oldMeasured = oldSize != -1;
+      const newMeasured = size != -1;
+      const sizeDelta = (newMeasured ? Math.max(0, size) : 0) - (oldMeasured ? Math.max(0, oldSize) : 0);
+      const countDelta = Number(newMeasured) - Number(oldMeasured);
+      this.sizes[ndx] = size;
+      this.measuredSum += sizeDelta;
+      this.measuredCount += countDelta;
+      let i = ndx + 1;
+      for (let step = 1; i <= this.n; step *= 2) {                   // visit the nodes that cover the element, `step` is the range size of node `i`
+         if (i % (2 * step) != 0) {
+            this.sumTree[i] += sizeDelta;
+            this.countTree[i] += countDelta;
+            i += step; }}}
+   // Copies the sizes of the elements [startNdx..startNdx+n-1] from an array or a size provider, e.g. after a `measure` function has been called.
+   public setSizes (a: SizeSource, startNdx: number, n: number) {
+      const endNdx = Math.min(this.n, startNdx + n);
+      for (let ndx = Math.max(0, startNdx); ndx < endNdx; ndx++) {
+         this.setSize(ndx, getSize(a, ndx)); }}
+   // Returns the size that is used for undetermined elements.
+   public getEstimatedSize() : number {
+      return (this.measuredCount > 0) ? this.measuredSum / this.measuredCount : this.defaultSize; }
+   // Returns the sum of all element sizes.
+   public getTotalSize() : number {
+      return this.measuredSum + (this.n - this.measuredCount) * this.getEstimatedSize(); }
+   // Returns the start position of an element, i.e. the sum of the sizes of the elements [0..ndx-1].
+   // `ndx` may be equal to `count`, which returns the total size. Indexes outside of the range 0..count are clipped.
+   public getOffset (ndx: number) : number {
+      const ndx2 = Math.max(0, Math.min(this.n, ndx));
+      const estimatedSize = this.getEstimatedSize();
+      let sum = 0;
+      let measured = 0;
+      let i = ndx2;
+      for (let step = 1; i > 0; step *= 2) {                         // visit the nodes that make up the prefix, `step` is the range size of node `i`
+         if (i % (2 * step) != 0) {
+            sum += this.sumTree[i];
+            measured += this.countTree[i];
+            i -= step; }}
+      return sum + (ndx2 - measured) * estimatedSize; }
+   // Returns the index of the element that contains the specified position.
+   // Elements with a size of 0 are skipped. Positions outside of the grid are clipped to the first or last element.
+   public findIndex (offset: number) : number {
+      if (this.n == 0) {
+         return 0; }
+      const estimatedSize = this.getEstimatedSize();
+      let ndx = 0;
+      let remaining = offset;
+      for (let step = highestPowerOfTwo(this.n); step > 0; step = Math.floor(step / 2)) {
+         const next = ndx + step;
+         if (next > this.n) {
+            continue; }
+         const nodeSize = this.sumTree[next] + (step - this.countTree[next]) * estimatedSize;
+         if (nodeSize <= remaining) {
+            ndx = next;
+            remaining -= nodeSize; }}
+      return Math.min(this.n - 1, ndx); }
+   private build (a: SizeSource) {
+      const n = this.n;
+      for (let ndx = 0; ndx < n; ndx++) {
+         const size = getSize(a, ndx);
+         this.sizes[ndx] = size;
+         if (size != -1) {
+            const i = ndx + 1;
+            this.sumTree[i] += Math.max(0, size);
+            this.countTree[i] += 1;
+            this.measuredSum += Math.max(0, size);
+            this.measuredCount++; }}
+      for (let step = 1; step < n; step *= 2) {                      // propagate the partial sums upwards, level by level
+         for (let i = step; i + step <= n; i += 2 * step) {          // nodes with a range size of `step`, their parent is `i + step`
+            this.sumTree[i + step] += this.sumTree[i];
+            this.countTree[i + step] += this.countTree[i]; }}}}
+
+function highestPowerOfTwo (n: number) : number {
+   let p = 1;
+   while (p * 2 <= n) {
+      p *= 2; }
+   return p; }
@@ -0,0 +1,57 @@
+// Size providers for grids.
+
+// A size provider is an alternative to the arrays of row heights and column widths
+// (`RenderParms.rowHeights`/`colWidths`/`macroCellHeights`, `GridScroll.InputParms.elementSizes`).
+// It does not require an array with one entry per row or column, which allows for grids with a
+// virtually unbounded number of rows.
+//
+// The same protocol as for the arrays applies: A size of -1 means that the size has not yet been
+// determined. The `measure` function of the layout controller or of the scroll logic is called to
+// measure undetermined sizes and must store the measured sizes in the size provider.
+
+export interface SizeProvider {
+   readonly count:                     number;                       // number of rows/columns
+   get (ndx: number) :                 number; }                     // returns the size of a row/column in pixels, -1 = undetermined
+
+// An array of sizes or a size provider.
+export type SizeSource = ArrayLike<number> | SizeProvider;
+
+// A size provider with a default size and a sparse map of sizes that differ from the default size.
+// Memory is only used for the overridden sizes.
+export class SparseSizeProvider implements SizeProvider {
+   public  count:            number;                         // number of rows/columns
+   public  defaultSize:      number;                         // size of the rows/columns without an override, -1 = undetermined
+   private overrides:        Map<number, number>;            // sizes that differ from the default size
+   constructor (count: number, defaultSize = -1) {
+      this.count = count;
+      this.defaultSize = defaultSize;
+      this.overrides = new Map(); }
+   public get (ndx: number) : number {
+      const size = this.overrides.get(ndx);
+      return (size == undefined) ? this.defaultSize : size; }
+   // Sets the size of a row/column. Setting the default size removes the override.
+   public set (ndx: number, size: number) {
+      if (size == this.defaultSize) {
+         this.overrides.delete(ndx); }
+       else {
+         this.overrides.set(ndx, size); }}
+   // Resets the size of a row/column to the default size.
+   public reset (ndx: number) {
+      this.overrides.delete(ndx); }
+   // Resets the sizes of all rows/columns to the default size.
+   public clear() {
+      this.overrides.clear(); }
+   // Returns the number of overridden sizes.
+   public get overrideCount() : number {
+      return this.overrides.size; }}
+
+export function isSizeProvider (sizes: SizeSource) : sizes is SizeProvider {
+   return "get" in sizes; }
+
+// Returns the number of entries of an array of sizes or a size provider.
+export function getSizeCount (sizes: SizeSource) : number {
+   return isSizeProvider(sizes) ? sizes.count : sizes.length; }
+
+// Returns an entry of an array of sizes or a size provider.
+export function getSize (sizes: SizeSource, ndx: number) : number {
+   return isSizeProvider(sizes) ? sizes.get(ndx) : sizes[ndx]; }
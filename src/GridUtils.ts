@@ -1,4 +1,32 @@
-import {ScrollUnit} from "./GridScroll";
+import {RenderParms, RenderedState, ViewportPosition, getEstimatedSize} from "./GridLayout";
+import * as GridScroll from "./GridScroll";
+import {ScrollUnit, ScrollMode} from "./GridScroll";
+import {getSizeCount} from "./GridSizeProvider";
+
+// A helper routine for generating the `GridScroll` input parameters of a rendered grid.
+// The sizes, frozen elements, measure functions and size indexes are taken from the render parameters,
+// the viewport size from the rendered state.
+//
+// @param orientation
+//    false = horizontal, true = vertical
+// @param pos
+//    Viewport position to start from, default is the rendered viewport position.
+export function genScrollInputParms (rp: RenderParms, rs: RenderedState, orientation: boolean, scrollUnit: ScrollUnit, scrollValue: number, scrollMode: ScrollMode | undefined, pos: ViewportPosition = rs.viewportPosition) : GridScroll.InputParms {
+   const measure = rp.measure;
+   const elementSizes = orientation ? rp.rowHeights : rp.colWidths;
+   return {
+      scrollUnit,
+      scrollValue,
+      scrollMode,
+      topNdx:       orientation ? pos.rowNdx : pos.colNdx,
+      pixelOffset:  orientation ? pos.rowPixelOffset : pos.colPixelOffset,
+      elementCount: getSizeCount(elementSizes),
+      viewportSize: orientation ? rs.viewportHeight : rs.viewportWidth,
+      elementSizes,
+      frozenCount:  orientation ? rp.frozenRows : rp.frozenCols,
+      measure:      measure ? (startNdx: number, n: number) => measure(startNdx, n, orientation) : undefined,
+      estimatedSize: getEstimatedSize(rp, orientation),
+      sizeIndex:    orientation ? rp.rowSizeIndex : rp.colSizeIndex }; }
 
 // A helper routine for processing a `scrollbar-input` event of a `plain-scrollbar`.
 export function convertPlainScrollbarInputEvent (event: CustomEvent) : {scrollUnit: ScrollUnit; scrollValue: number} | undefined {
@@ -11,9 +39,26 @@ export function convertPlainScrollbarInputEvent (event: CustomEvent) : {scrollUn
       case "incrementLarge": return {scrollUnit: ScrollUnit.largeIncr,    scrollValue:  1             };
       default:               return; }}
 
+// A helper routine for converting the deltas of a `WheelEvent` into pixels, for use with `ScrollUnit.pixelIncr`.
+//
+// @param lineSize
+//    Number of pixels per line, used when the deltas of the event are specified in lines.
+// @param pageSize
+//    Number of pixels per page, used when the deltas of the event are specified in pages.
+export function convertWheelEventToPixels (event: WheelEvent, lineSize = 16, pageSize = 800) : {deltaX: number; deltaY: number} {
+   let factor: number;
+   switch (event.deltaMode) {
+      case 1:  factor = lineSize; break;                           // WheelEvent.DOM_DELTA_LINE
+      case 2:  factor = pageSize; break;                           // WheelEvent.DOM_DELTA_PAGE
+      default: factor = 1; }
+   return {deltaX: event.deltaX * factor, deltaY: event.deltaY * factor}; }
+
 // A helper routine for processing a `KeyboardEvent` for scrolling.
-export function convertKeyboardEvent (event: KeyboardEvent) : {orientation: boolean; scrollUnit: ScrollUnit; scrollValue: number} | undefined {
-   const keyName = genKeyName(event);
+//
+// @param rtl
+//    true if the grid is in RTL mode. The ArrowLeft and ArrowRight keys are swapped, so that they scroll in their visual direction.
+export function convertKeyboardEvent (event: KeyboardEvent, rtl = false) : {orientation: boolean; scrollUnit: ScrollUnit; scrollValue: number} | undefined {
+   const keyName = swapArrowKeys(genKeyName(event), rtl);
    switch (keyName) {
       case "PageDown":   return {orientation: true,  scrollUnit: ScrollUnit.largeIncr,    scrollValue:  1};
       case "PageUp":     return {orientation: true,  scrollUnit: ScrollUnit.largeIncr,    scrollValue: -1};
@@ -27,6 +72,14 @@ export function convertKeyboardEvent (event: KeyboardEvent) : {orientation: bool
       case "Ctrl-End":   return {orientation: true,  scrollUnit: ScrollUnit.propPosition, scrollValue:  1};
       default:           return; }}
 
+function swapArrowKeys (keyName: string, rtl: boolean) : string {
+   if (!rtl) {
+      return keyName; }
+   switch (keyName) {
+      case "ArrowLeft":  return "ArrowRight";
+      case "ArrowRight": return "ArrowLeft";
+      default:           return keyName; }}
+
 export function genKeyName (event: KeyboardEvent) : string {
    const s =
       (event.shiftKey ? "Shift-" : "") +
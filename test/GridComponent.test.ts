@@ -0,0 +1,162 @@
+// @vitest-environment jsdom
+
+import {describe, it, expect, vi, beforeEach, afterEach} from "vitest";
+import {CellType, ViewportPosition} from "../src/GridLayout";
+import {ScrollAlignment} from "../src/GridScroll";
+import {VirtualGrid, DataSource, GridParms, CachedSizeProvider} from "../src/GridComponent";
+
+function createViewportElement (width: number, height: number) : HTMLElement {
+   const element = document.createElement("div");
+   Object.defineProperty(element, "clientWidth", {value: width});
+   Object.defineProperty(element, "clientHeight", {value: height});
+   document.body.appendChild(element);
+   return element; }
+
+// A data source with rows of 20 px and columns of 50 px, which records the calls of its functions.
+function createDataSource() {
+   const rowHeightCalls: number[] = [];
+   const preparedCells: {rowNdx: number; colNdx: number; oldCell?: HTMLElement; recycledCell?: HTMLElement}[] = [];
+   const dataSource: DataSource = {
+      getRowHeight: (rowNdx: number) => {
+         rowHeightCalls.push(rowNdx);
+         return 20; },
+      getColWidth: () => 50,
+      prepareCell: (_cellType: CellType, rowNdx: number, colNdx: number, _width: number, _height: number, oldCell: HTMLElement | undefined, recycledCell?: HTMLElement) => {
+         preparedCells.push({rowNdx, colNdx, oldCell, recycledCell});
+         if (oldCell) {
+            return oldCell; }
+         const cell = recycledCell || document.createElement("div");
+         cell.textContent = rowNdx + "/" + colNdx;
+         return cell; }};
+   return {dataSource, rowHeightCalls, preparedCells}; }
+
+describe("VirtualGrid", () => {
+
+   beforeEach(() => {
+      vi.useFakeTimers(); });
+
+   afterEach(() => {
+      vi.useRealTimers(); });
+
+   function createGrid (gp: Partial<GridParms> = {}) {
+      const ds = createDataSource();
+      const grid = new VirtualGrid({viewportElement: createViewportElement(250, 100), dataSource: ds.dataSource, rowCount: 100, colCount: 5, observeViewportResize: false, ...gp});
+      return {grid, ...ds}; }
+
+   it("renders in the next animation frame and fires a `render` event", () => {
+      const {grid} = createGrid();
+      let renderCount = 0;
+      grid.addEventListener("render", () => renderCount++);
+      expect(grid.layoutController.renderedState).toBeUndefined();
+      vi.advanceTimersToNextFrame();
+      expect(renderCount).toBe(1);
+      expect(grid.layoutController.renderedState!.visibleRows).toBe(5);
+      grid.requestRender();
+      grid.requestRender();
+      vi.advanceTimersToNextFrame();
+      expect(renderCount).toBe(2);
+      grid.dispose(); });
+
+   it("moves the viewport position back into the grid when the row count is reduced", () => {
+      const {grid} = createGrid();
+      const positions: ViewportPosition[] = [];
+      grid.addEventListener("viewport-position-change", (event) => positions.push(event.detail));
+      grid.scrollTo(90);
+      expect(grid.viewportPosition.rowNdx).toBe(90);
+      grid.setRowCount(50);
+      expect(grid.rowCount).toBe(50);
+      expect(grid.viewportPosition.rowNdx).toBe(49);
+      expect(positions.map((p) => p.rowNdx)).toEqual([90, 49]);
+      vi.advanceTimersToNextFrame();
+      expect(grid.layoutController.renderParms!.rowHeights).toMatchObject({count: 50});
+      grid.dispose(); });
+
+   it("reads the sizes of invalidated rows again and offers their cells for recycling", () => {
+      const {grid, rowHeightCalls, preparedCells} = createGrid();
+      vi.advanceTimersToNextFrame();
+      const oldCell = grid.layoutController.renderedState!.regularCells.get(2, 1);
+      rowHeightCalls.length = 0;
+      preparedCells.length = 0;
+      grid.invalidateRows(2);
+      vi.advanceTimersToNextFrame();
+      expect(rowHeightCalls).toContain(2);
+      expect(rowHeightCalls).not.toContain(3);
+      const row2Calls = preparedCells.filter((c) => c.rowNdx == 2);
+      expect(row2Calls.length).toBe(5);
+      expect(row2Calls.every((c) => !c.oldCell && !!c.recycledCell)).toBe(true);
+      expect(row2Calls.find((c) => c.colNdx == 1)!.recycledCell).toBe(oldCell);
+      expect(preparedCells.filter((c) => c.rowNdx == 3).every((c) => !!c.oldCell)).toBe(true);
+      grid.dispose(); });
+
+   it("places the target row according to the alignment of `scrollTo`", () => {
+      const {grid} = createGrid();
+      grid.scrollTo(50);
+      expect(grid.viewportPosition.rowNdx).toBe(50);
+      grid.scrollTo(30, 3, ScrollAlignment.end);
+      expect(grid.viewportPosition).toMatchObject({rowNdx: 26, colNdx: 0});
+      grid.scrollTo(60, undefined, ScrollAlignment.center);
+      expect(grid.viewportPosition.rowNdx).toBe(58);
+      grid.scrollTo(60, undefined, ScrollAlignment.nearest);
+      expect(grid.viewportPosition.rowNdx).toBe(58);
+      grid.dispose(); });
+
+   it("applies resized rows and fires a typed `element-resize` event", () => {
+      const resizeParms = {rowSizingEnabled: true, colSizingEnabled: true, rowSizingTopWidth: 3, rowSizingBottomWidth: 3, colSizingLeftWidth: 3, colSizingRightWidth: 3};
+      const {grid, dataSource} = createGrid({resizeParms});
+      const setRowHeight = vi.fn();
+      dataSource.setRowHeight = setRowHeight;
+      vi.advanceTimersToNextFrame();
+      const sizes: number[] = [];
+      grid.addEventListener("element-resize", (event) => {
+         if (event.detail.orientation) {
+            sizes.push(...event.detail.sizes.map((e) => e.size)); }});
+      grid.resizeController!.dispatchEvent(new CustomEvent("element-resize", {detail: {orientation: true, sizes: [{ndx: 1, size: 40}]}}));
+      expect(sizes).toEqual([40]);
+      expect(setRowHeight).toHaveBeenCalledWith(1, 40);
+      vi.advanceTimersToNextFrame();
+      expect(grid.layoutController.renderedState!.visibleRowHeights[1]).toBe(40);
+      grid.dispose(); });
+
+   it("stops rendering after `dispose()`", () => {
+      const {grid} = createGrid();
+      grid.dispose();
+      vi.advanceTimersToNextFrame();
+      expect(grid.layoutController.renderedState).toBeUndefined(); }); });
+
+describe("CachedSizeProvider", () => {
+
+   function createProvider() {
+      const calls: number[] = [];
+      const provider = new CachedSizeProvider(10, (ndx) => {
+         calls.push(ndx);
+         return ndx * 10; });
+      return {provider, calls}; }
+
+   it("reads each size once from the data source", () => {
+      const {provider, calls} = createProvider();
+      expect(provider.get(3)).toBe(30);
+      expect(provider.get(3)).toBe(30);
+      expect(provider.get(4)).toBe(40);
+      expect(calls).toEqual([3, 4]); });
+
+   it("keeps sizes that have been set until they are invalidated", () => {
+      const {provider, calls} = createProvider();
+      provider.set(3, 99);
+      expect(provider.get(3)).toBe(99);
+      provider.invalidate(3);
+      expect(provider.get(3)).toBe(30);
+      provider.get(4);
+      provider.invalidateAll();
+      provider.get(4);
+      expect(calls).toEqual([3, 4, 4]); });
+
+   it("discards the cached sizes beyond a reduced count", () => {
+      const {provider, calls} = createProvider();
+      provider.set(8, 99);
+      provider.set(2, 77);
+      provider.setCount(5);
+      expect(provider.count).toBe(5);
+      provider.setCount(10);
+      expect(provider.get(8)).toBe(80);
+      expect(provider.get(2)).toBe(77);
+      expect(calls).toEqual([8]); }); });
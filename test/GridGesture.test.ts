@@ -0,0 +1,150 @@
+// @vitest-environment jsdom
+
+import {describe, it, expect, vi, beforeEach, afterEach} from "vitest";
+import {RenderParms, LayoutController, ViewportPosition} from "../src/GridLayout";
+import {GestureController, ControllerParms} from "../src/GridGesture";
+import {ResizeController} from "../src/GridResize";
+import {installPointerEventSupport, dispatchPointerEvent} from "./PointerEventUtils";
+
+function createViewportElement (width: number, height: number) : HTMLElement {
+   const element = document.createElement("div");
+   Object.defineProperty(element, "clientWidth", {value: width});
+   Object.defineProperty(element, "clientHeight", {value: height});
+   document.body.appendChild(element);
+   return element; }
+
+// Renders a grid with 100 rows of 20 px and 10 columns of 50 px into a viewport of 250 x 100 px and creates a gesture controller.
+// The grid is re-rendered when the gesture controller changes the viewport position.
+function createGrid (cp: Partial<ControllerParms> = {}) {
+   const layoutController = new LayoutController(createViewportElement(250, 100));
+   const renderParms: RenderParms = {
+      viewportPosition: {rowNdx: 0, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0},
+      rowHeights:       new Int16Array(100).fill(20),
+      colWidths:        new Int16Array(10).fill(50),
+      macroCellWidth:   0,
+      vCellOverlap:     0,
+      prepareCell:      (_cellType, _rowNdx, _colNdx, _width, _height, oldCell) => oldCell || document.createElement("div"),
+      aria:             false };
+   layoutController.render(renderParms);
+   const gestureController = new GestureController({layoutController, ...cp});
+   const positions: ViewportPosition[] = [];
+   gestureController.addEventListener("viewport-position-change", (event) => {
+      const viewportPosition = (<CustomEvent>event).detail;
+      positions.push(viewportPosition);
+      layoutController.render({...renderParms, viewportPosition}); });
+   const viewportElement = layoutController.viewportElement;
+   const getContentTransform = () => (<HTMLElement>viewportElement.firstElementChild).style.transform;
+   // Drags a touch pointer vertically in steps of 16 ms.
+   const touchDrag = (clientYs: number[], release = true) => {
+      dispatchPointerEvent(viewportElement, "pointerdown", {clientX: 120, clientY: clientYs[0], pointerType: "touch"});
+      for (const clientY of clientYs.slice(1)) {
+         vi.advanceTimersByTime(16);
+         dispatchPointerEvent(viewportElement, "pointermove", {clientX: 120, clientY, pointerType: "touch"}); }
+      if (release) {
+         dispatchPointerEvent(viewportElement, "pointerup", {clientX: 120, clientY: clientYs[clientYs.length - 1], pointerType: "touch"}); }};
+   return {layoutController, viewportElement, gestureController, positions, getContentTransform, touchDrag}; }
+
+describe("GestureController", () => {
+
+   beforeEach(() => {
+      installPointerEventSupport();
+      vi.useFakeTimers(); });
+
+   afterEach(() => {
+      vi.useRealTimers(); });
+
+   it("scrolls by touch drags and ignores mouse pointers", () => {
+      const {layoutController, positions, touchDrag, viewportElement} = createGrid({friction: 0});
+      expect(viewportElement.style.touchAction).toBe("none");
+      touchDrag([80, 70, 45]);
+      expect(positions.map((p) => [p.rowNdx, p.rowPixelOffset])).toEqual([[0, 10], [1, 15]]);
+      dispatchPointerEvent(viewportElement, "pointerdown", {clientX: 120, clientY: 80});
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 120, clientY: 20});
+      expect(positions.length).toBe(2);
+      expect(layoutController.renderedState!.viewportPosition).toMatchObject({rowNdx: 1, rowPixelOffset: 15}); });
+
+   it("continues scrolling with a decaying velocity after the pointer is released", () => {
+      const {layoutController, positions, touchDrag} = createGrid();
+      touchDrag([80, 60, 40]);                                       // 40 px in 32 ms
+      const releasePosition = positions.length;
+      vi.advanceTimersToNextFrame();
+      expect(positions.length).toBe(releasePosition + 1);
+      const firstStep = layoutController.renderedState!.viewportPosition.rowNdx;
+      vi.advanceTimersByTime(5000);
+      expect(vi.getTimerCount()).toBe(0);                            // the animation has ended
+      const rowNdx = layoutController.renderedState!.viewportPosition.rowNdx;
+      expect(firstStep).toBeGreaterThan(2);
+      expect(rowNdx).toBeGreaterThan(10);
+      expect(rowNdx).toBeLessThan(40); });
+
+   it("does not continue scrolling without friction or when the pointer rests before release", () => {
+      const {layoutController, touchDrag} = createGrid({friction: 0});
+      touchDrag([80, 60, 40]);
+      vi.advanceTimersByTime(1000);
+      expect(layoutController.renderedState!.viewportPosition.rowNdx).toBe(2);
+      const {layoutController: layoutController2, viewportElement, touchDrag: touchDrag2} = createGrid();
+      touchDrag2([80, 60, 40], false);
+      vi.advanceTimersByTime(200);
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 120, clientY: 40, pointerType: "touch"});
+      vi.advanceTimersByTime(1000);
+      expect(layoutController2.renderedState!.viewportPosition.rowNdx).toBe(2); });
+
+   it("shifts the content by a limited rubber-band displacement at the edges and returns after release", () => {
+      const {getContentTransform, touchDrag, positions} = createGrid();
+      touchDrag([0, 200], false);                                    // 200 px beyond the top edge
+      expect(positions).toEqual([]);
+      expect(getContentTransform()).toBe("translate(0px,46px)");
+      touchDrag([0, 10000], false);                                  // (the pointer has been captured, only the move is processed)
+      expect(getContentTransform()).toMatch(/^translate\(0px,(7[5-9]|80)px\)$/);
+      dispatchPointerEvent(document.body, "pointerup", {pointerType: "touch"});
+      vi.advanceTimersByTime(2000);
+      expect(getContentTransform()).toBe("");
+      expect(vi.getTimerCount()).toBe(0);
+      expect(positions).toEqual([]); });
+
+   it("applies the rubber-band limit", () => {
+      const {getContentTransform, touchDrag} = createGrid({rubberBandLimit: 20});
+      touchDrag([0, 10000], false);
+      expect(getContentTransform()).toBe("translate(0px,20px)");
+      const {getContentTransform: getContentTransform2, touchDrag: touchDrag2} = createGrid({rubberBandLimit: 0});
+      touchDrag2([0, 200], false);
+      expect(getContentTransform2()).toBe(""); });
+
+   it("hands the pointer over to the resize controller after a long-press on a boundary", () => {
+      const {layoutController, viewportElement, positions} = createGrid();
+      const resizeController = new ResizeController({layoutController, rowSizingEnabled: true, colSizingEnabled: false,
+         rowSizingTopWidth: 2, rowSizingBottomWidth: 2, colSizingLeftWidth: 3, colSizingRightWidth: 3});
+      const resizeEvents: string[] = [];
+      for (const type of ["element-resize-start", "element-resize", "element-resize-commit", "element-resize-cancel"]) {
+         resizeController.addEventListener(type, (event) => resizeEvents.push(type + ":" + (<CustomEvent>event).detail.size)); }
+      dispatchPointerEvent(viewportElement, "pointerdown", {clientX: 120, clientY: 42, pointerType: "touch"});   // near the boundary after row 1
+      vi.advanceTimersByTime(500);
+      expect(resizeEvents).toEqual(["element-resize-start:20"]);
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 120, clientY: 62, pointerType: "touch"});
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 120, clientY: 62, pointerType: "touch"});
+      vi.advanceTimersByTime(1000);
+      expect(resizeEvents).toEqual(["element-resize-start:20", "element-resize:40", "element-resize-commit:40"]);
+      expect(positions).toEqual([]);                                 // the gesture has ended without scrolling
+      resizeController.dispose(); });
+
+   it("releases the pointer and resets the content offset on dispose", () => {
+      const {viewportElement, gestureController, getContentTransform, touchDrag, positions} = createGrid();
+      touchDrag([0, 200], false);
+      expect(viewportElement.hasPointerCapture(1)).toBe(true);
+      gestureController.dispose();
+      expect(viewportElement.hasPointerCapture(1)).toBe(false);
+      expect(getContentTransform()).toBe("");
+      expect(viewportElement.style.touchAction).toBe("");            // (restored)
+      touchDrag([80, 40]);
+      vi.advanceTimersByTime(1000);
+      expect(positions).toEqual([]); });
+
+   it("does not release a pointer capture on dispose that has already been lost", () => {
+      const {viewportElement, gestureController, touchDrag} = createGrid();
+      touchDrag([0, 50], false);
+      document.body.setPointerCapture(1);                            // (the `lostpointercapture` event has not yet been processed)
+      const releasePointerCapture = vi.spyOn(viewportElement, "releasePointerCapture").mockImplementation(() => {
+         throw new DOMException("No active pointer.", "NotFoundError"); });
+      expect(() => gestureController.dispose()).not.toThrow();
+      expect(releasePointerCapture).not.toHaveBeenCalled();
+      document.body.releasePointerCapture(1); }); });
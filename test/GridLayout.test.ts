@@ -0,0 +1,632 @@
+// @vitest-environment jsdom
+
+import {describe, it, expect, vi, beforeEach, afterEach} from "vitest";
+import {CellType, RenderParms, LayoutController, CellPool} from "../src/GridLayout";
+import {SizeIndex} from "../src/GridSizeIndex";
+
+function createViewportElement (width: number, height: number) : HTMLElement {
+   const element = document.createElement("div");
+   Object.defineProperty(element, "clientWidth", {value: width});
+   Object.defineProperty(element, "clientHeight", {value: height});
+   document.body.appendChild(element);
+   return element; }
+
+function prepareCell (_cellType: CellType, rowNdx: number, colNdx: number, _width: number, _height: number, oldCell: HTMLElement | undefined, recycledCell?: HTMLElement) : HTMLElement {
+   if (oldCell) {
+      return oldCell; }
+   const cell = recycledCell || document.createElement("div");
+   cell.textContent = rowNdx + "/" + colNdx;
+   return cell; }
+
+// Counts the cells that have been inserted into and removed from the DOM since the last call.
+function countMutations (observer: MutationObserver) : {inserted: number; removed: number} {
+   let inserted = 0;
+   let removed = 0;
+   for (const record of observer.takeRecords()) {
+      inserted += record.addedNodes.length;
+      removed += record.removedNodes.length; }
+   return {inserted, removed}; }
+
+describe("LayoutController.render", () => {
+
+   it("updates the DOM incrementally when scrolling by one row", () => {
+      const viewportElement = createViewportElement(250, 100);
+      const controller = new LayoutController(viewportElement);
+      const rp: RenderParms = {
+         viewportPosition: {rowNdx: 10, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0},
+         rowHeights:       new Int16Array(100).fill(20),
+         colWidths:        new Int16Array(5).fill(50),
+         macroCellWidth:   0,
+         vCellOverlap:     0,
+         prepareCell };
+      const render = (rowNdx: number) => {
+         controller.render({...rp, viewportPosition: {...rp.viewportPosition, rowNdx}}); };
+      const observer = new MutationObserver(() => undefined);
+      observer.observe(viewportElement, {childList: true, subtree: true});
+
+      render(10);
+      const cellContainer = viewportElement.firstElementChild!;
+      expect(cellContainer.children.length).toBe(25);
+      observer.takeRecords();
+
+      const rowCells = (rowNdx: number) => Array.from({length: 5}, (_, colNdx) => controller.renderedState!.regularCells.get(rowNdx, colNdx)!);
+      const cellsOfRows = (rowNdxs: number[]) => rowNdxs.reduce((a, rowNdx) => a.concat(rowCells(rowNdx)), <HTMLElement[]>[]);
+      const keptCells = cellsOfRows([11, 12, 13, 14]);
+      render(11);                                                   // only the cells of row 10 are removed and the cells of row 15 inserted
+      expect(countMutations(observer)).toEqual({inserted: 5, removed: 5});
+      expect(cellsOfRows([11, 12, 13, 14]).every((cell, i) => cell == keptCells[i])).toBe(true);
+      expect(keptCells.every((cell) => cell.parentNode == cellContainer)).toBe(true);
+      expect(rowCells(15).map((cell) => cell.textContent)).toEqual(["15/0", "15/1", "15/2", "15/3", "15/4"]);
+      expect(cellContainer.children.length).toBe(25);
+
+      render(12);
+      expect(countMutations(observer)).toEqual({inserted: 5, removed: 5});
+      expect(cellContainer.children.length).toBe(25);
+
+      render(12);                                                   // re-rendering the same position does not touch the DOM
+      expect(countMutations(observer)).toEqual({inserted: 0, removed: 0});
+      observer.disconnect(); }); });
+
+describe("LayoutController.render with a cell pool", () => {
+
+   function genRenderParms (releaseCell: (cell: HTMLElement) => void) : RenderParms {
+      return {
+         viewportPosition: {rowNdx: 10, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0},
+         rowHeights:       new Int16Array(100).fill(20),
+         colWidths:        new Int16Array(5).fill(50),
+         macroCellWidth:   0,
+         vCellOverlap:     0,
+         prepareCell,
+         releaseCell }; }
+
+   it("recycles the cells that have scrolled out of the viewport", () => {
+      const released: HTMLElement[] = [];
+      const rp = genRenderParms((cell) => released.push(cell));
+      const controller = new LayoutController(createViewportElement(250, 100));
+      const pool = new CellPool();
+      controller.cellPool = pool;
+      const render = (rowNdx: number) => {
+         pool.resetStatistics();
+         controller.render({...rp, viewportPosition: {...rp.viewportPosition, rowNdx}}); };
+      const rowCells = (rowNdx: number) => Array.from({length: 5}, (_, colNdx) => controller.renderedState!.regularCells.get(rowNdx, colNdx)!);
+
+      render(10);
+      expect(pool.statistics).toEqual({hits: 0, misses: 25, created: 25});
+      const scrolledOutCells = rowCells(10);
+      render(11);                                                   // the cells of the new row are created, the pool is still empty
+      expect(pool.statistics).toEqual({hits: 0, misses: 5, created: 5});
+      expect(pool.size).toBe(5);
+      render(12);                                                   // the cells of row 10 are recycled for row 16
+      expect(pool.statistics).toEqual({hits: 5, misses: 0, created: 0});
+      expect(pool.size).toBe(5);
+      expect(rowCells(16).every((cell) => scrolledOutCells.includes(cell))).toBe(true);
+      expect(rowCells(16).map((cell) => cell.textContent)).toEqual(["16/0", "16/1", "16/2", "16/3", "16/4"]);
+      render(12);
+      expect(pool.statistics).toEqual({hits: 0, misses: 0, created: 0});
+      expect(released).toEqual([]); });
+
+   it("releases the cells that do not fit into the pool", () => {
+      const released: HTMLElement[] = [];
+      const rp = genRenderParms((cell) => released.push(cell));
+      const controller = new LayoutController(createViewportElement(250, 100));
+      const pool = new CellPool(3);
+      controller.cellPool = pool;
+      const render = (rowNdx: number) => {
+         pool.resetStatistics();
+         controller.render({...rp, viewportPosition: {...rp.viewportPosition, rowNdx}}); };
+      render(10);
+      render(11);
+      expect(pool.size).toBe(3);
+      expect(released.length).toBe(2);
+      render(12);
+      expect(pool.statistics).toEqual({hits: 3, misses: 2, created: 2});
+      expect(pool.size).toBe(3);
+      expect(released.length).toBe(4); });
+
+   it("releases all cells on clear() instead of putting them into the pool", () => {
+      const released: HTMLElement[] = [];
+      const controller = new LayoutController(createViewportElement(250, 100));
+      controller.cellPool = new CellPool();
+      controller.render(genRenderParms(() => undefined));
+      const cells = controller.renderedState!.regularCells.getAll();
+      controller.clear((cell) => released.push(cell));
+      expect(released.length).toBe(25);
+      expect(released.every((cell) => cells.includes(cell))).toBe(true);
+      expect(controller.cellPool.size).toBe(0); }); });
+
+describe("LayoutController.render with ARIA", () => {
+
+   function genRenderParms (rp: Partial<RenderParms> = {}) : RenderParms {
+      return {
+         viewportPosition: {rowNdx: 0, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0},
+         rowHeights:       new Int16Array(100).fill(20),
+         colWidths:        new Int16Array(10).fill(50),
+         macroCellWidth:   0,
+         vCellOverlap:     0,
+         prepareCell,
+         aria:             true,
+         ...rp }; }
+
+   it("sets the grid role and the row and column counts on the viewport element", () => {
+      const controller = new LayoutController(createViewportElement(250, 100));
+      const viewportElement = controller.viewportElement;
+      controller.render(genRenderParms());
+      expect(viewportElement.getAttribute("role")).toBe("grid");
+      expect(viewportElement.getAttribute("aria-rowcount")).toBe("100");
+      expect(viewportElement.getAttribute("aria-colcount")).toBe("10");
+      const macroCellHeights = new Int16Array(100).fill(10);
+      controller.render(genRenderParms({macroCellHeights, macroCellWidth: 250}));
+      expect(viewportElement.getAttribute("aria-colcount")).toBe("11"); });   // (the macro cells are an additional column)
+
+   it("places the cells into row elements and sets the row and column indexes of the cells", () => {
+      const controller = new LayoutController(createViewportElement(250, 100));
+      const getCellSpan = (rowNdx: number, colNdx: number) => (rowNdx == 3 && colNdx >= 1 && colNdx <= 2) ? {rowNdx: 3, colNdx: 1, rowSpan: 1, colSpan: 2} : undefined;
+      controller.render(genRenderParms({viewportPosition: {rowNdx: 2, colNdx: 1, rowPixelOffset: 0, colPixelOffset: 0}, getCellSpan}));
+      const cells = controller.renderedState!.regularCells;
+      const cell = cells.get(4, 3)!;
+      expect([cell.getAttribute("role"), cell.getAttribute("aria-rowindex"), cell.getAttribute("aria-colindex")]).toEqual(["gridcell", "5", "4"]);
+      expect(cell.hasAttribute("aria-colspan")).toBe(false);
+      const rowElement = <HTMLElement>cell.parentElement;
+      expect([rowElement.getAttribute("role"), rowElement.getAttribute("aria-rowindex"), rowElement.style.display]).toEqual(["row", "5", "contents"]);
+      expect(Array.from(rowElement.children).map((e) => e.getAttribute("aria-colindex"))).toEqual(["2", "3", "4", "5", "6"]);
+      const mergedCell = cells.get(3, 1)!;
+      expect([mergedCell.getAttribute("aria-colindex"), mergedCell.getAttribute("aria-colspan")]).toEqual(["2", "2"]);
+      expect(mergedCell.hasAttribute("aria-rowspan")).toBe(false); });
+
+   it("removes the ARIA attributes of the viewport element and the row elements when ARIA is disabled", () => {
+      const controller = new LayoutController(createViewportElement(250, 100));
+      const viewportElement = controller.viewportElement;
+      controller.render(genRenderParms());
+      expect(viewportElement.querySelectorAll("[role=row]").length).toBe(5);
+      controller.render(genRenderParms({aria: false}));
+      for (const name of ["role", "aria-rowcount", "aria-colcount"]) {
+         expect(viewportElement.hasAttribute(name)).toBe(false); }
+      expect(viewportElement.querySelectorAll("[role=row]").length).toBe(0);
+      expect(controller.renderedState!.regularCells.get(0, 0)!.parentElement!.parentElement).toBe(viewportElement); });
+
+   it("keeps the row elements in the order of the row indexes when scrolling", () => {
+      const controller = new LayoutController(createViewportElement(250, 100));
+      const rowIndexes = () => Array.from(controller.viewportElement.querySelectorAll("[role=row]")).map((e) => e.getAttribute("aria-rowindex"));
+      const render = (rowNdx: number, rp: Partial<RenderParms> = {}) => {
+         controller.render(genRenderParms({viewportPosition: {rowNdx, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0}, ...rp})); };
+      render(10);
+      const rowElement11 = controller.renderedState!.regularCells.get(11, 0)!.parentElement;
+      render(9);                                                     // the new row is inserted before the existing rows
+      expect(rowIndexes()).toEqual(["10", "11", "12", "13", "14"]);
+      expect(controller.renderedState!.regularCells.get(11, 0)!.parentElement).toBe(rowElement11);
+      render(6);
+      expect(rowIndexes()).toEqual(["7", "8", "9", "10", "11"]);
+      render(8);
+      expect(rowIndexes()).toEqual(["9", "10", "11", "12", "13"]);
+      render(7, {overscanRows: 1});                                  // (the overscan rows follow the visible rows in the layout slots)
+      expect(rowIndexes()).toEqual(["7", "8", "9", "10", "11", "12", "13"]);
+      render(7, {frozenRows: 2});                                    // new rows before the existing rows
+      expect(rowIndexes()).toEqual(["1", "2", "8", "9", "10"]); });
+
+   it("removes the ARIA attributes of recycled cells when ARIA is disabled", () => {
+      const controller = new LayoutController(createViewportElement(250, 100));
+      controller.cellPool = new CellPool();
+      const getCellSpan = (rowNdx: number, colNdx: number) => (rowNdx == 1 && colNdx <= 1) ? {rowNdx: 1, colNdx: 0, rowSpan: 2, colSpan: 2} : undefined;
+      const atRow = (rowNdx: number) : Partial<RenderParms> => ({viewportPosition: {rowNdx, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0}, getCellSpan});
+      controller.render(genRenderParms(atRow(0)));
+      const ariaCells = controller.renderedState!.regularCells.getAll();
+      controller.render(genRenderParms(atRow(5)));                  // the cells of rows 0 to 4 are put into the pool
+      controller.render(genRenderParms({...atRow(10), aria: false}));
+      const cells = controller.renderedState!.regularCells.getAll();
+      expect(cells.filter((cell) => ariaCells.includes(cell)).length).toBe(ariaCells.length);
+      for (const cell of cells) {
+         for (const name of ["role", "aria-rowindex", "aria-colindex", "aria-rowspan", "aria-colspan"]) {
+            expect(cell!.hasAttribute(name)).toBe(false); }}});
+
+   it("removes the ARIA attributes of the re-used cells when ARIA is disabled", () => {
+      const controller = new LayoutController(createViewportElement(250, 100));
+      controller.render(genRenderParms());
+      const cell = controller.renderedState!.regularCells.get(2, 3)!;
+      controller.render(genRenderParms({aria: false}));
+      expect(controller.renderedState!.regularCells.get(2, 3)).toBe(cell);
+      expect(cell.getAttributeNames().filter((name) => name == "role" || name.startsWith("aria-"))).toEqual([]); }); });
+
+describe("LayoutController.render in RTL mode", () => {
+
+   function genRenderParms (rp: Partial<RenderParms> = {}) : RenderParms {
+      return {
+         viewportPosition: {rowNdx: 0, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0},
+         rowHeights:       new Int16Array(100).fill(20),
+         colWidths:        new Int16Array(10).fill(50),
+         macroCellWidth:   0,
+         vCellOverlap:     0,
+         prepareCell,
+         ...rp }; }
+
+   const getHorizontalPosition = (cell: HTMLElement) => [cell.style.left, cell.style.right, cell.style.width];
+
+   it("positions the cells from the right edge of the viewport", () => {
+      const controller = new LayoutController(createViewportElement(250, 100));
+      controller.direction = "rtl";
+      controller.render(genRenderParms({viewportPosition: {rowNdx: 0, colNdx: 1, rowPixelOffset: 0, colPixelOffset: 10}}));
+      const cells = controller.renderedState!.regularCells;
+      expect(getHorizontalPosition(cells.get(0, 1)!)).toEqual(["", "-10px", "50px"]);
+      expect(getHorizontalPosition(cells.get(0, 3)!)).toEqual(["", "90px", "50px"]);
+      expect(controller.getCellRect(CellType.regular, 0, 3)).toMatchObject({x: 90, width: 50});
+      expect(controller.hitTest(95, 5)).toMatchObject({rowNdx: 0, colNdx: 3, offsetX: 5});
+      expect(controller.clientToViewportCoordinates(155, 5)).toEqual({x: 95, y: 5}); });
+
+   it("anchors the macro cells at the right edge", () => {
+      const controller = new LayoutController(createViewportElement(250, 100));
+      controller.direction = "rtl";
+      controller.render(genRenderParms({macroCellHeights: new Int16Array(100).fill(10), macroCellWidth: 250}));
+      expect(getHorizontalPosition(controller.renderedState!.macroCells.get(0, 0)!)).toEqual(["", "0px", "250px"]); });
+
+   it("switches the cells back to `left` positioning when the direction is changed to LTR", () => {
+      const controller = new LayoutController(createViewportElement(250, 100));
+      controller.direction = "rtl";
+      controller.render(genRenderParms());
+      const cell = controller.renderedState!.regularCells.get(0, 2)!;
+      expect(getHorizontalPosition(cell)).toEqual(["", "100px", "50px"]);
+      controller.direction = "ltr";
+      controller.render(genRenderParms());
+      expect(controller.renderedState!.regularCells.get(0, 2)).toBe(cell);
+      expect(getHorizontalPosition(cell)).toEqual(["100px", "", "50px"]); }); });
+
+describe("LayoutController.hitTest and getCellRect", () => {
+
+   // Renders a grid with 100 rows of 20 px and 10 columns of 50 px into a viewport of 250 x 100 px.
+   function renderGrid (rp: Partial<RenderParms> = {}) : LayoutController {
+      const controller = new LayoutController(createViewportElement(250, 100));
+      controller.render({
+         viewportPosition: {rowNdx: 0, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0},
+         rowHeights:       new Int16Array(100).fill(20),
+         colWidths:        new Int16Array(10).fill(50),
+         macroCellWidth:   0,
+         vCellOverlap:     0,
+         prepareCell,
+         ...rp });
+      return controller; }
+
+   it("returns the cell and the offsets of the point within the cell", () => {
+      const controller = renderGrid();
+      expect(controller.hitTest(60, 30)).toEqual({cellType: CellType.regular, rowNdx: 1, colNdx: 1, cell: controller.renderedState!.regularCells.get(1, 1), offsetX: 10, offsetY: 10, inOverlap: false});
+      expect(controller.getCellRect(CellType.regular, 1, 1)).toEqual({x: 50, y: 20, width: 50, height: 20}); });
+
+   it("reports whether the point lies within the vertical cell overlap", () => {
+      const controller = renderGrid({vCellOverlap: 4});
+      expect(controller.hitTest(60, 35)).toMatchObject({rowNdx: 1, offsetY: 15, inOverlap: false});
+      expect(controller.hitTest(60, 36)).toMatchObject({rowNdx: 1, offsetY: 16, inOverlap: true});
+      expect(controller.hitTest(60, 39)).toMatchObject({rowNdx: 1, offsetY: 19, inOverlap: true});
+      expect(controller.hitTest(60, 40)).toMatchObject({rowNdx: 2, offsetY: 0, inOverlap: false});
+      expect(controller.getCellRect(CellType.regular, 1, 1)).toEqual({x: 50, y: 20, width: 50, height: 20});   // (without the overlap)
+      expect(controller.renderedState!.regularCells.get(1, 1)!.style.height).toBe("24px"); });
+
+   it("resolves the covered positions of a merged cell to the anchor cell", () => {
+      const span = {rowNdx: 1, colNdx: 1, rowSpan: 2, colSpan: 2};
+      const getCellSpan = (rowNdx: number, colNdx: number) => (rowNdx >= 1 && rowNdx <= 2 && colNdx >= 1 && colNdx <= 2) ? span : undefined;
+      const controller = renderGrid({getCellSpan});
+      const anchorCell = controller.renderedState!.regularCells.get(1, 1);
+      expect(controller.hitTest(120, 50)).toEqual({cellType: CellType.regular, rowNdx: 1, colNdx: 1, cell: anchorCell, offsetX: 70, offsetY: 30, inOverlap: false});
+      expect(controller.getCellRect(CellType.regular, 2, 2)).toEqual({x: 50, y: 20, width: 100, height: 40});
+      expect(controller.hitTest(160, 50)).toMatchObject({rowNdx: 2, colNdx: 3, offsetX: 10}); });
+
+   it("takes the frozen rows and columns into account", () => {
+      const controller = renderGrid({frozenRows: 1, frozenCols: 1, viewportPosition: {rowNdx: 10, colNdx: 3, rowPixelOffset: 5, colPixelOffset: 10}});
+      expect(controller.hitTest(10, 10)).toMatchObject({rowNdx: 0, colNdx: 0, offsetX: 10, offsetY: 10});
+      expect(controller.hitTest(60, 19)).toMatchObject({rowNdx: 0, colNdx: 3, offsetX: 20, offsetY: 19});
+      expect(controller.hitTest(60, 20)).toMatchObject({rowNdx: 10, colNdx: 3, offsetX: 20, offsetY: 5});
+      expect(controller.hitTest(49, 20)).toMatchObject({rowNdx: 10, colNdx: 0, offsetX: 49, offsetY: 5});
+      expect(controller.getCellRect(CellType.regular, 10, 3)).toEqual({x: 40, y: 15, width: 50, height: 20});
+      expect(controller.getCellRect(CellType.regular, 0, 0)).toEqual({x: 0, y: 0, width: 50, height: 20}); });
+
+   it("returns `undefined` for points outside of the grid and for cells that are not rendered", () => {
+      const controller = renderGrid({colWidths: new Int16Array(3).fill(50)});
+      expect(controller.hitTest(150, 10)).toBeUndefined();           // right of the last column
+      expect(controller.hitTest(-1, 10)).toBeUndefined();
+      expect(controller.hitTest(10, 100)).toBeUndefined();           // below the viewport
+      expect(controller.getCellRect(CellType.regular, 50, 0)).toBeUndefined();
+      expect(controller.getCellRect(CellType.regular, 0, 3)).toBeUndefined();
+      const unrenderedController = new LayoutController(createViewportElement(250, 100));
+      expect(unrenderedController.hitTest(10, 10)).toBeUndefined();
+      expect(unrenderedController.getCellRect(CellType.regular, 0, 0)).toBeUndefined(); }); });
+
+describe("LayoutController.render with large sizes", () => {
+
+   function renderGrid (rp: Partial<RenderParms>, width: number, height: number) : LayoutController {
+      const controller = new LayoutController(createViewportElement(width, height));
+      controller.render({
+         viewportPosition: {rowNdx: 0, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0},
+         rowHeights:       new Int16Array(100).fill(20),
+         colWidths:        new Int16Array(10).fill(50),
+         macroCellWidth:   0,
+         vCellOverlap:     0,
+         prepareCell,
+         ...rp });
+      return controller; }
+
+   it("computes positions beyond the Int16Array range", () => {
+      const controller = renderGrid({viewportPosition: {rowNdx: 1000, colNdx: 0, rowPixelOffset: 29000, colPixelOffset: 0}, rowHeights: new Int32Array(2000).fill(30000)}, 200, 100000);
+      const rs = controller.renderedState!;
+      expect(rs.visibleRows).toBe(5);
+      expect(Array.from(rs.rowYPositions)).toEqual([-29000, 1000, 31000, 61000, 91000, 121000]);
+      expect(controller.getCellRect(CellType.regular, 1004, 1)).toEqual({x: 50, y: 91000, width: 50, height: 30000});
+      expect(controller.hitTest(60, 95000)).toMatchObject({cellType: CellType.regular, rowNdx: 1004, colNdx: 1, offsetY: 4000}); });
+
+   it("renders a macro cell taller than 32767 px", () => {
+      const rowHeights = new Float64Array(1000).fill(5000);
+      rowHeights[500] = 100000;
+      const macroCellHeights = new Int32Array(1000);
+      macroCellHeights[500] = 90000;
+      const controller = renderGrid({viewportPosition: {rowNdx: 500, colNdx: 0, rowPixelOffset: 5000, colPixelOffset: 0}, rowHeights, macroCellHeights, macroCellWidth: 800}, 800, 600);
+      expect(Array.from(controller.renderedState!.rowYPositions)).toEqual([-5000, 95000]);
+      expect(controller.getCellRect(CellType.macro, 500, 0)).toEqual({x: 0, y: 5000, width: 800, height: 90000});
+      const macroCell = controller.renderedState!.macroCells.get(500, 0)!;
+      expect([macroCell.style.top, macroCell.style.height]).toEqual(["5000px", "90000px"]);
+      expect(controller.hitTest(10, 4999)).toMatchObject({cellType: CellType.regular, rowNdx: 500, colNdx: 0});
+      expect(controller.hitTest(10, 5000)).toMatchObject({cellType: CellType.macro, rowNdx: 500, offsetY: 0});
+      expect(controller.hitTest(10, 599)).toMatchObject({cellType: CellType.regular, rowNdx: 500, colNdx: 0}); });
+
+   it("positions a merged cell with a multi-million-pixel height", () => {
+      const span = {rowNdx: 0, colNdx: 0, rowSpan: 1000, colSpan: 2};
+      const getCellSpan = (_rowNdx: number, colNdx: number) => (colNdx < 2) ? span : undefined;
+      const controller = renderGrid({viewportPosition: {rowNdx: 800, colNdx: 0, rowPixelOffset: 1234, colPixelOffset: 0}, rowHeights: new Float64Array(1000).fill(5000), getCellSpan}, 800, 600);
+      expect(controller.getCellRect(CellType.regular, 800, 1)).toMatchObject({y: -1234 - 800 * 5000, width: 100, height: 5000000});
+      const mergedCell = controller.renderedState!.regularCells.get(800, 0)!;
+      expect([mergedCell.style.top, mergedCell.style.height]).toEqual(["-4001234px", "5000000px"]);
+      expect(controller.hitTest(10, 100)).toMatchObject({cellType: CellType.regular, rowNdx: 0, colNdx: 0, offsetY: 1234 + 800 * 5000 + 100}); }); });
+
+describe("LayoutController.render with size indexes", () => {
+
+   function genRenderParms (rowHeights: Int16Array, rp: Partial<RenderParms>) : RenderParms {
+      return {
+         viewportPosition: {rowNdx: 0, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0},
+         rowHeights,
+         colWidths:        new Int16Array(5).fill(50),
+         macroCellWidth:   0,
+         vCellOverlap:     0,
+         prepareCell,
+         ...rp }; }
+
+   it("updates the row size index with the sizes measured by `measure`", () => {
+      const rowHeights = new Int16Array(100).fill(-1);
+      const rowSizeIndex = SizeIndex.fromArray(rowHeights, 20);
+      const measure = (startNdx: number, n: number, orientation: boolean) => {
+         if (orientation) {
+            rowHeights.fill(30, startNdx, startNdx + n); }};
+      const controller = new LayoutController(createViewportElement(250, 100));
+      controller.render(genRenderParms(rowHeights, {measure, rowSizeIndex}));
+      expect(controller.renderedState!.visibleRows).toBe(4);
+      expect(Array.from(rowHeights, (_, ndx) => rowSizeIndex.getSize(ndx))).toEqual(Array.from(rowHeights));
+      expect(rowSizeIndex.getSize(99)).toBe(-1);
+      expect(rowSizeIndex.getOffset(4)).toBe(120); });
+
+   it("updates the row size index before `measure-complete` is fired", async () => {
+      const rowHeights = new Int16Array(100).fill(-1);
+      const rowSizeIndex = SizeIndex.fromArray(rowHeights, 20);
+      const measureAsync = async (startNdx: number, n: number, orientation: boolean) => {
+         if (orientation) {
+            rowHeights.fill(25, startNdx, startNdx + n); }};
+      const controller = new LayoutController(createViewportElement(250, 100));
+      const indexedSizes: number[] = [];
+      controller.addEventListener("measure-complete", (event) => {
+         const d = (<CustomEvent>event).detail;
+         if (d.orientation) {
+            indexedSizes.push(rowSizeIndex.getSize(d.startNdx)); }
+         event.preventDefault(); });
+      controller.render(genRenderParms(rowHeights, {measureAsync, rowSizeIndex}));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(indexedSizes).toEqual([25]);
+      expect(rowSizeIndex.getOffset(5)).toBe(125);
+      controller.dispose(); }); });
+
+describe("LayoutController.render with asynchronous measurement", () => {
+
+   function genRenderParms (measureAsync: (startNdx: number, n: number, orientation: boolean) => Promise<void>) : RenderParms {
+      return {
+         viewportPosition: {rowNdx: 0, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0},
+         rowHeights:       new Int16Array(100).fill(-1),
+         colWidths:        new Int16Array(5).fill(50),
+         macroCellWidth:   0,
+         vCellOverlap:     0,
+         measureAsync,
+         prepareCell }; }
+
+   const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+   it("fires `measure-error` and does not measure failed rows again until they are reset", async () => {
+      const requests: number[] = [];
+      const rp = genRenderParms(async (startNdx: number) => {
+         requests.push(startNdx);
+         throw new Error("Measurement failed."); });
+      const controller = new LayoutController(createViewportElement(250, 100));
+      const errors: any[] = [];
+      controller.addEventListener("measure-error", (event) => errors.push((<CustomEvent>event).detail));
+      controller.render(rp);
+      await settle();
+      expect(requests).toEqual([0]);
+      expect(errors).toMatchObject([{orientation: true, startNdx: 0, n: 5}]);
+      expect(errors[0].error.message).toBe("Measurement failed.");
+      controller.render(rp);
+      await settle();
+      expect(requests).toEqual([0]);
+      controller.resetFailedMeasurements();
+      controller.render(rp);
+      await settle();
+      expect(requests).toEqual([0, 0]);
+      controller.dispose(); });
+
+   it("wraps a rejection reason that is not an `Error` into an `Error`", async () => {
+      const rp = genRenderParms(() => Promise.reject("timeout"));
+      const controller = new LayoutController(createViewportElement(250, 100));
+      const errors: any[] = [];
+      controller.addEventListener("measure-error", (event) => errors.push((<CustomEvent>event).detail.error));
+      controller.render(rp);
+      await settle();
+      expect(errors.length).toBe(1);
+      expect(errors[0]).toBeInstanceOf(Error);
+      expect(errors[0].message).toBe("timeout");
+      controller.dispose(); });
+
+   it("does not measure rows again whose size stayed undetermined", async () => {
+      let calls = 0;
+      const rp = genRenderParms(async () => {
+         calls++; });
+      const controller = new LayoutController(createViewportElement(250, 100));
+      controller.addEventListener("measure-complete", (event) => event.preventDefault());
+      controller.render(rp);
+      await settle();
+      controller.render(rp);
+      await settle();
+      expect(calls).toBe(1);
+      controller.clear(undefined);
+      controller.render(rp);
+      await settle();
+      expect(calls).toBe(2);
+      controller.dispose(); });
+
+   it("ignores measurements that complete after `clear()`", async () => {
+      const requests: number[] = [];
+      const resolvers: (() => void)[] = [];
+      const measureAsync = (startNdx: number) => {
+         requests.push(startNdx);
+         return new Promise<void>((resolve) => resolvers.push(resolve)); };
+      const controller = new LayoutController(createViewportElement(250, 100));
+      let completeEvents = 0;
+      controller.addEventListener("measure-complete", () => completeEvents++);
+      controller.render(genRenderParms(measureAsync));
+      controller.clear(undefined);
+      resolvers[0]();                                                // the sizes of the old rows are still undetermined
+      await settle();
+      expect(completeEvents).toBe(0);
+      const rp = genRenderParms(measureAsync);                       // a new dataset
+      controller.render(rp);
+      expect(requests).toEqual([0, 0]);                              // the rows are not regarded as failed or pending
+      controller.clear(undefined);
+      controller.render(rp);
+      expect(requests).toEqual([0, 0, 0]);
+      resolvers[1]();                                                // does not affect the pending rows of the current measurement
+      await settle();
+      controller.render(rp);
+      expect(requests).toEqual([0, 0, 0]);
+      (<Int16Array>rp.rowHeights).fill(20, 0, 5);                    // the current measurement completes
+      resolvers[2]();
+      await settle();
+      expect(completeEvents).toBe(1);
+      controller.dispose(); });
+
+   it("handles a synchronous exception of `measureAsync` like a rejected promise", async () => {
+      const requests: number[] = [];
+      const rp = genRenderParms((startNdx: number) => {
+         requests.push(startNdx);
+         throw new Error("Not available."); });
+      const controller = new LayoutController(createViewportElement(250, 100));
+      const errors: any[] = [];
+      controller.addEventListener("measure-error", (event) => errors.push((<CustomEvent>event).detail));
+      controller.render(rp);
+      await settle();
+      expect(errors).toMatchObject([{orientation: true, startNdx: 0, n: 5}]);
+      expect(errors[0].error.message).toBe("Not available.");
+      controller.render(rp);
+      controller.resetFailedMeasurements();
+      controller.render(rp);                                         // the rows are no longer pending
+      await settle();
+      expect(requests).toEqual([0, 0]);
+      controller.dispose(); });
+
+   it("fires `measure-error` when processing the measured sizes fails", async () => {
+      const rowSizeIndex = SizeIndex.fromArray(new Int16Array(100).fill(-1), 20);
+      rowSizeIndex.setSizes = () => {
+         throw new Error("Index error."); };
+      const rp = {...genRenderParms(async () => undefined), rowSizeIndex};
+      const controller = new LayoutController(createViewportElement(250, 100));
+      const errors: any[] = [];
+      controller.addEventListener("measure-error", (event) => errors.push((<CustomEvent>event).detail));
+      controller.render(rp);
+      await settle();
+      expect(errors).toMatchObject([{orientation: true, startNdx: 0, n: 5}]);
+      expect(errors[0].error.message).toBe("Index error.");
+      controller.dispose(); }); });
+
+describe("LayoutController viewport resize observation", () => {
+
+   // A stub for `ResizeObserver`, which is not implemented by jsdom. `notify()` calls the callback like the browser would.
+   class ResizeObserverStub {
+      public static instances:         ResizeObserverStub[] = [];
+      public  callback:                ResizeObserverCallback;
+      public  observedElements:        Element[] = [];
+      public  connected:               boolean = true;
+      constructor (callback: ResizeObserverCallback) {
+         this.callback = callback;
+         ResizeObserverStub.instances.push(this); }
+      public observe (element: Element) {
+         this.observedElements.push(element); }
+      public unobserve() {}
+      public disconnect() {
+         this.connected = false; }
+      public notify() {
+         if (this.connected) {
+            this.callback([], <ResizeObserver><unknown>this); }}}
+
+   beforeEach(() => {
+      ResizeObserverStub.instances = [];
+      vi.stubGlobal("ResizeObserver", ResizeObserverStub); });
+
+   afterEach(() => {
+      vi.unstubAllGlobals(); });
+
+   // Creates a layout controller with a resizable viewport of initially 250 x 100 px and renders 100 rows of 20 px.
+   function renderGrid() {
+      const size = {width: 250, height: 100};
+      const viewportElement = document.createElement("div");
+      Object.defineProperty(viewportElement, "clientWidth", {get: () => size.width});
+      Object.defineProperty(viewportElement, "clientHeight", {get: () => size.height});
+      document.body.appendChild(viewportElement);
+      const controller = new LayoutController(viewportElement);
+      controller.render({
+         viewportPosition: {rowNdx: 0, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0},
+         rowHeights:       new Int16Array(100).fill(20),
+         colWidths:        new Int16Array(10).fill(50),
+         macroCellWidth:   0,
+         vCellOverlap:     0,
+         prepareCell });
+      const events: any[] = [];
+      controller.addEventListener("viewport-resize", (event) => events.push((<CustomEvent>event).detail));
+      return {controller, viewportElement, size, events}; }
+
+   it("observes the viewport element and re-renders the grid when its size changes", () => {
+      const {controller, viewportElement, size, events} = renderGrid();
+      controller.observeViewportResize();
+      controller.observeViewportResize();                            // (only one observer is created)
+      expect(ResizeObserverStub.instances.length).toBe(1);
+      const observer = ResizeObserverStub.instances[0];
+      expect(observer.observedElements).toEqual([viewportElement]);
+      observer.notify();                                             // the initial notification does not change the size
+      expect(events).toEqual([]);
+      expect(controller.renderedState!.visibleRows).toBe(5);
+      size.height = 150;
+      observer.notify();
+      expect(events).toEqual([{oldWidth: 250, oldHeight: 100, width: 250, height: 150}]);
+      expect(controller.renderedState!.visibleRows).toBe(8); });
+
+   it("does not re-render the grid when auto-render is off or the event is canceled", () => {
+      const {controller, size, events} = renderGrid();
+      controller.observeViewportResize(false);
+      const observer = ResizeObserverStub.instances[0];
+      size.height = 150;
+      observer.notify();
+      expect(events.length).toBe(1);
+      expect(controller.renderedState!.visibleRows).toBe(5);
+      controller.observeViewportResize(true);
+      controller.addEventListener("viewport-resize", (event) => event.preventDefault());
+      size.height = 200;
+      observer.notify();
+      expect(events[1]).toEqual({oldWidth: 250, oldHeight: 150, width: 250, height: 200});
+      expect(controller.renderedState!.visibleRows).toBe(5); });
+
+   it("disconnects the observer on dispose", () => {
+      const {controller, size, events} = renderGrid();
+      controller.observeViewportResize();
+      const observer = ResizeObserverStub.instances[0];
+      controller.dispose();
+      expect(observer.connected).toBe(false);
+      size.height = 150;
+      observer.notify();
+      expect(events).toEqual([]);
+      controller.observeViewportResize();                            // (a disposed controller does not observe again)
+      expect(ResizeObserverStub.instances.length).toBe(1); }); });
@@ -0,0 +1,195 @@
+import {describe, it, expect} from "vitest";
+import {CellType, LayoutParms, CellSpan, computeLayout, findCellPosition, relToAbsNdx, absToRelNdx} from "../src/GridLayoutEngine";
+import {SparseSizeProvider} from "../src/GridSizeProvider";
+
+function genSizes (n: number, size: number) : Int16Array {
+   return new Int16Array(n).fill(size); }
+
+function genLayoutParms (overrides: Partial<LayoutParms> = {}) : LayoutParms {
+   return {
+      viewportPosition: {rowNdx: 0, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0},
+      rowHeights:       genSizes(100, 20),
+      colWidths:        genSizes(10, 50),
+      macroCellWidth:   0,
+      vCellOverlap:     0,
+      ...overrides }; }
+
+describe("computeLayout", () => {
+
+   it("computes the visible rows and columns for a viewport position with pixel offsets", () => {
+      const lp = genLayoutParms({viewportPosition: {rowNdx: 5, colNdx: 2, rowPixelOffset: 5, colPixelOffset: 10}, vCellOverlap: 1});
+      const layout = computeLayout(lp, 120, 50);
+      const lg = layout.geometry;
+      expect(lg.visibleRows).toBe(3);
+      expect(lg.visibleCols).toBe(3);
+      expect(Array.from(lg.rowYPositions)).toEqual([-5, 15, 35, 55]);
+      expect(Array.from(lg.colXPositions)).toEqual([-10, 40, 90, 140]);
+      expect(layout.rowSlots.map((slot) => slot.ndx)).toEqual([5, 6, 7]);
+      expect(layout.colSlots.map((slot) => slot.ndx)).toEqual([2, 3, 4]);
+      expect(layout.cells.length).toBe(9);
+      const cell = layout.cells[0];
+      expect(cell).toMatchObject({cellType: CellType.regular, rowNdx: 5, colNdx: 2, layer: 0, visible: true});
+      expect(cell.rect).toEqual({x: -10, y: -5, width: 50, height: 20});
+      expect(cell.elementRect).toEqual({x: -10, y: -6, width: 50, height: 21}); });
+
+   it("places the frozen rows and columns at the edges of the viewport", () => {
+      const lp = genLayoutParms({viewportPosition: {rowNdx: 10, colNdx: 4, rowPixelOffset: 5, colPixelOffset: 0}, frozenRows: 2, frozenCols: 1});
+      const layout = computeLayout(lp, 120, 100);
+      const lg = layout.geometry;
+      expect(lg.frozenRows).toBe(2);
+      expect(lg.frozenCols).toBe(1);
+      expect(lg.visibleRows).toBe(6);
+      expect(lg.visibleCols).toBe(3);
+      expect(Array.from(lg.rowYPositions)).toEqual([0, 20, 40, 55, 75, 95, 115]);
+      expect(Array.from(lg.colXPositions)).toEqual([0, 50, 100, 150]);
+      expect(layout.rowSlots.map((slot) => slot.ndx)).toEqual([0, 1, 10, 11, 12, 13]);
+      expect(layout.colSlots.map((slot) => slot.ndx)).toEqual([0, 4, 5]);
+      const findCell = (rowNdx: number, colNdx: number) => layout.cells.find((c) => c.rowNdx == rowNdx && c.colNdx == colNdx)!;
+      expect(findCell(0, 0).layer).toBe(3);
+      expect(findCell(0, 4).layer).toBe(2);
+      expect(findCell(10, 0).layer).toBe(1);
+      expect(findCell(10, 4).layer).toBe(0);
+      expect(findCell(10, 4).rect.y).toBe(35);                      // unclipped start position, hidden behind the frozen rows
+      expect(relToAbsNdx(lg, 2, true)).toBe(10);
+      expect(relToAbsNdx(lg, 1, true)).toBe(1);
+      expect(absToRelNdx(lg, 11, true)).toBe(3);
+      expect(absToRelNdx(lg, 5, true)).toBeUndefined(); });
+
+   it("moves a viewport position within the frozen area to the start of the scrolling area", () => {
+      const lp = genLayoutParms({viewportPosition: {rowNdx: 1, colNdx: 0, rowPixelOffset: 7, colPixelOffset: 3}, frozenRows: 2, frozenCols: 1});
+      const lg = computeLayout(lp, 120, 100).geometry;
+      expect(lg.viewportPosition).toEqual({rowNdx: 2, colNdx: 1, rowPixelOffset: 0, colPixelOffset: 0}); });
+
+   it("renders a merged cell once, also when its anchor cell lies above the viewport", () => {
+      const span: CellSpan = {rowNdx: 2, colNdx: 1, rowSpan: 3, colSpan: 2};
+      const getCellSpan = (rowNdx: number, colNdx: number) =>
+         (rowNdx >= 2 && rowNdx < 5 && colNdx >= 1 && colNdx < 3) ? span : undefined;
+      const lp = genLayoutParms({viewportPosition: {rowNdx: 3, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0}, rowHeights: genSizes(20, 20), getCellSpan});
+      const layout = computeLayout(lp, 200, 100);
+      expect(layout.geometry.visibleRows).toBe(5);
+      expect(layout.geometry.visibleCols).toBe(4);
+      const mergedCells = layout.cells.filter((c) => c.span);
+      expect(mergedCells.length).toBe(1);
+      expect(mergedCells[0]).toMatchObject({rowNdx: 2, colNdx: 1, slotRowNdx: 3, slotColNdx: 1, span});
+      expect(mergedCells[0].rect).toEqual({x: 50, y: -20, width: 100, height: 60});
+      expect(layout.cells.length).toBe(5 * 4 - 4 + 1);
+      expect(layout.cells.some((c) => !c.span && c.rowNdx >= 3 && c.rowNdx < 5 && c.colNdx >= 1 && c.colNdx < 3)).toBe(false); });
+
+   it("adds the overscan rows and columns after the visible ones", () => {
+      const lp = genLayoutParms({viewportPosition: {rowNdx: 10, colNdx: 3, rowPixelOffset: 0, colPixelOffset: 0}, overscanRows: 2, overscanCols: 1});
+      const layout = computeLayout(lp, 100, 100);
+      const lg = layout.geometry;
+      expect([lg.overscanRowsBefore, lg.overscanRowsAfter, lg.overscanColsBefore, lg.overscanColsAfter]).toEqual([2, 2, 1, 1]);
+      expect(layout.rowSlots.map((slot) => [slot.ndx, slot.pos + 0, slot.visible])).toEqual([     // (+ 0 converts -0 to 0)
+         [10, 0, true], [11, 20, true], [12, 40, true], [13, 60, true], [14, 80, true],
+         [15, 100, false], [16, 120, false], [9, -20, false], [8, -40, false]]);
+      expect(layout.colSlots.map((slot) => [slot.ndx, slot.pos + 0, slot.visible])).toEqual([
+         [3, 0, true], [4, 50, true], [5, 100, false], [2, -50, false]]);
+      expect(layout.cells.length).toBe(9 * 4);
+      const firstOverscanCellNdx = layout.cells.findIndex((c) => !c.visible);
+      expect(firstOverscanCellNdx).toBe(5 * 2);
+      expect(layout.cells.slice(firstOverscanCellNdx).every((c) => !c.visible)).toBe(true); });
+
+   it("places the directional overscan rows only in the scroll direction", () => {
+      const lp = genLayoutParms({viewportPosition: {rowNdx: 10, colNdx: 3, rowPixelOffset: 0, colPixelOffset: 0}, overscanRows: 2, overscanCols: 1, overscanDirectional: true});
+      const lg = computeLayout(lp, 100, 100, {rowNdx: 9, colNdx: 3, rowPixelOffset: 0, colPixelOffset: 0}).geometry;
+      expect([lg.overscanRowsBefore, lg.overscanRowsAfter, lg.overscanColsBefore, lg.overscanColsAfter]).toEqual([0, 4, 1, 1]);
+      const lg2 = computeLayout(lp, 100, 100, {rowNdx: 11, colNdx: 3, rowPixelOffset: 0, colPixelOffset: 0}).geometry;
+      expect([lg2.overscanRowsBefore, lg2.overscanRowsAfter]).toEqual([4, 0]); });
+
+   it("limits the overscan rows to the grid and the scrolling area", () => {
+      const lp = genLayoutParms({viewportPosition: {rowNdx: 3, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0}, rowHeights: genSizes(7, 20), frozenRows: 2, overscanRows: 3});
+      const lg = computeLayout(lp, 100, 100).geometry;
+      expect(lg.visibleRows).toBe(2 + 3);
+      expect(lg.overscanRowsBefore).toBe(1);
+      expect(lg.overscanRowsAfter).toBe(1); }); });
+
+describe("findCellPosition", () => {
+
+   it("finds the cell at a point relative to the viewport", () => {
+      const lp = genLayoutParms({viewportPosition: {rowNdx: 5, colNdx: 2, rowPixelOffset: 5, colPixelOffset: 10}});
+      const lg = computeLayout(lp, 120, 50).geometry;
+      expect(findCellPosition(lg, 0, 0)).toEqual({cellType: CellType.regular, rowNdx: 5, colNdx: 2});
+      expect(findCellPosition(lg, 45, 20)).toEqual({cellType: CellType.regular, rowNdx: 6, colNdx: 3});
+      expect(findCellPosition(lg, 0, 60)).toBeUndefined();
+      expect(findCellPosition(lg, 150, 0)).toBeUndefined(); });
+
+   it("distinguishes the frozen rows and columns from the scrolling area", () => {
+      const lp = genLayoutParms({viewportPosition: {rowNdx: 10, colNdx: 4, rowPixelOffset: 5, colPixelOffset: 0}, frozenRows: 2, frozenCols: 1});
+      const lg = computeLayout(lp, 120, 100).geometry;
+      expect(findCellPosition(lg, 10, 10)).toEqual({cellType: CellType.regular, rowNdx: 0, colNdx: 0});
+      expect(findCellPosition(lg, 60, 10)).toEqual({cellType: CellType.regular, rowNdx: 0, colNdx: 4});
+      expect(findCellPosition(lg, 10, 45)).toEqual({cellType: CellType.regular, rowNdx: 10, colNdx: 0});
+      expect(findCellPosition(lg, 60, 60)).toEqual({cellType: CellType.regular, rowNdx: 11, colNdx: 4}); });
+
+   it("returns the covered position within a merged cell", () => {
+      const span: CellSpan = {rowNdx: 2, colNdx: 1, rowSpan: 3, colSpan: 2};
+      const getCellSpan = (rowNdx: number, colNdx: number) =>
+         (rowNdx >= 2 && rowNdx < 5 && colNdx >= 1 && colNdx < 3) ? span : undefined;
+      const lp = genLayoutParms({viewportPosition: {rowNdx: 3, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0}, getCellSpan});
+      const lg = computeLayout(lp, 200, 100).geometry;
+      expect(findCellPosition(lg, 120, 30)).toEqual({cellType: CellType.regular, rowNdx: 4, colNdx: 2}); });
+
+   it("finds the macro cell below the regular cells of a row", () => {
+      const macroCellHeights = new Int16Array(100);
+      macroCellHeights[1] = 15;
+      const rowHeights = genSizes(100, 20);
+      rowHeights[1] = 40;
+      const lp = genLayoutParms({rowHeights, macroCellHeights, macroCellWidth: 300});
+      const layout = computeLayout(lp, 120, 100);
+      expect(findCellPosition(layout.geometry, 60, 40)).toEqual({cellType: CellType.regular, rowNdx: 1, colNdx: 1});
+      expect(findCellPosition(layout.geometry, 60, 50)).toEqual({cellType: CellType.macro, rowNdx: 1, colNdx: 0});
+      const macroCell = layout.cells.find((c) => c.cellType == CellType.macro)!;
+      expect(macroCell.rect).toEqual({x: 0, y: 45, width: 300, height: 15}); }); });
+
+describe("computeLayout with large sizes", () => {
+
+   it("computes positions beyond the Int16Array range", () => {
+      const lp = genLayoutParms({viewportPosition: {rowNdx: 1000, colNdx: 0, rowPixelOffset: 29000, colPixelOffset: 0}, rowHeights: new Int32Array(2000).fill(30000)});
+      const lg = computeLayout(lp, 200, 100000).geometry;
+      expect(lg.visibleRows).toBe(5);
+      expect(Array.from(lg.rowYPositions)).toEqual([-29000, 1000, 31000, 61000, 91000, 121000]);
+      expect(findCellPosition(lg, 60, 95000)).toEqual({cellType: CellType.regular, rowNdx: 1004, colNdx: 1}); });
+
+   it("places a macro cell taller than 32767 px", () => {
+      const rowHeights = new Float64Array(1000).fill(5000);
+      rowHeights[500] = 100000;
+      const macroCellHeights = new Int32Array(1000);
+      macroCellHeights[500] = 90000;
+      const lp = genLayoutParms({viewportPosition: {rowNdx: 500, colNdx: 0, rowPixelOffset: 5000, colPixelOffset: 0}, rowHeights, macroCellHeights, macroCellWidth: 800});
+      const layout = computeLayout(lp, 800, 600);
+      const lg = layout.geometry;
+      expect(lg.visibleRows).toBe(1);
+      expect(Array.from(lg.rowYPositions)).toEqual([-5000, 95000]);
+      const macroCell = layout.cells.find((c) => c.cellType == CellType.macro)!;
+      expect(macroCell.rect).toEqual({x: 0, y: 5000, width: 800, height: 90000});
+      expect(layout.cells.find((c) => c.cellType == CellType.regular)!.rect).toMatchObject({y: -5000, width: 50, height: 10000});
+      expect(findCellPosition(lg, 10, 4999)).toEqual({cellType: CellType.regular, rowNdx: 500, colNdx: 0});
+      expect(findCellPosition(lg, 10, 5000)).toEqual({cellType: CellType.macro, rowNdx: 500, colNdx: 0});
+      expect(findCellPosition(lg, 10, 599)).toEqual({cellType: CellType.regular, rowNdx: 500, colNdx: 0});
+      const lg2 = computeLayout({...lp, viewportPosition: {...lp.viewportPosition, rowPixelOffset: 60000}}, 800, 600).geometry;
+      expect(findCellPosition(lg2, 10, 0)).toEqual({cellType: CellType.macro, rowNdx: 500, colNdx: 0});
+      expect(findCellPosition(lg2, 10, 599)).toEqual({cellType: CellType.macro, rowNdx: 500, colNdx: 0}); });
+
+   it("computes the position of a merged cell with a multi-million-pixel height", () => {
+      const span: CellSpan = {rowNdx: 0, colNdx: 0, rowSpan: 1000, colSpan: 2};
+      const getCellSpan = (_rowNdx: number, colNdx: number) => (colNdx < 2) ? span : undefined;
+      const lp = genLayoutParms({viewportPosition: {rowNdx: 800, colNdx: 0, rowPixelOffset: 1234, colPixelOffset: 0}, rowHeights: new Float64Array(1000).fill(5000), getCellSpan});
+      const layout = computeLayout(lp, 800, 600);
+      const mergedCell = layout.cells.find((c) => c.span)!;
+      expect(mergedCell).toMatchObject({rowNdx: 0, colNdx: 0, slotRowNdx: 800, slotColNdx: 0});
+      expect(mergedCell.rect).toMatchObject({y: -1234 - 800 * 5000, width: 100, height: 5000000});
+      expect(findCellPosition(layout.geometry, 10, 100)).toEqual({cellType: CellType.regular, rowNdx: 800, colNdx: 0}); });
+
+   it("lays out the last rows of a grid with a multi-million-pixel total height", () => {
+      const rowHeights = new SparseSizeProvider(10000000, 20);
+      rowHeights.set(9999995, 40000);
+      const lp = genLayoutParms({viewportPosition: {rowNdx: 9999990, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0}, rowHeights, overscanRows: 3});
+      const layout = computeLayout(lp, 200, 50000);
+      const lg = layout.geometry;
+      expect(lg.visibleRows).toBe(10);
+      expect(lg.rowYPositions[6]).toBe(5 * 20 + 40000);
+      expect([lg.overscanRowsBefore, lg.overscanRowsAfter]).toEqual([3, 0]);
+      expect(layout.rowSlots.map((slot) => slot.ndx)).toEqual([9999990, 9999991, 9999992, 9999993, 9999994, 9999995, 9999996, 9999997, 9999998, 9999999, 9999989, 9999988, 9999987]);
+      expect(findCellPosition(lg, 10, 30000)).toEqual({cellType: CellType.regular, rowNdx: 9999995, colNdx: 0});
+      expect(findCellPosition(lg, 10, 40110)).toEqual({cellType: CellType.regular, rowNdx: 9999996, colNdx: 0}); }); });
@@ -0,0 +1,113 @@
+import {describe, it, expect} from "vitest";
+import {CellType} from "../src/GridLayout";
+import {Outline, ExpanderState, OutlineRowInfo} from "../src/GridOutline";
+
+// Returns the data row indexes of the visible rows.
+function getVisibleDataRows (outline: Outline) : number[] {
+   return Array.from({length: outline.visibleRowCount}, (_, ndx) => outline.toDataRowNdx(ndx)); }
+
+describe("Outline", () => {
+
+   it("maps the visible rows when a group is collapsed and expanded", () => {
+      const outline = new Outline(10);
+      outline.addGroup(2, 5);
+      expect(getVisibleDataRows(outline)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+      outline.setCollapsed(2, true);
+      expect(outline.visibleRowCount).toBe(7);
+      expect(getVisibleDataRows(outline)).toEqual([0, 1, 2, 6, 7, 8, 9]);
+      expect(outline.toVisibleRowNdx(6)).toBe(3);
+      expect(outline.toVisibleRowNdx(4)).toBe(-1);
+      expect(outline.toVisibleRowNdx(2)).toBe(2);
+      outline.toggle(2);
+      expect(outline.isCollapsed(2)).toBe(false);
+      expect(outline.visibleRowCount).toBe(10); });
+
+   it("keeps the collapsed state of nested groups", () => {
+      const outline = new Outline(12);
+      outline.addGroup(1, 8);
+      outline.addGroup(3, 5, true);
+      expect(getVisibleDataRows(outline)).toEqual([0, 1, 2, 3, 6, 7, 8, 9, 10, 11]);
+      outline.setCollapsed(1, true);
+      expect(getVisibleDataRows(outline)).toEqual([0, 1, 9, 10, 11]);
+      outline.setCollapsed(1, false);
+      expect(getVisibleDataRows(outline)).toEqual([0, 1, 2, 3, 6, 7, 8, 9, 10, 11]);
+      outline.setAllCollapsed(false);
+      expect(outline.visibleRowCount).toBe(12);
+      expect(outline.getRowInfo(0)).toEqual({dataRowNdx: 0, depth: 0, expander: ExpanderState.none});
+      expect(outline.getRowInfo(1)).toEqual({dataRowNdx: 1, depth: 0, expander: ExpanderState.expanded});
+      expect(outline.getRowInfo(4)).toEqual({dataRowNdx: 4, depth: 2, expander: ExpanderState.none});
+      expect(outline.getRowInfo(6)).toEqual({dataRowNdx: 6, depth: 1, expander: ExpanderState.none});
+      outline.setAllCollapsed(true);
+      expect(getVisibleDataRows(outline)).toEqual([0, 1, 9, 10, 11]);
+      expect(outline.getRowInfo(3).expander).toBe(ExpanderState.collapsed); });
+
+   it("rejects groups that are not nested properly", () => {
+      const outline = new Outline(10);
+      outline.addGroup(2, 5);
+      expect(() => outline.addGroup(4, 7)).toThrow();
+      expect(() => outline.addGroup(2, 4)).toThrow();
+      expect(() => outline.addGroup(8, 10)).toThrow();
+      outline.addGroup(1, 6);
+      outline.addGroup(3, 4);
+      outline.removeGroup(1);
+      expect(outline.getRowInfo(3).depth).toBe(1); });
+
+   it("provides the sizes of the visible rows", () => {
+      const outline = new Outline(6);
+      outline.addGroup(1, 3, true);
+      const sizes = outline.createRowSizeProvider(new Int16Array([10, 11, 12, 13, 14, 15]));
+      expect(sizes.count).toBe(4);
+      expect([0, 1, 2, 3].map((ndx) => sizes.get(ndx))).toEqual([10, 11, 14, 15]);
+      outline.clear();
+      expect(sizes.count).toBe(6);
+      expect(sizes.get(2)).toBe(12); }); });
+
+describe("Outline.adaptPrepareCell", () => {
+
+   it("passes data row indexes and offers cells of changed rows for recycling", () => {
+      const outline = new Outline(10);
+      outline.addGroup(2, 5);
+      const calls: {rowNdx: number; oldCell?: HTMLElement; recycledCell?: HTMLElement; rowInfo: OutlineRowInfo}[] = [];
+      const prepareCell = outline.adaptPrepareCell((_cellType, rowNdx, _colNdx, _width, _height, oldCell, recycledCell, rowInfo) => {
+         calls.push({rowNdx, oldCell, recycledCell, rowInfo});
+         return oldCell || recycledCell || <HTMLElement><unknown>{id: "cell" + rowNdx}; });
+      const cell2 = prepareCell(CellType.regular, 2, 0, 50, 20, undefined);
+      const cell3 = prepareCell(CellType.regular, 3, 0, 50, 20, undefined);
+      expect(calls[0]).toMatchObject({rowNdx: 2, rowInfo: {depth: 0, expander: ExpanderState.expanded}});
+      expect(calls[1]).toMatchObject({rowNdx: 3, rowInfo: {depth: 1, expander: ExpanderState.none}});
+      calls.length = 0;
+      prepareCell(CellType.regular, 3, 0, 50, 20, cell3);            // same data row, the old cell is kept
+      expect(calls[0]).toMatchObject({rowNdx: 3, oldCell: cell3, recycledCell: undefined});
+      outline.setCollapsed(2, true);
+      calls.length = 0;
+      prepareCell(CellType.regular, 3, 0, 50, 20, cell3);            // visible row 3 now shows data row 6
+      expect(calls[0]).toMatchObject({rowNdx: 6, oldCell: undefined, recycledCell: cell3});
+      prepareCell(CellType.regular, 2, 0, 50, 20, cell2);            // same data row, but another expander state
+      expect(calls[1]).toMatchObject({rowNdx: 2, oldCell: undefined, recycledCell: cell2, rowInfo: {expander: ExpanderState.collapsed}}); }); });
+
+describe("Outline.setCollapsed with a viewport position", () => {
+
+   it("keeps the viewport position on the same data row", () => {
+      const outline = new Outline(20);
+      outline.addGroup(2, 5);
+      outline.addGroup(10, 15);
+      const pos = {rowNdx: 8, colNdx: 1, rowPixelOffset: 7, colPixelOffset: 3};
+      const pos2 = outline.setCollapsed(2, true, pos)!;
+      expect(pos2).toEqual({rowNdx: 5, colNdx: 1, rowPixelOffset: 7, colPixelOffset: 3});
+      expect(outline.toDataRowNdx(pos2.rowNdx)).toBe(8);
+      const pos3 = outline.setCollapsed(2, false, pos2)!;
+      expect(pos3).toEqual(pos);
+      expect(outline.setCollapsed(2, true)).toBeUndefined(); });
+
+   it("moves the viewport position to the header row when the anchor row is hidden", () => {
+      const outline = new Outline(20);
+      outline.addGroup(10, 15);
+      const pos = outline.toggle(10, {rowNdx: 12, colNdx: 0, rowPixelOffset: 7, colPixelOffset: 0})!;
+      expect(pos).toEqual({rowNdx: 10, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0});
+      expect(outline.toDataRowNdx(pos.rowNdx)).toBe(10); });
+
+   it("clips a viewport position beyond the visible rows", () => {
+      const outline = new Outline(20);
+      outline.addGroup(0, 15);
+      const pos = outline.setAllCollapsed(true, {rowNdx: 25, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0})!;
+      expect(pos.rowNdx).toBe(4); }); });
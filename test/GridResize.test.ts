@@ -0,0 +1,442 @@
+// @vitest-environment jsdom
+
+import {describe, it, expect, vi, beforeEach, afterEach} from "vitest";
+import {RenderParms, LayoutController, ViewportPosition} from "../src/GridLayout";
+import {ResizeController, ControllerParms, ReorderController, ReorderControllerParms} from "../src/GridResize";
+import {installPointerEventSupport, dispatchPointerEvent} from "./PointerEventUtils";
+
+function createViewportElement (width: number, height: number) : HTMLElement {
+   const element = document.createElement("div");
+   Object.defineProperty(element, "clientWidth", {value: width});
+   Object.defineProperty(element, "clientHeight", {value: height});
+   document.body.appendChild(element);
+   return element; }
+
+// Renders a grid with 100 rows of 20 px and 10 columns of 50 px into a viewport of 250 x 100 px, so that 5 x 5 cells are visible.
+function renderGrid (rp: Partial<RenderParms> = {}) {
+   const layoutController = new LayoutController(createViewportElement(250, 100));
+   const renderParms: RenderParms = {
+      viewportPosition: {rowNdx: 0, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0},
+      rowHeights:       new Int16Array(100).fill(20),
+      colWidths:        new Int16Array(10).fill(50),
+      macroCellWidth:   0,
+      vCellOverlap:     0,
+      prepareCell:      (_cellType, _rowNdx, _colNdx, _width, _height, oldCell) => oldCell || document.createElement("div"),
+      ...rp };
+   layoutController.render(renderParms);
+   return {layoutController, renderParms, viewportElement: layoutController.viewportElement}; }
+
+// Creates a resize controller for the grid of `renderGrid()` and records the events of the controller.
+function createResizeController (cp: Partial<ControllerParms> = {}, rp: Partial<RenderParms> = {}) {
+   const grid = renderGrid(rp);
+   const resizeController = new ResizeController({
+      layoutController:     grid.layoutController,
+      rowSizingEnabled:     true,
+      colSizingEnabled:     true,
+      rowSizingTopWidth:    2,
+      rowSizingBottomWidth: 2,
+      colSizingLeftWidth:   3,
+      colSizingRightWidth:  3,
+      ...cp });
+   const events: {type: string; detail: any}[] = [];
+   for (const type of ["element-resize", "element-resize-start", "element-resize-preview", "element-resize-commit", "element-resize-cancel", "element-auto-fit", "element-hide", "element-unhide"]) {
+      resizeController.addEventListener(type, (event) => events.push({type, detail: (<CustomEvent>event).detail})); }
+   // Moves the mouse pointer to a point and returns the resize handle element if it is shown.
+   const hover = (clientX: number, clientY: number) : HTMLElement | undefined => {
+      dispatchPointerEvent(grid.viewportElement, "pointermove", {clientX, clientY});
+      const handle = <HTMLElement | null>grid.viewportElement.querySelector(".virtual-grid-layout-gridResizeHandle");
+      return (handle && handle.style.display != "none") ? handle : undefined; };
+   // Drags the boundary at the start point by a distance with the mouse.
+   const drag = (clientX: number, clientY: number, dx: number, dy: number, release = true) => {
+      const handle = hover(clientX, clientY)!;
+      dispatchPointerEvent(handle, "pointerdown", {clientX, clientY});
+      dispatchPointerEvent(handle, "pointermove", {clientX: clientX + dx, clientY: clientY + dy, buttons: 1});
+      if (release) {
+         dispatchPointerEvent(handle, "pointerup", {clientX: clientX + dx, clientY: clientY + dy}); }};
+   const takeEvents = () => events.splice(0);
+   return {...grid, resizeController, hover, drag, takeEvents}; }
+
+describe("ResizeController auto-fit", () => {
+
+   beforeEach(() => {
+      installPointerEventSupport(); });
+
+   const dblClick = (handle: HTMLElement) => handle.dispatchEvent(new MouseEvent("dblclick", {bubbles: true, cancelable: true}));
+
+   it("applies the size computed by `measureBestSize`", () => {
+      const calls: {orientation: boolean; ndx: number; cellCount: number}[] = [];
+      let bestSize: number | undefined = 73;
+      const measureBestSize = (orientation: boolean, ndx: number, cells: HTMLElement[]) => {
+         calls.push({orientation, ndx, cellCount: cells.length});
+         return bestSize; };
+      const {hover, takeEvents} = createResizeController({autoFitEnabled: true, measureBestSize, maxSize: 100});
+      dblClick(hover(99, 50)!);                                      // boundary after column 1
+      expect(calls).toEqual([{orientation: false, ndx: 1, cellCount: 5}]);
+      expect(takeEvents()).toEqual([
+         {type: "element-resize", detail: {orientation: false, ndx: 1, size: 73, sizes: [{ndx: 1, size: 73}]}},
+         {type: "element-resize-commit", detail: {orientation: false, ndx: 1, oldSize: 50, size: 73, oldSizes: [{ndx: 1, size: 50}], sizes: [{ndx: 1, size: 73}]}} ]);
+      dblClick(hover(120, 39)!);                                     // boundary after row 1
+      expect(calls[1]).toEqual({orientation: true, ndx: 1, cellCount: 5});
+      expect(takeEvents().map((e) => e.detail.size)).toEqual([73, 73]);
+      bestSize = 150;                                                // limited by `maxSize`
+      dblClick(hover(99, 50)!);
+      expect(takeEvents().map((e) => e.detail.size)).toEqual([100, 100]);
+      bestSize = 50;                                                 // unchanged size
+      dblClick(hover(99, 50)!);
+      bestSize = undefined;
+      dblClick(hover(99, 50)!);
+      expect(takeEvents()).toEqual([]); });
+
+   it("fires `element-auto-fit` when no `measureBestSize` function is specified", () => {
+      const {hover, takeEvents} = createResizeController({autoFitEnabled: true});
+      dblClick(hover(151, 50)!);                                     // (within the right zone of the boundary after column 2)
+      expect(takeEvents()).toEqual([{type: "element-auto-fit", detail: {orientation: false, ndx: 2}}]); });
+
+   it("ignores double-clicks when auto-fit is disabled", () => {
+      const {hover, takeEvents} = createResizeController({measureBestSize: () => 80});
+      dblClick(hover(99, 50)!);
+      expect(takeEvents()).toEqual([]); }); });
+
+describe("ResizeController dragging", () => {
+
+   beforeEach(() => {
+      installPointerEventSupport(); });
+
+   const pressEscape = () => document.dispatchEvent(new KeyboardEvent("keydown", {key: "Escape", bubbles: true, cancelable: true}));
+
+   it("fires the resize events while dragging a boundary", () => {
+      const {drag, takeEvents} = createResizeController();
+      drag(99, 50, 30, 5);
+      expect(takeEvents()).toEqual([
+         {type: "element-resize-start", detail: {orientation: false, ndx: 1, size: 50, sizes: [{ndx: 1, size: 50}]}},
+         {type: "element-resize", detail: {orientation: false, ndx: 1, size: 80, sizes: [{ndx: 1, size: 80}]}},
+         {type: "element-resize-commit", detail: {orientation: false, ndx: 1, oldSize: 50, size: 80, oldSizes: [{ndx: 1, size: 50}], sizes: [{ndx: 1, size: 80}]}} ]);
+      drag(120, 39, 0, 0);                                           // no commit without a size change
+      expect(takeEvents().map((e) => e.type)).toEqual(["element-resize-start"]); });
+
+   it("applies the global and the per-index size limits", () => {
+      const getMinSize = (orientation: boolean, ndx: number) => (!orientation && ndx == 1) ? 40 : undefined;
+      const getMaxSize = (orientation: boolean, ndx: number) => (!orientation && ndx == 1) ? 70 : undefined;
+      const {drag, takeEvents} = createResizeController({minSize: 10, maxSize: 200, getMinSize, getMaxSize});
+      const dragSizes = (clientX: number, dx: number) => {
+         drag(clientX, 50, dx, 0);
+         return takeEvents().filter((e) => e.type == "element-resize").map((e) => e.detail.size); };
+      expect(dragSizes(99, 100)).toEqual([70]);
+      expect(dragSizes(99, -100)).toEqual([40]);
+      expect(dragSizes(199, -100)).toEqual([10]);
+      expect(dragSizes(199, 300)).toEqual([200]); });
+
+   it("rounds the dragged size to the snap increment", () => {
+      const {drag, takeEvents} = createResizeController({snapIncrement: 10});
+      const dragSizes = (dx: number) => {
+         drag(99, 50, dx, 0);
+         return takeEvents().filter((e) => e.type == "element-resize").map((e) => e.detail.size); };
+      expect(dragSizes(13)).toEqual([60]);
+      expect(dragSizes(17)).toEqual([70]);
+      expect(dragSizes(-4)).toEqual([]); });
+
+   it("shows a guide line and applies the size on pointerup in preview mode", () => {
+      const {viewportElement, drag, takeEvents} = createResizeController({previewMode: true});
+      drag(99, 50, 30, 0, false);
+      const guide = <HTMLElement>viewportElement.querySelector(".virtual-grid-layout-gridResizeGuide");
+      expect([guide.style.left, guide.style.width]).toEqual(["130px", "1px"]);
+      expect(takeEvents().map((e) => e.type)).toEqual(["element-resize-start", "element-resize-preview"]);
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 129, clientY: 50});
+      expect(takeEvents()).toEqual([
+         {type: "element-resize", detail: {orientation: false, ndx: 1, size: 80, sizes: [{ndx: 1, size: 80}]}},
+         {type: "element-resize-commit", detail: {orientation: false, ndx: 1, oldSize: 50, size: 80, oldSizes: [{ndx: 1, size: 50}], sizes: [{ndx: 1, size: 80}]}} ]);
+      expect(viewportElement.querySelector(".virtual-grid-layout-gridResizeGuide")).toBeNull(); });
+
+   it("restores the start sizes when dragging is cancelled with the Escape key", () => {
+      const {viewportElement, drag, takeEvents} = createResizeController();
+      drag(120, 39, 0, 25, false);
+      takeEvents();
+      pressEscape();
+      expect(takeEvents()).toEqual([
+         {type: "element-resize", detail: {orientation: true, ndx: 1, size: 20, sizes: [{ndx: 1, size: 20}]}},
+         {type: "element-resize-cancel", detail: {orientation: true, ndx: 1, size: 20, sizes: [{ndx: 1, size: 20}]}} ]);
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 120, clientY: 64});
+      expect(takeEvents()).toEqual([]); });
+
+   it("only fires `element-resize-cancel` when a drag in preview mode is cancelled", () => {
+      const {viewportElement, drag, takeEvents} = createResizeController({previewMode: true});
+      drag(99, 50, 30, 0, false);
+      takeEvents();
+      pressEscape();
+      expect(takeEvents()).toEqual([{type: "element-resize-cancel", detail: {orientation: false, ndx: 1, size: 50, sizes: [{ndx: 1, size: 50}]}}]);
+      expect(viewportElement.querySelector(".virtual-grid-layout-gridResizeGuide")).toBeNull(); }); });
+
+describe("ResizeController with touch and pen pointers", () => {
+
+   beforeEach(() => {
+      installPointerEventSupport();
+      vi.useFakeTimers(); });
+
+   afterEach(() => {
+      vi.useRealTimers(); });
+
+   // Presses a touch or pen pointer at a point, which is 8 px right of the boundary after column 1.
+   const press = (viewportElement: HTMLElement, pointerType: string, clientX = 108, clientY = 50) =>
+      dispatchPointerEvent(viewportElement, "pointerdown", {clientX, clientY, pointerType});
+
+   it("uses the wider hit zones for touch and pen pointers", () => {
+      const {viewportElement, hover, takeEvents} = createResizeController();
+      expect(hover(108, 50)).toBeUndefined();                        // not within the zone of the mouse pointer
+      for (const pointerType of ["touch", "pen"]) {
+         press(viewportElement, pointerType);
+         vi.advanceTimersByTime(500);
+         expect(takeEvents()).toEqual([{type: "element-resize-start", detail: {orientation: false, ndx: 1, size: 50, sizes: [{ndx: 1, size: 50}]}}]);
+         dispatchPointerEvent(viewportElement, "pointerup", {clientX: 108, clientY: 50, pointerType}); }
+      press(viewportElement, "mouse");
+      vi.advanceTimersByTime(500);
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 108, clientY: 50});
+      expect(takeEvents()).toEqual([]); });
+
+   it("applies `touchSizingWidth`", () => {
+      const {viewportElement, takeEvents} = createResizeController({touchSizingWidth: 5});
+      press(viewportElement, "touch");
+      vi.advanceTimersByTime(1000);
+      expect(takeEvents()).toEqual([]);
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 108, clientY: 50, pointerType: "touch"});
+      press(viewportElement, "touch", 104);
+      vi.advanceTimersByTime(500);
+      expect(takeEvents().map((e) => e.type)).toEqual(["element-resize-start"]); });
+
+   it("starts dragging after a long-press within the move tolerance", () => {
+      const {viewportElement, takeEvents} = createResizeController({longPressDelay: 300});
+      press(viewportElement, "touch");
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 116, clientY: 45, pointerType: "touch"});
+      vi.advanceTimersByTime(299);
+      expect(takeEvents()).toEqual([]);
+      vi.advanceTimersByTime(1);
+      expect(takeEvents().map((e) => e.type)).toEqual(["element-resize-start"]);
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 138, clientY: 50, pointerType: "touch"});   // (dispatched to the capturing resize handle)
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 138, clientY: 50, pointerType: "touch"});
+      expect(takeEvents()).toEqual([
+         {type: "element-resize", detail: {orientation: false, ndx: 1, size: 80, sizes: [{ndx: 1, size: 80}]}},
+         {type: "element-resize-commit", detail: {orientation: false, ndx: 1, oldSize: 50, size: 80, oldSizes: [{ndx: 1, size: 50}], sizes: [{ndx: 1, size: 80}]}} ]); });
+
+   it("does not start dragging when the pointer moves beyond the tolerance, is lifted early or is cancelled", () => {
+      const {viewportElement, takeEvents} = createResizeController();
+      press(viewportElement, "touch");
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 117, clientY: 50, pointerType: "touch"});
+      expect(vi.getTimerCount()).toBe(0);
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 117, clientY: 50, pointerType: "touch"});
+      press(viewportElement, "pen");
+      vi.advanceTimersByTime(300);
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 108, clientY: 50, pointerType: "pen"});
+      expect(vi.getTimerCount()).toBe(0);
+      press(viewportElement, "touch");
+      dispatchPointerEvent(viewportElement, "pointercancel", {pointerType: "touch"});
+      vi.advanceTimersByTime(1000);
+      expect(takeEvents()).toEqual([]); }); });
+
+describe("ResizeController hiding and unhiding", () => {
+
+   beforeEach(() => {
+      installPointerEventSupport(); });
+
+   const dblClick = (handle: HTMLElement) => handle.dispatchEvent(new MouseEvent("dblclick", {bubbles: true, cancelable: true}));
+   const isUnhideHandle = (handle: HTMLElement) => handle.classList.contains("virtual-grid-layout-gridResizeHandleUnhide");
+
+   it("fires `element-hide` when a column is dragged to a size of 0", () => {
+      const {drag, takeEvents} = createResizeController({minSize: 0});
+      drag(99, 50, -60, 0);
+      expect(takeEvents().slice(1)).toEqual([
+         {type: "element-resize", detail: {orientation: false, ndx: 1, size: 0, sizes: [{ndx: 1, size: 0}]}},
+         {type: "element-resize-commit", detail: {orientation: false, ndx: 1, oldSize: 50, size: 0, oldSizes: [{ndx: 1, size: 50}], sizes: [{ndx: 1, size: 0}]}},
+         {type: "element-hide", detail: {orientation: false, ndx: 1, ndxs: [1]}} ]); });
+
+   it("grabs the hidden column from the zone after the collapsed boundary and the previous column from the zone before it", () => {
+      const colWidths = new Int16Array(10).fill(50);
+      colWidths[1] = 0;                                              // the collapsed boundary is at x = 50
+      const {hover, drag, takeEvents} = createResizeController({minSize: 0}, {colWidths});
+      const beforeHandle = hover(48, 50)!;
+      expect(isUnhideHandle(beforeHandle)).toBe(false);
+      expect(beforeHandle.style.cursor).toBe("col-resize");
+      drag(48, 50, 10, 0);
+      expect(takeEvents()[1]).toEqual({type: "element-resize", detail: {orientation: false, ndx: 0, size: 60, sizes: [{ndx: 0, size: 60}]}});
+      const afterHandle = hover(51, 50)!;
+      expect(isUnhideHandle(afterHandle)).toBe(true);
+      expect(afterHandle.style.cursor).toBe("ew-resize");
+      drag(51, 50, 30, 0);
+      expect(takeEvents()).toEqual([
+         {type: "element-resize-start", detail: {orientation: false, ndx: 1, size: 0, sizes: [{ndx: 1, size: 0}]}},
+         {type: "element-resize", detail: {orientation: false, ndx: 1, size: 30, sizes: [{ndx: 1, size: 30}]}},
+         {type: "element-resize-commit", detail: {orientation: false, ndx: 1, oldSize: 0, size: 30, oldSizes: [{ndx: 1, size: 0}], sizes: [{ndx: 1, size: 30}]}} ]);
+      expect(isUnhideHandle(hover(99, 50)!)).toBe(false); });       // a regular boundary
+
+   it("fires `element-unhide` for the hidden columns before the boundary when the unhide handle is double-clicked", () => {
+      const colWidths = new Int16Array(10).fill(50);
+      colWidths[1] = 0;
+      colWidths[2] = 0;
+      const {hover, takeEvents} = createResizeController({}, {colWidths});
+      dblClick(hover(51, 50)!);
+      expect(takeEvents()).toEqual([{type: "element-unhide", detail: {orientation: false, ndx: 2, ndxs: [1, 2]}}]);
+      dblClick(hover(48, 50)!);                                      // (auto-fit is disabled)
+      expect(takeEvents()).toEqual([]); });
+
+   it("fires `element-unhide` for hidden rows", () => {
+      const rowHeights = new Int16Array(100).fill(20);
+      rowHeights[2] = 0;                                             // the collapsed boundary is at y = 40
+      const {hover, takeEvents} = createResizeController({}, {rowHeights});
+      const handle = hover(120, 41)!;
+      expect(isUnhideHandle(handle)).toBe(true);
+      dblClick(handle);
+      expect(takeEvents()).toEqual([{type: "element-unhide", detail: {orientation: true, ndx: 2, ndxs: [2]}}]); }); });
+
+describe("ResizeController group resizing and proportional mode", () => {
+
+   beforeEach(() => {
+      installPointerEventSupport(); });
+
+   const colWidths = new Int16Array([50, 50, 30, 50, 50, 50, 50, 50, 50, 50]);
+
+   it("resizes the rows/columns of the resize group together", () => {
+      const getResizeGroup = (orientation: boolean) => orientation ? undefined : [1, 2, 3, 99, -1, 1.5];
+      const getMaxSize = (_orientation: boolean, ndx: number) => (ndx == 3) ? 60 : undefined;
+      const {drag, takeEvents} = createResizeController({getResizeGroup, getMaxSize}, {colWidths});
+      drag(99, 50, 20, 0);
+      expect(takeEvents()).toEqual([
+         {type: "element-resize-start", detail: {orientation: false, ndx: 1, size: 50, sizes: [{ndx: 1, size: 50}, {ndx: 2, size: 30}, {ndx: 3, size: 50}]}},
+         {type: "element-resize", detail: {orientation: false, ndx: 1, size: 70, sizes: [{ndx: 1, size: 70}, {ndx: 2, size: 70}, {ndx: 3, size: 60}]}},
+         {type: "element-resize-commit", detail: {orientation: false, ndx: 1, oldSize: 50, size: 70,
+            oldSizes: [{ndx: 1, size: 50}, {ndx: 2, size: 30}, {ndx: 3, size: 50}], sizes: [{ndx: 1, size: 70}, {ndx: 2, size: 70}, {ndx: 3, size: 60}]}} ]);
+      drag(120, 39, 0, 10);                                          // rows are not grouped
+      expect(takeEvents()[1].detail.sizes).toEqual([{ndx: 1, size: 30}]); });
+
+   it("compensates the size change with the next row/column in proportional mode", () => {
+      const {drag, takeEvents} = createResizeController({proportionalMode: true}, {colWidths});
+      drag(99, 50, 20, 0);
+      expect(takeEvents()[1].detail.sizes).toEqual([{ndx: 1, size: 70}, {ndx: 2, size: 10}]);
+      const {drag: drag2, takeEvents: takeEvents2} = createResizeController({proportionalMode: true}, {colWidths: new Int16Array(3).fill(50)});
+      drag2(149, 50, -20, 0);                                        // the last column has no neighbour
+      expect(takeEvents2()[1].detail.sizes).toEqual([{ndx: 2, size: 30}]); });
+
+   it("skips the resize group when determining the compensating row/column", () => {
+      const getResizeGroup = () => [1, 2];
+      const {drag, takeEvents} = createResizeController({proportionalMode: true, getResizeGroup}, {colWidths});
+      drag(99, 50, 10, 0);
+      expect(takeEvents()[1].detail.sizes).toEqual([{ndx: 1, size: 60}, {ndx: 2, size: 60}, {ndx: 3, size: 10}]); });
+
+   it("limits the dragged size so that the compensating row/column stays within its size limits", () => {
+      const {drag, takeEvents} = createResizeController({proportionalMode: true, minSize: 20, maxSize: 80});
+      const dragSizes = (dx: number) => {
+         drag(99, 50, dx, 0);
+         return takeEvents()[1].detail.sizes; };
+      expect(dragSizes(45)).toEqual([{ndx: 1, size: 80}, {ndx: 2, size: 20}]);
+      expect(dragSizes(-45)).toEqual([{ndx: 1, size: 20}, {ndx: 2, size: 80}]); });
+
+   it("limits the dragged size of a resize group in proportional mode", () => {
+      const getResizeGroup = () => [1, 2];
+      const {drag, takeEvents} = createResizeController({proportionalMode: true, getResizeGroup, minSize: 20});
+      drag(99, 50, 25, 0);
+      expect(takeEvents()[1].detail.sizes).toEqual([{ndx: 1, size: 65}, {ndx: 2, size: 65}, {ndx: 3, size: 20}]); }); });
+
+describe("ReorderController", () => {
+
+   beforeEach(() => {
+      installPointerEventSupport();
+      vi.useFakeTimers(); });
+
+   afterEach(() => {
+      vi.useRealTimers(); });
+
+   function createReorderController (cp: Partial<ReorderControllerParms> = {}) {
+      const grid = renderGrid();
+      const reorderController = new ReorderController({layoutController: grid.layoutController, rowReorderEnabled: true, colReorderEnabled: true, ...cp});
+      const moves: any[] = [];
+      const positions: ViewportPosition[] = [];
+      reorderController.addEventListener("element-move", (event) => moves.push((<CustomEvent>event).detail));
+      reorderController.addEventListener("viewport-position-change", (event) => positions.push((<CustomEvent>event).detail));
+      return {...grid, reorderController, moves, positions}; }
+
+   function findElement (viewportElement: HTMLElement, className: string) : HTMLElement | undefined {
+      return <HTMLElement | undefined>viewportElement.querySelector("." + className) || undefined; }
+
+   it("starts a drag only on the leading cells", () => {
+      const {viewportElement} = createReorderController();
+      const isClaimed = (clientX: number, clientY: number, init: PointerEventInit = {}) => {
+         const event = dispatchPointerEvent(viewportElement, "pointerdown", {clientX, clientY, ...init});
+         dispatchPointerEvent(viewportElement, "pointerup", {clientX, clientY, ...init});
+         return event.defaultPrevented; };
+      expect(isClaimed(120, 10)).toBe(true);                         // header cell of column 2
+      expect(isClaimed(10, 50)).toBe(true);                          // leading cell of row 2
+      expect(isClaimed(10, 10)).toBe(false);                         // the corner cell is ambiguous
+      expect(isClaimed(120, 50)).toBe(false);
+      expect(isClaimed(120, 10, {pointerType: "touch"})).toBe(false);
+      expect(isClaimed(120, 10, {shiftKey: true})).toBe(false);
+      const {viewportElement: viewportElement2} = createReorderController({rowReorderEnabled: false, colReorderRows: 2});
+      expect(dispatchPointerEvent(viewportElement2, "pointerdown", {clientX: 10, clientY: 30}).defaultPrevented).toBe(true); });
+
+   it("moves a column to the boundary nearest to the pointer", () => {
+      const {viewportElement, moves} = createReorderController();
+      dispatchPointerEvent(viewportElement, "pointerdown", {clientX: 60, clientY: 10});
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 180, clientY: 12});
+      const ghost = findElement(viewportElement, "virtual-grid-layout-reorderGhost")!;
+      const indicator = findElement(viewportElement, "virtual-grid-layout-reorderIndicator")!;
+      expect([ghost.style.left, ghost.style.width]).toEqual(["170px", "50px"]);
+      expect([indicator.style.left, indicator.style.width, indicator.style.display]).toEqual(["199px", "2px", ""]);
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 180, clientY: 12});
+      expect(moves).toEqual([{orientation: false, sourceNdx: 1, targetNdx: 3}]);
+      expect(findElement(viewportElement, "virtual-grid-layout-reorderGhost")).toBeUndefined();
+      expect(findElement(viewportElement, "virtual-grid-layout-reorderIndicator")).toBeUndefined(); });
+
+   it("moves a row backwards and forwards", () => {
+      const {viewportElement, moves} = createReorderController();
+      dispatchPointerEvent(viewportElement, "pointerdown", {clientX: 10, clientY: 30});
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 10, clientY: 75});
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 10, clientY: 75});
+      dispatchPointerEvent(viewportElement, "pointerdown", {clientX: 10, clientY: 70});
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 10, clientY: 45});
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 10, clientY: 45});
+      expect(moves).toEqual([{orientation: true, sourceNdx: 1, targetNdx: 3}, {orientation: true, sourceNdx: 3, targetNdx: 2}]); });
+
+   it("does not move when the pointer stays below the threshold or the element is dropped at its own position", () => {
+      const {viewportElement, moves} = createReorderController();
+      dispatchPointerEvent(viewportElement, "pointerdown", {clientX: 60, clientY: 10});
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 63, clientY: 10});
+      expect(findElement(viewportElement, "virtual-grid-layout-reorderGhost")).toBeUndefined();
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 63, clientY: 10});
+      dispatchPointerEvent(viewportElement, "pointerdown", {clientX: 60, clientY: 10});
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 95, clientY: 10});
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 95, clientY: 10});
+      expect(moves).toEqual([]); });
+
+   it("auto-scrolls while the pointer is near the viewport edge", () => {
+      const {layoutController, renderParms, viewportElement, positions} = createReorderController();
+      dispatchPointerEvent(viewportElement, "pointerdown", {clientX: 60, clientY: 10});
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 240, clientY: 10});
+      expect(vi.getTimerCount()).toBe(1);
+      vi.advanceTimersByTime(50);
+      expect(positions).toEqual([{rowNdx: 0, colNdx: 1, rowPixelOffset: 0, colPixelOffset: 0}]);
+      layoutController.render({...renderParms, viewportPosition: positions[0]});
+      vi.advanceTimersByTime(50);
+      expect(positions[1]).toEqual({rowNdx: 0, colNdx: 2, rowPixelOffset: 0, colPixelOffset: 0});
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 120, clientY: 10});    // away from the edge
+      expect(vi.getTimerCount()).toBe(0);
+      vi.advanceTimersByTime(200);
+      expect(positions.length).toBe(2); });
+
+   it("stops auto-scrolling when the pointer is cancelled, the capture is lost or the controller is disposed", () => {
+      const {viewportElement, reorderController, moves, positions} = createReorderController();
+      const startAutoScroll = () => {
+         dispatchPointerEvent(viewportElement, "pointerdown", {clientX: 60, clientY: 10});
+         dispatchPointerEvent(viewportElement, "pointermove", {clientX: 240, clientY: 10});
+         expect(vi.getTimerCount()).toBe(1); };
+      startAutoScroll();
+      dispatchPointerEvent(viewportElement, "pointercancel", {clientX: 240, clientY: 10});
+      expect(vi.getTimerCount()).toBe(0);
+      expect(findElement(viewportElement, "virtual-grid-layout-reorderGhost")).toBeUndefined();
+      startAutoScroll();
+      viewportElement.releasePointerCapture(1);
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 180, clientY: 10});    // (`lostpointercapture` is fired before this event)
+      expect(vi.getTimerCount()).toBe(0);
+      startAutoScroll();
+      reorderController.dispose();
+      expect(vi.getTimerCount()).toBe(0);
+      expect(findElement(viewportElement, "virtual-grid-layout-reorderIndicator")).toBeUndefined();
+      expect(viewportElement.hasPointerCapture(1)).toBe(false);
+      vi.advanceTimersByTime(200);
+      expect(positions).toEqual([]);
+      expect(moves).toEqual([]); }); });
@@ -0,0 +1,157 @@
+import {describe, it, expect} from "vitest";
+import {ScrollMode, ScrollUnit, ScrollAlignment, InputParms, process} from "../src/GridScroll";
+import {SizeIndex} from "../src/GridSizeIndex";
+import {getSizeCount} from "../src/GridSizeProvider";
+
+function genSizes (n: number, size: number) : Int16Array {
+   return new Int16Array(n).fill(size); }
+
+// Processes a scroll operation on a grid with 100 elements of 20 px and a viewport of 100 px.
+function scroll (scrollUnit: ScrollUnit, scrollValue: number, overrides: Partial<InputParms> = {}) {
+   const elementSizes = overrides.elementSizes || genSizes(100, 20);
+   return process({scrollUnit, scrollValue, topNdx: 10, elementCount: getSizeCount(elementSizes), viewportSize: 100, elementSizes, ...overrides}); }
+
+function genHiddenSizes (hiddenNdxs: number[]) : Int16Array {
+   const sizes = genSizes(100, 20);
+   for (const ndx of hiddenNdxs) {
+      sizes[ndx] = 0; }
+   return sizes; }
+
+describe("GridScroll.process in snap mode", () => {
+
+   it("moves by elements and pages", () => {
+      expect(scroll(ScrollUnit.smallIncr, 1)).toMatchObject({topNdx: 11, pixelOffset: 0});
+      expect(scroll(ScrollUnit.smallIncr, -1)).toMatchObject({topNdx: 9, pixelOffset: 0});
+      expect(scroll(ScrollUnit.mediumIncr, 1)).toMatchObject({topNdx: 13, pixelOffset: 0});
+      expect(scroll(ScrollUnit.largeIncr, 1)).toMatchObject({topNdx: 15, pixelOffset: 0});
+      expect(scroll(ScrollUnit.largeIncr, -1)).toMatchObject({topNdx: 5, pixelOffset: 0}); });
+
+   it("rounds pixel increments to the nearest element start", () => {
+      expect(scroll(ScrollUnit.pixelIncr, 25)).toMatchObject({topNdx: 11, pixelOffset: 0});
+      expect(scroll(ScrollUnit.pixelIncr, 35)).toMatchObject({topNdx: 12, pixelOffset: 0}); });
+
+   it("clips absolute and proportional positions to the scroll range", () => {
+      expect(scroll(ScrollUnit.absPosition, 500)).toMatchObject({topNdx: 99, scrollbarPosition: 1});
+      expect(scroll(ScrollUnit.absPosition, -3)).toMatchObject({topNdx: 0, scrollbarPosition: 0});
+      expect(scroll(ScrollUnit.propPosition, 1)).toMatchObject({topNdx: 99, scrollbarPosition: 1});
+      expect(scroll(ScrollUnit.propPosition, 0.5)).toMatchObject({topNdx: 50, pixelOffset: 0}); });
+
+   it("computes the scrollbar parameters", () => {
+      const r = scroll(ScrollUnit.none, 0, {topNdx: 33});
+      expect(r.topNdx).toBe(33);
+      expect(r.scrollbarPosition).toBeCloseTo(33 / 99);
+      expect(r.scrollbarThumbSize).toBeCloseTo(100 / (20 * 99 + 100)); });
+
+   it("does not scroll the frozen elements", () => {
+      expect(scroll(ScrollUnit.absPosition, 0, {frozenCount: 3})).toMatchObject({topNdx: 3, scrollbarPosition: 0});
+      expect(scroll(ScrollUnit.smallIncr, -1, {topNdx: 3, frozenCount: 3})).toMatchObject({topNdx: 3}); });
+
+   it("excludes the frozen elements from the page size", () => {
+      const frozen = {viewportSize: 200, frozenCount: 3};
+      expect(scroll(ScrollUnit.largeIncr, 1, {...frozen, topNdx: 3})).toMatchObject({topNdx: 10, pixelOffset: 0});
+      expect(scroll(ScrollUnit.largeIncr, -1, {...frozen, topNdx: 17})).toMatchObject({topNdx: 10, pixelOffset: 0});
+      expect(scroll(ScrollUnit.largeIncr, 1, {viewportSize: 200, topNdx: 3})).toMatchObject({topNdx: 13}); }); });
+
+describe("GridScroll.process in pixel mode", () => {
+
+   const pixelMode = {scrollMode: ScrollMode.pixel};
+
+   it("moves by pixels across element boundaries", () => {
+      expect(scroll(ScrollUnit.pixelIncr, 30, {...pixelMode, pixelOffset: 5})).toMatchObject({topNdx: 11, pixelOffset: 15});
+      expect(scroll(ScrollUnit.pixelIncr, -30, {...pixelMode, pixelOffset: 5})).toMatchObject({topNdx: 8, pixelOffset: 15});
+      expect(scroll(ScrollUnit.pixelIncr, -500, {...pixelMode, pixelOffset: 5})).toMatchObject({topNdx: 0, pixelOffset: 0}); });
+
+   it("moves back to the start of the current element on a backward increment", () => {
+      expect(scroll(ScrollUnit.smallIncr, -1, {...pixelMode, pixelOffset: 5})).toMatchObject({topNdx: 10, pixelOffset: 0});
+      expect(scroll(ScrollUnit.smallIncr, 1, {...pixelMode, pixelOffset: 5})).toMatchObject({topNdx: 11, pixelOffset: 0}); });
+
+   it("keeps the pixel offset of proportional positions", () => {
+      const r = scroll(ScrollUnit.propPosition, 0.5, pixelMode);
+      expect(r).toMatchObject({topNdx: 49, pixelOffset: 10});
+      expect(r.scrollbarPosition).toBeCloseTo(0.5); });
+
+   it("moves by a page in pixels", () => {
+      expect(scroll(ScrollUnit.largeIncr, 1, {...pixelMode, pixelOffset: 5})).toMatchObject({topNdx: 15, pixelOffset: 5}); });
+
+   it("excludes the frozen elements from the page size", () => {
+      const frozen = {...pixelMode, viewportSize: 200, frozenCount: 3};
+      expect(scroll(ScrollUnit.largeIncr, 1, {...frozen, topNdx: 3, pixelOffset: 5})).toMatchObject({topNdx: 10, pixelOffset: 5});
+      expect(scroll(ScrollUnit.largeIncr, -1, {...frozen, topNdx: 17, pixelOffset: 5})).toMatchObject({topNdx: 10, pixelOffset: 5}); }); });
+
+describe("GridScroll.process with ScrollUnit.intoView", () => {
+
+   it("does not move when the target is fully visible", () => {
+      expect(scroll(ScrollUnit.intoView, 12)).toMatchObject({topNdx: 10, pixelOffset: 0});
+      expect(scroll(ScrollUnit.intoView, 14)).toMatchObject({topNdx: 10, pixelOffset: 0}); });
+
+   it("scrolls as little as possible with the nearest alignment", () => {
+      expect(scroll(ScrollUnit.intoView, 20)).toMatchObject({topNdx: 16, pixelOffset: 0});
+      expect(scroll(ScrollUnit.intoView, 5)).toMatchObject({topNdx: 5, pixelOffset: 0}); });
+
+   it("places the target according to the alignment", () => {
+      expect(scroll(ScrollUnit.intoView, 50, {alignment: ScrollAlignment.start})).toMatchObject({topNdx: 50});
+      expect(scroll(ScrollUnit.intoView, 50, {alignment: ScrollAlignment.center})).toMatchObject({topNdx: 48});
+      expect(scroll(ScrollUnit.intoView, 50, {alignment: ScrollAlignment.end})).toMatchObject({topNdx: 46}); });
+
+   it("keeps the target fully visible when snapping to an element start", () => {
+      const elementSizes = genSizes(100, 30);
+      expect(scroll(ScrollUnit.intoView, 20, {elementSizes, scrollMode: ScrollMode.pixel})).toMatchObject({topNdx: 17, pixelOffset: 20});
+      expect(scroll(ScrollUnit.intoView, 20, {elementSizes})).toMatchObject({topNdx: 18, pixelOffset: 0}); });
+
+   it("ignores frozen targets", () => {
+      expect(scroll(ScrollUnit.intoView, 1, {frozenCount: 2})).toMatchObject({topNdx: 10, pixelOffset: 0}); }); });
+
+describe("GridScroll.process with hidden elements", () => {
+
+   it("skips hidden elements on increments", () => {
+      const elementSizes = genHiddenSizes([11, 12]);
+      expect(scroll(ScrollUnit.smallIncr, 1, {elementSizes})).toMatchObject({topNdx: 13});
+      expect(scroll(ScrollUnit.smallIncr, -1, {elementSizes, topNdx: 13})).toMatchObject({topNdx: 10}); });
+
+   it("never starts the viewport with a hidden element", () => {
+      const elementSizes = genHiddenSizes([11, 12]);
+      expect(scroll(ScrollUnit.absPosition, 11, {elementSizes})).toMatchObject({topNdx: 13});
+      expect(scroll(ScrollUnit.pixelIncr, -10, {elementSizes, topNdx: 13})).toMatchObject({topNdx: 10}); });
+
+   it("excludes hidden elements at the start and end from the scroll range", () => {
+      const elementSizes = genHiddenSizes([0, 1, 98, 99]);
+      expect(scroll(ScrollUnit.absPosition, 0, {elementSizes})).toMatchObject({topNdx: 2, scrollbarPosition: 0});
+      expect(scroll(ScrollUnit.propPosition, 1, {elementSizes})).toMatchObject({topNdx: 97, scrollbarPosition: 1}); });
+
+   it("stays at the first scrollable element when all scrollable elements are hidden", () => {
+      const elementSizes = genHiddenSizes(Array.from({length: 98}, (_, i) => i + 2));
+      expect(scroll(ScrollUnit.smallIncr, 1, {elementSizes, topNdx: 2, frozenCount: 2})).toEqual({topNdx: 2, pixelOffset: 0, scrollbarPosition: 0, scrollbarThumbSize: 0}); }); });
+
+describe("GridScroll.process with undetermined element sizes", () => {
+
+   it("measures undetermined elements", () => {
+      const elementSizes = genSizes(100, -1);
+      const measure = (startNdx: number, n: number) => {
+         elementSizes.fill(20, startNdx, startNdx + n); };
+      expect(scroll(ScrollUnit.largeIncr, 1, {elementSizes, measure})).toMatchObject({topNdx: 15});
+      expect(elementSizes[10]).toBe(20); });
+
+   it("uses the estimated size when no measure function is specified", () => {
+      const elementSizes = genSizes(100, -1);
+      expect(scroll(ScrollUnit.largeIncr, 1, {elementSizes, estimatedSize: 25})).toMatchObject({topNdx: 14});
+      expect(() => scroll(ScrollUnit.largeIncr, 1, {elementSizes})).toThrow(); }); });
+
+describe("GridScroll.process with large sizes", () => {
+
+   it("moves by pixels across an element taller than 32767 px within a multi-million-pixel grid", () => {
+      const elementSizes = new Float64Array(1000000).fill(20);
+      elementSizes[500000] = 100000;
+      const pixelMode = {elementSizes, scrollMode: ScrollMode.pixel, topNdx: 500000};
+      expect(scroll(ScrollUnit.pixelIncr, 49980, pixelMode)).toMatchObject({topNdx: 500000, pixelOffset: 49980});
+      expect(scroll(ScrollUnit.pixelIncr, 60000, {...pixelMode, pixelOffset: 49980})).toMatchObject({topNdx: 500500, pixelOffset: 0});
+      expect(scroll(ScrollUnit.pixelIncr, -20 * 400000 - 10, pixelMode)).toMatchObject({topNdx: 99999, pixelOffset: 10});
+      expect(scroll(ScrollUnit.largeIncr, 1, {...pixelMode, pixelOffset: 99950})).toMatchObject({topNdx: 500003, pixelOffset: 10}); });
+
+   it("maps proportional positions within a multi-million-pixel scroll range", () => {
+      const elementSizes = new Float64Array(1000000).fill(20);
+      elementSizes[500000] = 100000;
+      const sizeIndex = SizeIndex.fromArray(elementSizes, 20);
+      const r = scroll(ScrollUnit.propPosition, 0.5, {elementSizes, sizeIndex, scrollMode: ScrollMode.pixel});
+      expect(r).toMatchObject({topNdx: 500000, pixelOffset: 49980});
+      expect(r.scrollbarPosition).toBeCloseTo(0.5);
+      expect(scroll(ScrollUnit.propPosition, 0.5, {elementSizes, sizeIndex})).toMatchObject({topNdx: 500000, pixelOffset: 0}); }); });
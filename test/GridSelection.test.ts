@@ -0,0 +1,186 @@
+// @vitest-environment jsdom
+
+import {describe, it, expect, beforeEach} from "vitest";
+import {RenderParms, LayoutController, ViewportPosition} from "../src/GridLayout";
+import {SelectionController, ControllerParms} from "../src/GridSelection";
+import {installPointerEventSupport, dispatchPointerEvent} from "./PointerEventUtils";
+
+function createViewportElement (width: number, height: number) : HTMLElement {
+   const element = document.createElement("div");
+   Object.defineProperty(element, "clientWidth", {value: width});
+   Object.defineProperty(element, "clientHeight", {value: height});
+   document.body.appendChild(element);
+   return element; }
+
+// Renders a grid with 100 rows of 20 px and 10 columns of 50 px into a viewport of 250 x 100 px, so that 5 x 5 cells are visible.
+function createGrid (rp: Partial<RenderParms> = {}, cp: Partial<ControllerParms> = {}) {
+   const layoutController = new LayoutController(createViewportElement(250, 100));
+   const renderParms: RenderParms = {
+      viewportPosition: {rowNdx: 0, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0},
+      rowHeights:       new Int16Array(100).fill(20),
+      colWidths:        new Int16Array(10).fill(50),
+      macroCellWidth:   0,
+      vCellOverlap:     0,
+      prepareCell:      (_cellType, _rowNdx, _colNdx, _width, _height, oldCell) => oldCell || document.createElement("div"),
+      ...rp };
+   layoutController.render(renderParms);
+   const selectionController = new SelectionController({layoutController, ...cp});
+   const positions: ViewportPosition[] = [];
+   selectionController.addEventListener("viewport-position-change", (event) => positions.push((<CustomEvent>event).detail));
+   return {layoutController, renderParms, selectionController, positions}; }
+
+function pressKey (selectionController: SelectionController, key: string, init: KeyboardEventInit = {}) : boolean {
+   return selectionController.processKeyboardEvent(new KeyboardEvent("keydown", {key, ...init})); }
+
+describe("SelectionController keyboard navigation", () => {
+
+   it("moves the active cell with the navigation keys", () => {
+      const {selectionController: sc} = createGrid();
+      expect(pressKey(sc, "ArrowDown")).toBe(false);                 // no active cell yet
+      sc.setActiveCell({rowNdx: 2, colNdx: 2});
+      pressKey(sc, "ArrowDown");
+      expect(sc.activeCell).toEqual({rowNdx: 3, colNdx: 2});
+      pressKey(sc, "ArrowRight");
+      expect(sc.activeCell).toEqual({rowNdx: 3, colNdx: 3});
+      pressKey(sc, "PageDown");
+      expect(sc.activeCell).toEqual({rowNdx: 7, colNdx: 3});
+      pressKey(sc, "Home");
+      expect(sc.activeCell).toEqual({rowNdx: 7, colNdx: 0});
+      pressKey(sc, "End", {ctrlKey: true});
+      expect(sc.activeCell).toEqual({rowNdx: 99, colNdx: 9});
+      pressKey(sc, "ArrowUp", {ctrlKey: true});
+      expect(sc.activeCell).toEqual({rowNdx: 0, colNdx: 9});
+      pressKey(sc, "ArrowRight");
+      expect(sc.activeCell).toEqual({rowNdx: 0, colNdx: 9});
+      expect(pressKey(sc, "a")).toBe(false);
+      expect(pressKey(sc, "ArrowDown", {altKey: true})).toBe(false);
+      expect(sc.ranges).toEqual([{startRowNdx: 0, startColNdx: 9, endRowNdx: 0, endColNdx: 9}]); });
+
+   it("swaps the horizontal arrow keys in RTL mode", () => {
+      const {layoutController, renderParms, selectionController: sc} = createGrid();
+      layoutController.direction = "rtl";
+      layoutController.render(renderParms);
+      sc.setActiveCell({rowNdx: 2, colNdx: 2});
+      pressKey(sc, "ArrowLeft");
+      expect(sc.activeCell).toEqual({rowNdx: 2, colNdx: 3});
+      pressKey(sc, "ArrowRight");
+      pressKey(sc, "ArrowRight");
+      expect(sc.activeCell).toEqual({rowNdx: 2, colNdx: 1}); });
+
+   it("skips hidden rows and columns", () => {
+      const rowHeights = new Int16Array(100).fill(20);
+      const colWidths = new Int16Array(10).fill(50);
+      rowHeights[3] = 0;
+      rowHeights[4] = 0;
+      colWidths[1] = 0;
+      colWidths[9] = 0;
+      const {selectionController: sc} = createGrid({rowHeights, colWidths});
+      sc.setActiveCell({rowNdx: 2, colNdx: 2});
+      pressKey(sc, "ArrowDown");
+      expect(sc.activeCell).toEqual({rowNdx: 5, colNdx: 2});
+      pressKey(sc, "ArrowUp");
+      expect(sc.activeCell).toEqual({rowNdx: 2, colNdx: 2});
+      pressKey(sc, "ArrowLeft");
+      expect(sc.activeCell).toEqual({rowNdx: 2, colNdx: 0});
+      pressKey(sc, "End");                                           // the hidden last column is skipped backwards
+      expect(sc.activeCell).toEqual({rowNdx: 2, colNdx: 8}); }); });
+
+describe("SelectionController selection ranges", () => {
+
+   beforeEach(() => {
+      installPointerEventSupport(); });
+
+   it("extends the selection range with Shift", () => {
+      const {selectionController: sc} = createGrid();
+      sc.setActiveCell({rowNdx: 2, colNdx: 2});
+      pressKey(sc, "ArrowDown", {shiftKey: true});
+      pressKey(sc, "ArrowLeft", {shiftKey: true});
+      pressKey(sc, "ArrowLeft", {shiftKey: true});
+      expect(sc.activeCell).toEqual({rowNdx: 2, colNdx: 2});
+      expect(sc.ranges).toEqual([{startRowNdx: 2, startColNdx: 0, endRowNdx: 3, endColNdx: 2}]);
+      expect(sc.isSelected(3, 0)).toBe(true);
+      expect(sc.isSelected(4, 0)).toBe(false);
+      pressKey(sc, "ArrowDown");                                     // moving without Shift collapses the selection
+      expect(sc.activeCell).toEqual({rowNdx: 3, colNdx: 2});
+      expect(sc.ranges).toEqual([{startRowNdx: 3, startColNdx: 2, endRowNdx: 3, endColNdx: 2}]); });
+
+   it("selects ranges by clicking and dragging", () => {
+      const {layoutController, selectionController: sc} = createGrid();
+      const viewportElement = layoutController.viewportElement;
+      dispatchPointerEvent(viewportElement, "pointerdown", {clientX: 60, clientY: 30});
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 160, clientY: 70});
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 160, clientY: 70});
+      expect(sc.activeCell).toEqual({rowNdx: 1, colNdx: 1});
+      expect(sc.ranges).toEqual([{startRowNdx: 1, startColNdx: 1, endRowNdx: 3, endColNdx: 3}]);
+      dispatchPointerEvent(viewportElement, "pointerdown", {clientX: 10, clientY: 10, shiftKey: true});
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 10, clientY: 10});
+      expect(sc.ranges).toEqual([{startRowNdx: 0, startColNdx: 0, endRowNdx: 1, endColNdx: 1}]);
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 210, clientY: 90});   // no longer dragging
+      expect(sc.ranges.length).toBe(1); });
+
+   it("adds selection ranges with Ctrl when multiple ranges are enabled", () => {
+      const {layoutController, selectionController: sc} = createGrid({}, {multiRangeEnabled: true});
+      const viewportElement = layoutController.viewportElement;
+      sc.setActiveCell({rowNdx: 0, colNdx: 0});
+      pressKey(sc, "ArrowRight", {shiftKey: true});
+      dispatchPointerEvent(viewportElement, "pointerdown", {clientX: 160, clientY: 50, ctrlKey: true});
+      dispatchPointerEvent(viewportElement, "pointermove", {clientX: 210, clientY: 70});
+      dispatchPointerEvent(viewportElement, "pointerup", {clientX: 210, clientY: 70});
+      expect(sc.activeCell).toEqual({rowNdx: 2, colNdx: 3});
+      expect(sc.ranges).toEqual([
+         {startRowNdx: 0, startColNdx: 0, endRowNdx: 0, endColNdx: 1},
+         {startRowNdx: 2, startColNdx: 3, endRowNdx: 3, endColNdx: 4} ]);
+      expect(sc.isSelected(0, 1)).toBe(true);
+      expect(sc.isSelected(3, 4)).toBe(true);
+      expect(sc.isSelected(1, 1)).toBe(false); });
+
+   it("replaces the selection on Ctrl+click when multiple ranges are disabled", () => {
+      const {layoutController, selectionController: sc} = createGrid();
+      sc.setActiveCell({rowNdx: 0, colNdx: 0});
+      dispatchPointerEvent(layoutController.viewportElement, "pointerdown", {clientX: 160, clientY: 50, ctrlKey: true});
+      expect(sc.ranges).toEqual([{startRowNdx: 2, startColNdx: 3, endRowNdx: 2, endColNdx: 3}]); }); });
+
+describe("SelectionController ARIA attributes", () => {
+
+   it("sets `aria-selected` on the rendered cells and `aria-activedescendant` on the focus element", () => {
+      const focusElement = document.createElement("input");
+      const {layoutController, renderParms, selectionController: sc} = createGrid({aria: true}, {ariaEnabled: true, focusElement});
+      const cells = () => layoutController.renderedState!.regularCells;
+      sc.setActiveCell({rowNdx: 1, colNdx: 1});
+      pressKey(sc, "ArrowDown", {shiftKey: true});
+      expect(cells().get(1, 1)!.getAttribute("aria-selected")).toBe("true");
+      expect(cells().get(2, 1)!.getAttribute("aria-selected")).toBe("true");
+      expect(cells().get(0, 0)!.getAttribute("aria-selected")).toBe("false");
+      const activeCellId = cells().get(1, 1)!.id;
+      expect(activeCellId).not.toBe("");
+      expect(focusElement.getAttribute("aria-activedescendant")).toBe(activeCellId);
+      expect(layoutController.viewportElement.hasAttribute("aria-activedescendant")).toBe(false);
+
+      layoutController.render({...renderParms, viewportPosition: {rowNdx: 2, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0}});
+      expect(cells().get(6, 1)!.getAttribute("aria-selected")).toBe("false");   // newly rendered cells are updated after rendering
+      expect(focusElement.hasAttribute("aria-activedescendant")).toBe(false);   // the active cell is no longer rendered
+
+      layoutController.render(renderParms);
+      expect(focusElement.getAttribute("aria-activedescendant")).toBe(cells().get(1, 1)!.id);
+      sc.clearSelection();
+      expect(cells().get(1, 1)!.getAttribute("aria-selected")).toBe("false");
+      expect(focusElement.hasAttribute("aria-activedescendant")).toBe(false); });
+
+   it("does not set ARIA attributes when ARIA is not enabled", () => {
+      const {layoutController, selectionController: sc} = createGrid({aria: true});
+      sc.setActiveCell({rowNdx: 1, colNdx: 1});
+      expect(layoutController.renderedState!.regularCells.get(1, 1)!.hasAttribute("aria-selected")).toBe(false);
+      expect(layoutController.viewportElement.hasAttribute("aria-activedescendant")).toBe(false); }); });
+
+describe("SelectionController scrolling", () => {
+
+   it("fires `viewport-position-change` when the active cell leaves the viewport", () => {
+      const {selectionController: sc, positions} = createGrid();
+      sc.setActiveCell({rowNdx: 4, colNdx: 4});
+      expect(positions).toEqual([]);
+      pressKey(sc, "ArrowDown");
+      expect(positions).toEqual([{rowNdx: 1, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0}]);
+      pressKey(sc, "ArrowRight", {shiftKey: true});                  // the moving end of the range is kept visible
+      expect(positions[1]).toEqual({rowNdx: 1, colNdx: 1, rowPixelOffset: 0, colPixelOffset: 0});
+      sc.setActiveCell({rowNdx: 50, colNdx: 0});
+      expect(positions[2]).toEqual({rowNdx: 46, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0}); }); });
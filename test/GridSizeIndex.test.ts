@@ -0,0 +1,99 @@
+import {describe, it, expect} from "vitest";
+import {SizeIndex} from "../src/GridSizeIndex";
+
+// Returns the start positions of the elements [0..n], computed by a linear scan.
+function computeOffsets (sizes: ArrayLike<number>) : number[] {
+   const offsets = [0];
+   for (let ndx = 0; ndx < sizes.length; ndx++) {
+      offsets.push(offsets[ndx] + sizes[ndx]); }
+   return offsets; }
+
+// Generates reproducible pseudo-random sizes in the range 0..49.
+function genRandomSizes (n: number) : Int16Array {
+   const sizes = new Int16Array(n);
+   let seed = 12345;
+   for (let ndx = 0; ndx < n; ndx++) {
+      seed = (seed * 16807) % 2147483647;
+      sizes[ndx] = seed % 50; }
+   return sizes; }
+
+describe("SizeIndex", () => {
+
+   it("computes the same offsets as a linear scan", () => {
+      const sizes = genRandomSizes(1000);
+      const index = SizeIndex.fromArray(sizes, 20);
+      const offsets = computeOffsets(sizes);
+      expect(index.exact).toBe(true);
+      expect(index.count).toBe(1000);
+      for (let ndx = 0; ndx <= 1000; ndx++) {
+         expect(index.getOffset(ndx)).toBe(offsets[ndx]); }
+      expect(index.getTotalSize()).toBe(offsets[1000]); });
+
+   it("updates the offsets when sizes are changed", () => {
+      const sizes = genRandomSizes(1000);
+      const index = SizeIndex.fromArray(sizes, 20);
+      for (const ndx of [0, 1, 511, 512, 777, 999]) {
+         sizes[ndx] = 100 + ndx;
+         index.setSize(ndx, sizes[ndx]); }
+      const offsets = computeOffsets(sizes);
+      for (let ndx = 0; ndx <= 1000; ndx++) {
+         expect(index.getOffset(ndx)).toBe(offsets[ndx]); }
+      expect(index.getSize(512)).toBe(612); });
+
+   it("uses the default size when no elements have been measured", () => {
+      const index = new SizeIndex(5, 20);
+      expect(index.exact).toBe(false);
+      expect(index.getSize(2)).toBe(-1);
+      expect(index.getEstimatedSize()).toBe(20);
+      expect(index.getOffset(3)).toBe(60);
+      expect(index.getTotalSize()).toBe(100);
+      expect(index.findIndex(59)).toBe(2);
+      expect(index.findIndex(60)).toBe(3); });
+
+   it("uses the average of the measured sizes for unmeasured elements", () => {
+      const index = SizeIndex.fromArray([10, -1, 15, -1], 20);
+      expect(index.exact).toBe(false);
+      expect(index.getEstimatedSize()).toBe(12.5);
+      expect(index.getOffset(2)).toBe(22.5);
+      expect(index.getOffset(3)).toBe(37.5);
+      expect(index.getTotalSize()).toBe(50);
+      expect(index.findIndex(22.4)).toBe(1);
+      expect(index.findIndex(22.5)).toBe(2);
+      index.setSize(1, 20);
+      expect(index.getEstimatedSize()).toBe(15);
+      expect(index.getOffset(4)).toBe(60);
+      index.setSize(1, -1);
+      expect(index.getEstimatedSize()).toBe(12.5);
+      expect(index.getOffset(4)).toBe(50); });
+
+   it("copies measured sizes from an array", () => {
+      const sizes = new Int16Array(10).fill(-1);
+      const index = SizeIndex.fromArray(sizes, 20);
+      sizes.fill(30, 2, 5);
+      index.setSizes(sizes, 2, 3);
+      expect(index.getSize(2)).toBe(30);
+      expect(index.getSize(5)).toBe(-1);
+      expect(index.getOffset(5)).toBe(150);
+      index.setSizes(sizes.fill(10), 8, 5);                          // clipped at the end
+      expect(index.getSize(9)).toBe(10); });
+
+   it("clips offsets and positions at the boundaries", () => {
+      const index = SizeIndex.fromArray([10, 20, 30], 20);
+      expect(index.getOffset(0)).toBe(0);
+      expect(index.getOffset(-1)).toBe(0);
+      expect(index.getOffset(3)).toBe(60);
+      expect(index.getOffset(10)).toBe(60);
+      expect(index.findIndex(-5)).toBe(0);
+      expect(index.findIndex(0)).toBe(0);
+      expect(index.findIndex(9.5)).toBe(0);
+      expect(index.findIndex(10)).toBe(1);
+      expect(index.findIndex(59)).toBe(2);
+      expect(index.findIndex(60)).toBe(2);
+      expect(index.findIndex(1000)).toBe(2);
+      expect(new SizeIndex(0, 20).findIndex(0)).toBe(0); });
+
+   it("skips elements with a size of 0", () => {
+      const index = SizeIndex.fromArray([10, 0, 0, 10], 20);
+      expect(index.findIndex(9)).toBe(0);
+      expect(index.findIndex(10)).toBe(3);
+      expect(index.getOffset(3)).toBe(10); }); });
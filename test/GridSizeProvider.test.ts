@@ -0,0 +1,64 @@
+import {describe, it, expect} from "vitest";
+import {SparseSizeProvider, isSizeProvider, getSizeCount, getSize} from "../src/GridSizeProvider";
+
+describe("SparseSizeProvider", () => {
+
+   it("returns the default size for rows/columns without an override", () => {
+      const sizes = new SparseSizeProvider(1000000, 20);
+      expect(sizes.count).toBe(1000000);
+      expect(sizes.get(0)).toBe(20);
+      expect(sizes.get(999999)).toBe(20);
+      expect(sizes.overrideCount).toBe(0);
+      expect(new SparseSizeProvider(10).get(3)).toBe(-1); });       // undetermined by default
+
+   it("stores overrides and removes them when they are reset or set to the default size", () => {
+      const sizes = new SparseSizeProvider(100, 20);
+      sizes.set(5, 40);
+      sizes.set(7, 0);
+      sizes.set(9, 20);                                              // (equal to the default size, no override)
+      expect([sizes.get(5), sizes.get(6), sizes.get(7), sizes.get(9)]).toEqual([40, 20, 0, 20]);
+      expect(sizes.overrideCount).toBe(2);
+      sizes.set(5, 20);
+      expect(sizes.get(5)).toBe(20);
+      expect(sizes.overrideCount).toBe(1);
+      sizes.reset(7);
+      expect(sizes.get(7)).toBe(20);
+      expect(sizes.overrideCount).toBe(0);
+      sizes.set(1, 30);
+      sizes.set(2, 30);
+      sizes.clear();
+      expect([sizes.get(1), sizes.get(2), sizes.overrideCount]).toEqual([20, 20, 0]); });
+
+   it("applies a changed default size to the rows/columns without an override", () => {
+      const sizes = new SparseSizeProvider(100, -1);
+      sizes.set(3, 25);
+      sizes.defaultSize = 30;
+      expect([sizes.get(2), sizes.get(3)]).toEqual([30, 25]); });
+
+   it("returns the default size for out-of-range indexes", () => {
+      const sizes = new SparseSizeProvider(10, 20);
+      expect(sizes.get(-1)).toBe(20);
+      expect(sizes.get(10)).toBe(20); }); });
+
+describe("Size source functions", () => {
+
+   it("distinguishes size providers from arrays", () => {
+      expect(isSizeProvider(new SparseSizeProvider(10))).toBe(true);
+      expect(isSizeProvider({count: 3, get: () => 10})).toBe(true);
+      expect(isSizeProvider([10, 20])).toBe(false);
+      expect(isSizeProvider(new Int16Array(3))).toBe(false); });
+
+   it("returns the count and the sizes of arrays and size providers", () => {
+      const provider = new SparseSizeProvider(5, 20);
+      provider.set(1, 35);
+      const array = new Int16Array([20, 35, 20, 20, 20]);
+      for (const sizes of [provider, array, Array.from(array)]) {
+         expect(getSizeCount(sizes)).toBe(5);
+         expect([0, 1, 2, 3, 4].map((ndx) => getSize(sizes, ndx))).toEqual([20, 35, 20, 20, 20]); }});
+
+   it("passes out-of-range reads through to the array or the size provider", () => {
+      expect(getSize(new Int16Array(3), 3)).toBeUndefined();
+      expect(getSize([10, 20], -1)).toBeUndefined();
+      expect(getSize(new SparseSizeProvider(3, 20), 3)).toBe(20);
+      expect(getSizeCount([])).toBe(0);
+      expect(getSizeCount(new SparseSizeProvider(0))).toBe(0); }); });
@@ -0,0 +1,121 @@
+// @vitest-environment jsdom
+
+import {describe, it, expect} from "vitest";
+import {ScrollUnit, ScrollMode, process} from "../src/GridScroll";
+import {RenderParms, LayoutController} from "../src/GridLayout";
+import {SizeIndex} from "../src/GridSizeIndex";
+import {convertPlainScrollbarInputEvent, convertWheelEventToPixels, convertKeyboardEvent, genKeyName, genScrollInputParms} from "../src/GridUtils";
+
+describe("convertKeyboardEvent", () => {
+
+   const convert = (init: KeyboardEventInit, rtl?: boolean) => convertKeyboardEvent(new KeyboardEvent("keydown", init), rtl);
+
+   it("converts the scroll keys", () => {
+      expect(convert({key: "PageDown"})).toEqual({orientation: true, scrollUnit: ScrollUnit.largeIncr, scrollValue: 1});
+      expect(convert({key: "PageUp"})).toEqual({orientation: true, scrollUnit: ScrollUnit.largeIncr, scrollValue: -1});
+      expect(convert({key: "ArrowDown"})).toEqual({orientation: true, scrollUnit: ScrollUnit.smallIncr, scrollValue: 1});
+      expect(convert({key: "ArrowUp"})).toEqual({orientation: true, scrollUnit: ScrollUnit.smallIncr, scrollValue: -1});
+      expect(convert({key: "ArrowRight"})).toEqual({orientation: false, scrollUnit: ScrollUnit.smallIncr, scrollValue: 1});
+      expect(convert({key: "ArrowLeft"})).toEqual({orientation: false, scrollUnit: ScrollUnit.smallIncr, scrollValue: -1});
+      expect(convert({key: "Home"})).toEqual({orientation: false, scrollUnit: ScrollUnit.propPosition, scrollValue: 0});
+      expect(convert({key: "End"})).toEqual({orientation: false, scrollUnit: ScrollUnit.propPosition, scrollValue: 1});
+      expect(convert({key: "Home", ctrlKey: true})).toEqual({orientation: true, scrollUnit: ScrollUnit.propPosition, scrollValue: 0});
+      expect(convert({key: "End", ctrlKey: true})).toEqual({orientation: true, scrollUnit: ScrollUnit.propPosition, scrollValue: 1}); });
+
+   it("swaps the horizontal arrow keys in RTL mode", () => {
+      expect(convert({key: "ArrowLeft"}, true)).toEqual({orientation: false, scrollUnit: ScrollUnit.smallIncr, scrollValue: 1});
+      expect(convert({key: "ArrowRight"}, true)).toEqual({orientation: false, scrollUnit: ScrollUnit.smallIncr, scrollValue: -1});
+      expect(convert({key: "ArrowDown"}, true)).toEqual({orientation: true, scrollUnit: ScrollUnit.smallIncr, scrollValue: 1}); });
+
+   it("ignores other keys and key combinations", () => {
+      expect(convert({key: "a"})).toBeUndefined();
+      expect(convert({key: "PageDown", shiftKey: true})).toBeUndefined();
+      expect(convert({key: "ArrowUp", altKey: true})).toBeUndefined(); }); });
+
+describe("genKeyName", () => {
+
+   it("prefixes the modifier keys", () => {
+      expect(genKeyName(new KeyboardEvent("keydown", {key: "Home", shiftKey: true, ctrlKey: true, altKey: true, metaKey: true}))).toBe("Shift-Ctrl-Alt-Meta-Home"); }); });
+
+describe("convertWheelEventToPixels", () => {
+
+   const convert = (init: WheelEventInit, lineSize?: number, pageSize?: number) => convertWheelEventToPixels(new WheelEvent("wheel", init), lineSize, pageSize);
+
+   it("passes pixel deltas unchanged", () => {
+      expect(convert({deltaX: 7, deltaY: -3, deltaMode: 0})).toEqual({deltaX: 7, deltaY: -3}); });
+
+   it("converts line deltas", () => {
+      expect(convert({deltaX: 1, deltaY: 3, deltaMode: 1})).toEqual({deltaX: 16, deltaY: 48});
+      expect(convert({deltaX: 0, deltaY: -2, deltaMode: 1}, 20)).toEqual({deltaX: 0, deltaY: -40}); });
+
+   it("converts page deltas", () => {
+      expect(convert({deltaY: 1, deltaMode: 2})).toEqual({deltaX: 0, deltaY: 800});
+      expect(convert({deltaY: -1, deltaMode: 2}, 16, 500)).toEqual({deltaX: 0, deltaY: -500}); }); });
+
+describe("convertPlainScrollbarInputEvent", () => {
+
+   function convert (detail: string) {
+      const scrollbar = document.createElement("div");
+      (<any>scrollbar).value = 0.25;
+      let result: ReturnType<typeof convertPlainScrollbarInputEvent>;
+      scrollbar.addEventListener("scrollbar-input", (event: Event) => {
+         result = convertPlainScrollbarInputEvent(<CustomEvent>event); });
+      scrollbar.dispatchEvent(new CustomEvent("scrollbar-input", {detail}));
+      return result; }
+
+   it("converts the scrollbar input events", () => {
+      expect(convert("value")).toEqual({scrollUnit: ScrollUnit.propPosition, scrollValue: 0.25});
+      expect(convert("decrementSmall")).toEqual({scrollUnit: ScrollUnit.smallIncr, scrollValue: -1});
+      expect(convert("incrementSmall")).toEqual({scrollUnit: ScrollUnit.smallIncr, scrollValue: 1});
+      expect(convert("decrementLarge")).toEqual({scrollUnit: ScrollUnit.largeIncr, scrollValue: -1});
+      expect(convert("incrementLarge")).toEqual({scrollUnit: ScrollUnit.largeIncr, scrollValue: 1});
+      expect(convert("other")).toBeUndefined(); }); });
+
+describe("genScrollInputParms", () => {
+
+   function renderGrid (rp: Partial<RenderParms>) : LayoutController {
+      const viewportElement = document.createElement("div");
+      Object.defineProperty(viewportElement, "clientWidth", {value: 200});
+      Object.defineProperty(viewportElement, "clientHeight", {value: 100});
+      const controller = new LayoutController(viewportElement);
+      controller.render({
+         viewportPosition: {rowNdx: 10, colNdx: 2, rowPixelOffset: 5, colPixelOffset: 7},
+         rowHeights:       new Int16Array(100).fill(20),
+         colWidths:        new Int16Array(10).fill(50),
+         macroCellWidth:   0,
+         vCellOverlap:     0,
+         frozenRows:       1,
+         prepareCell:      () => document.createElement("div"),
+         ...rp });
+      return controller; }
+
+   it("takes the sizes from the render parameters and the viewport from the rendered state", () => {
+      const rowSizeIndex = SizeIndex.fromArray(new Int16Array(100).fill(20), 20);
+      const controller = renderGrid({rowSizeIndex});
+      const rp = controller.renderParms!;
+      const rs = controller.renderedState!;
+      expect(genScrollInputParms(rp, rs, true, ScrollUnit.smallIncr, 1, ScrollMode.pixel)).toMatchObject({
+         scrollUnit: ScrollUnit.smallIncr, scrollValue: 1, scrollMode: ScrollMode.pixel, topNdx: 10, pixelOffset: 5,
+         elementCount: 100, viewportSize: 100, elementSizes: rp.rowHeights, frozenCount: 1, sizeIndex: rowSizeIndex });
+      expect(genScrollInputParms(rp, rs, false, ScrollUnit.intoView, 8, undefined)).toMatchObject({
+         topNdx: 2, pixelOffset: 7, elementCount: 10, viewportSize: 200, elementSizes: rp.colWidths, sizeIndex: undefined }); });
+
+   it("starts from the specified viewport position", () => {
+      const controller = renderGrid({});
+      const pos = {rowNdx: 20, colNdx: 0, rowPixelOffset: 0, colPixelOffset: 0};
+      const ip = genScrollInputParms(controller.renderParms!, controller.renderedState!, true, ScrollUnit.pixelIncr, 30, ScrollMode.pixel, pos);
+      expect(process(ip)).toMatchObject({topNdx: 21, pixelOffset: 10}); });
+
+   it("passes the measure function with the orientation", () => {
+      const rowHeights = new Int16Array(100).fill(-1);
+      const measured: boolean[] = [];
+      const measure = (startNdx: number, n: number, orientation: boolean) => {
+         measured.push(orientation);
+         if (orientation) {
+            rowHeights.fill(20, startNdx, startNdx + n); }};
+      const controller = renderGrid({rowHeights, measure});
+      measured.length = 0;
+      const ip = genScrollInputParms(controller.renderParms!, controller.renderedState!, true, ScrollUnit.largeIncr, 3, undefined);
+      expect(process(ip).topNdx).toBe(22);
+      expect(measured.length).toBeGreaterThan(0);
+      expect(measured.every((orientation) => orientation)).toBe(true); }); });
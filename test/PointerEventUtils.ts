@@ -0,0 +1,67 @@
+// Pointer event support for the jsdom tests.
+
+// jsdom implements neither `PointerEvent` nor pointer capture. This module emulates both:
+// - Pointer events are dispatched to the element that has captured the pointer, if there is one.
+// - When an element loses the capture, because the capture is released or taken over by another element,
+//   `lostpointercapture` is fired at that element before the next pointer event, like in the browsers.
+//   The capture is released implicitly after `pointerup` and `pointercancel`.
+
+const captures = new Map<number, Element>();                        // capturing element by pointer ID
+let lostCaptures: {element: Element; pointerId: number}[] = [];    // pending `lostpointercapture` events
+
+// Installs the emulation and resets the pointer capture state. Should be called before each test.
+export function installPointerEventSupport() {
+   captures.clear();
+   lostCaptures = [];
+   if (typeof PointerEvent == "undefined") {
+      (<any>globalThis).PointerEvent = class extends MouseEvent {
+         public pointerId:         number;
+         public pointerType:       string;
+         public isPrimary:         boolean;
+         constructor (type: string, init: PointerEventInit = {}) {
+            super(type, init);
+            this.pointerId = init.pointerId || 0;
+            this.pointerType = init.pointerType || "";
+            this.isPrimary = !!init.isPrimary; }}; }
+   const proto = <any>Element.prototype;
+   const methods = <any>PointerCaptureMethods.prototype;
+   for (const name of ["setPointerCapture", "releasePointerCapture", "hasPointerCapture"]) {
+      proto[name] = methods[name]; }}
+
+// The pointer capture methods that are installed into `Element.prototype`.
+class PointerCaptureMethods {
+   public setPointerCapture (this: Element, pointerId: number) {
+      const oldElement = captures.get(pointerId);
+      if (oldElement && oldElement != this) {
+         lostCaptures.push({element: oldElement, pointerId}); }
+      captures.set(pointerId, this); }
+   public releasePointerCapture (this: Element, pointerId: number) {
+      if (captures.get(pointerId) != this) {
+         return; }
+      captures.delete(pointerId);
+      lostCaptures.push({element: this, pointerId}); }
+   public hasPointerCapture (this: Element, pointerId: number) : boolean {
+      return captures.get(pointerId) == this; }}
+
+// Fires the pending `lostpointercapture` events.
+export function processPendingPointerCapture() {
+   const a = lostCaptures;
+   lostCaptures = [];
+   for (const {element, pointerId} of a) {
+      element.dispatchEvent(new PointerEvent("lostpointercapture", {pointerId, bubbles: true})); }}
+
+// Dispatches a pointer event to `target`, or to the element that has captured the pointer.
+// The defaults are a primary mouse pointer with the ID 1. The screen coordinates default to the client coordinates.
+export function dispatchPointerEvent (target: Element, type: string, init: PointerEventInit = {}) : PointerEvent {
+   processPendingPointerCapture();
+   const pointerId = (init.pointerId != undefined) ? init.pointerId : 1;
+   const event = new PointerEvent(type, {
+      bubbles: true, cancelable: true, pointerType: "mouse", isPrimary: true,
+      screenX: init.clientX, screenY: init.clientY, ...init, pointerId });
+   (captures.get(pointerId) || target).dispatchEvent(event);
+   if (type == "pointerup" || type == "pointercancel") {
+      const element = captures.get(pointerId);
+      if (element) {
+         element.releasePointerCapture(pointerId); }
+      processPendingPointerCapture(); }
+   return event; }